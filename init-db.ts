@@ -18,12 +18,36 @@ async function main() {
     // console.log('Cleaning up existing database...');
     // await prisma.subscriber.deleteMany({});
 
+    // Default reward tiers. Upserted so the script can be re-run safely.
+    console.log('Creating reward tiers...');
+    
+    await prisma.rewardTier.upsert({
+      where: { threshold: 3 },
+      update: {},
+      create: {
+        name: 'Early Access',
+        description: 'Skip the line and get in before public launch',
+        threshold: 3
+      }
+    });
+    
+    await prisma.rewardTier.upsert({
+      where: { threshold: 10 },
+      update: {},
+      create: {
+        name: 'Premium Month',
+        description: 'One month of Cherry Premium on us',
+        threshold: 10
+      }
+    });
+    
     // Create some test users with referral codes
     console.log('Creating initial test subscribers...');
     
     const user1 = await prisma.subscriber.create({
       data: {
         email: 'user1@example.com',
+        canonicalEmail: 'user1@example.com',
         name: 'John Doe',
         referralCode: 'USER1CODE',
         verified: true
@@ -33,6 +57,7 @@ async function main() {
     const user2 = await prisma.subscriber.create({
       data: {
         email: 'user2@example.com',
+        canonicalEmail: 'user2@example.com',
         name: 'Jane Smith',
         referralCode: 'USER2CODE',
         verified: true
@@ -45,6 +70,7 @@ async function main() {
     const referral1 = await prisma.subscriber.create({
       data: {
         email: 'referred1@example.com',
+        canonicalEmail: 'referred1@example.com',
         name: 'Alex Johnson',
         referralCode: 'REFERRED1',
         referredBy: user1.id,
@@ -55,6 +81,7 @@ async function main() {
     const referral2 = await prisma.subscriber.create({
       data: {
         email: 'referred2@example.com',
+        canonicalEmail: 'referred2@example.com',
         name: 'Taylor Swift',
         referralCode: 'REFERRED2',
         referredBy: user1.id,
@@ -65,6 +92,7 @@ async function main() {
     const referral3 = await prisma.subscriber.create({
       data: {
         email: 'referred3@example.com',
+        canonicalEmail: 'referred3@example.com',
         name: 'Sam Wilson',
         referralCode: 'REFERRED3',
         referredBy: user2.id,
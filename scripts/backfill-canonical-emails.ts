@@ -0,0 +1,101 @@
+/**
+ * Canonical Email Backfill
+ *
+ * Fills in Subscriber.canonicalEmail for subscribers who joined before the
+ * column existed, using the provider rules in src/lib/email.ts. Subscribers
+ * whose addresses turn out to be the same mailbox (e.g. jane.doe@gmail.com
+ * and janedoe+x@gmail.com) are reported and left unfilled: pick the one to
+ * keep, delete the others (e.g. from /admin) and run the script again.
+ *
+ * Run with: npx tsx scripts/backfill-canonical-emails.ts [--dry-run]
+ *
+ *   --dry-run   Report what would be filled in and every collision without writing
+ */
+
+import { parseArgs } from 'node:util';
+import { prisma } from '@/lib/prisma';
+import { canonicalizeEmail, isDuplicateEmailError } from '@/lib/email';
+
+type Row = { id: string; email: string; canonicalEmail: string | null; createdAt: Date };
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      'dry-run': { type: 'boolean', default: false }
+    }
+  });
+  const dryRun = values['dry-run'];
+
+  const rows: Row[] = await prisma.subscriber.findMany({
+    select: { id: true, email: true, canonicalEmail: true, createdAt: true },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  // Subscribers that already have a canonical email count too: a missing one
+  // may collide with them
+  const byCanonicalEmail = new Map<string, Row[]>();
+
+  for (const row of rows) {
+    const canonicalEmail = row.canonicalEmail ?? canonicalizeEmail(row.email);
+    byCanonicalEmail.set(canonicalEmail, [...(byCanonicalEmail.get(canonicalEmail) ?? []), row]);
+  }
+
+  const missing = rows.filter((row) => row.canonicalEmail === null);
+  const collisions = new Map<string, Row[]>();
+  let filled = 0;
+
+  console.log(`${missing.length} of ${rows.length} subscribers have no canonical email${dryRun ? ' (dry run)' : ''}`);
+
+  for (const row of missing) {
+    const canonicalEmail = canonicalizeEmail(row.email);
+    const group = byCanonicalEmail.get(canonicalEmail) ?? [];
+
+    if (group.length > 1) {
+      collisions.set(canonicalEmail, group);
+      continue;
+    }
+
+    if (dryRun) {
+      filled++;
+      continue;
+    }
+
+    try {
+      await prisma.subscriber.update({ where: { id: row.id }, data: { canonicalEmail } });
+      filled++;
+    } catch (error) {
+      // Someone with the same mailbox signed up while the script was running
+      if (!isDuplicateEmailError(error)) throw error;
+
+      const existing = await prisma.subscriber.findUnique({
+        where: { canonicalEmail },
+        select: { id: true, email: true, canonicalEmail: true, createdAt: true }
+      });
+      collisions.set(
+        canonicalEmail,
+        [row, ...(existing ? [existing] : [])].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      );
+    }
+  }
+
+  for (const [canonicalEmail, group] of collisions) {
+    console.error(`\n${canonicalEmail} is shared by ${group.length} subscribers (oldest first):`);
+
+    for (const row of group) {
+      console.error(`  ${row.id}  ${row.email}  joined ${row.createdAt.toISOString()}`);
+    }
+  }
+
+  console.log(`\n${dryRun ? 'Would fill in' : 'Filled in'} ${filled} of ${missing.length}, ${collisions.size} collisions`);
+
+  if (collisions.size > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('Backfill failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
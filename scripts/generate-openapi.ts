@@ -0,0 +1,24 @@
+/**
+ * OpenAPI Document
+ *
+ * Regenerates specs/openapi.json from the API contract
+ * (src/lib/api/contract.ts). Run after changing a request or response
+ * schema; the test suite fails while the committed file is out of date.
+ *
+ * Run with: npm run openapi
+ */
+
+import { writeFile } from 'node:fs/promises';
+import { buildOpenApiDocument } from '@/lib/api/openapi';
+
+const OPENAPI_FILE = 'specs/openapi.json';
+
+async function main() {
+  await writeFile(OPENAPI_FILE, `${JSON.stringify(buildOpenApiDocument(), null, 2)}\n`);
+  console.log(`Wrote ${OPENAPI_FILE}`);
+}
+
+main().catch((error) => {
+  console.error('Failed to generate the OpenAPI document:', error);
+  process.exitCode = 1;
+});
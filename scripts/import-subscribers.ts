@@ -0,0 +1,93 @@
+/**
+ * Bulk Subscriber Import
+ *
+ * Imports a waitlist exported from another tool. Rows are validated against
+ * the signup rules, emails are normalized, original signup dates and referrer
+ * relationships are kept, and missing referral codes are generated.
+ *
+ * Run with: npx tsx scripts/import-subscribers.ts <file.csv|file.json> [options]
+ *
+ *   --dry-run             Validate and resolve everything without writing
+ *   --format csv|json     Defaults to the file extension
+ *   --batch-size <n>      Rows per insert (default 500)
+ *   --report <file>       Write the per-row report as JSON
+ *   --allow-disposable    Accept disposable email domains
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { parseArgs } from 'node:util';
+import { prisma } from '@/lib/prisma';
+import { importSubscribers, readImportRecords, type ImportFormat } from '@/lib/subscriber-import';
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      'dry-run': { type: 'boolean', default: false },
+      format: { type: 'string' },
+      'batch-size': { type: 'string', default: '500' },
+      report: { type: 'string' },
+      'allow-disposable': { type: 'boolean', default: false }
+    }
+  });
+
+  const [file] = positionals;
+
+  if (!file) {
+    console.error('Usage: npx tsx scripts/import-subscribers.ts <file.csv|file.json> [--dry-run] [--format csv|json] [--batch-size 500] [--report report.json] [--allow-disposable]');
+    process.exitCode = 1;
+    return;
+  }
+
+  const format = (values.format ?? extname(file).slice(1).toLowerCase()) as ImportFormat;
+  const batchSize = Number(values['batch-size']);
+
+  if (format !== 'csv' && format !== 'json') {
+    console.error(`Unknown format "${format}". Use --format csv or --format json.`);
+    process.exitCode = 1;
+    return;
+  }
+
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    console.error('--batch-size must be a positive integer');
+    process.exitCode = 1;
+    return;
+  }
+
+  const records = readImportRecords(await readFile(file, 'utf8'), format);
+  console.log(`Read ${records.length} rows from ${file}${values['dry-run'] ? ' (dry run)' : ''}`);
+
+  const report = await importSubscribers(records, {
+    dryRun: values['dry-run'],
+    batchSize,
+    allowDisposable: values['allow-disposable']
+  });
+
+  for (const row of report.rows) {
+    for (const error of row.errors) {
+      console.error(`Row ${row.row} (${row.email ?? 'no email'}): ${error}`);
+    }
+    for (const warning of row.warnings) {
+      console.warn(`Row ${row.row} (${row.email ?? 'no email'}): warning: ${warning}`);
+    }
+  }
+
+  console.log(`\n${report.dryRun ? 'Would import' : 'Imported'} ${report.imported} of ${report.total} rows, ${report.failed} failed`);
+
+  if (values.report) {
+    await writeFile(values.report, `${JSON.stringify(report, null, 2)}\n`);
+    console.log(`Report written to ${values.report}`);
+  }
+
+  if (report.failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('Import failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
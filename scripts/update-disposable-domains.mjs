@@ -0,0 +1,30 @@
+// Refreshes src/lib/disposable-domains.json from the community-maintained
+// disposable-email-domains blocklist. Domains already in the file are kept, so
+// local additions survive an update.
+//
+// Usage: npm run update-disposable-domains [-- <blocklist url>]
+
+import { readFile, writeFile } from 'node:fs/promises';
+
+const DEFAULT_SOURCE =
+  'https://raw.githubusercontent.com/disposable-email-domains/disposable-email-domains/main/disposable_email_blocklist.conf';
+const TARGET = new URL('../src/lib/disposable-domains.json', import.meta.url);
+
+const source = process.argv[2] ?? DEFAULT_SOURCE;
+const response = await fetch(source);
+
+if (!response.ok) {
+  console.error(`Failed to download ${source}: HTTP ${response.status}`);
+  process.exit(1);
+}
+
+const downloaded = (await response.text())
+  .split('\n')
+  .map((line) => line.trim().toLowerCase())
+  .filter((line) => line && !line.startsWith('#'));
+
+const current = JSON.parse(await readFile(TARGET, 'utf8'));
+const domains = [...new Set([...current, ...downloaded])].sort();
+
+await writeFile(TARGET, `${JSON.stringify(domains, null, 2)}\n`);
+console.log(`Wrote ${domains.length} domains (${domains.length - current.length} new)`);
@@ -0,0 +1,165 @@
+import { getFunnel, getTrafficSources } from "@/lib/analytics";
+import { getCampaignSignups } from "@/lib/campaigns";
+import { AnalyticsQuerySchema } from "@/lib/validations/admin";
+import { requireAdminPage } from "@/lib/admin-auth";
+
+type SearchParams = Promise<Record<string, string | string[] | undefined>>;
+
+const RANGES = [7, 30, 90];
+
+function rate(part: number, whole: number) {
+  return whole > 0 ? `${((part / whole) * 100).toFixed(1)}%` : '—';
+}
+
+export default async function AdminAnalyticsPage({
+  searchParams,
+}: {
+  searchParams: SearchParams;
+}) {
+  await requireAdminPage();
+
+  const parsed = AnalyticsQuerySchema.safeParse(await searchParams);
+  const { days } = parsed.success ? parsed.data : AnalyticsQuerySchema.parse({});
+
+  const from = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const [funnel, sources, campaigns] = await Promise.all([
+    getFunnel(days),
+    getTrafficSources(days),
+    getCampaignSignups({ from, limit: 25 }),
+  ]);
+  const { totals } = funnel;
+
+  const steps = [
+    { label: 'Visits', value: totals.visits, conversion: null },
+    { label: 'Form starts', value: totals.formStarts, conversion: rate(totals.formStarts, totals.visits) },
+    { label: 'Submissions', value: totals.submissions, conversion: rate(totals.submissions, totals.formStarts) },
+    { label: 'Verifications', value: totals.verifications, conversion: rate(totals.verifications, totals.submissions) },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-end justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Analytics</h1>
+          <p className="text-white/60">Conversion funnel and traffic sources for the last {days} days (UTC).</p>
+        </div>
+        <div className="flex gap-2">
+          {RANGES.map((range) => (
+            <a
+              key={range}
+              href={`/admin/analytics?days=${range}`}
+              className={`px-4 py-2 text-sm border rounded-lg ${
+                range === days ? 'bg-purple-600/40 border-purple-500/50' : 'bg-white/10 hover:bg-white/20 border-white/20'
+              }`}
+            >
+              {range} days
+            </a>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {steps.map((step) => (
+          <div key={step.label} className="p-4 bg-black/20 backdrop-blur-xl border border-white/10 rounded-xl">
+            <p className="text-sm text-white/60">{step.label}</p>
+            <p className="text-2xl font-medium">{step.value.toLocaleString()}</p>
+            {step.conversion && <p className="text-sm text-white/60">{step.conversion} of previous step</p>}
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 overflow-x-auto bg-black/20 backdrop-blur-xl border border-white/10 rounded-xl">
+          <table className="w-full text-sm text-left">
+            <thead className="text-white/60 border-b border-white/10">
+              <tr>
+                <th className="px-4 py-3 font-medium">Day</th>
+                <th className="px-4 py-3 font-medium text-right">Visits</th>
+                <th className="px-4 py-3 font-medium text-right">Form starts</th>
+                <th className="px-4 py-3 font-medium text-right">Submissions</th>
+                <th className="px-4 py-3 font-medium text-right">Verifications</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...funnel.days].reverse().map((day) => (
+                <tr key={day.day} className="border-b border-white/5 hover:bg-white/5">
+                  <td className="px-4 py-3 text-white/80">{day.day}</td>
+                  <td className="px-4 py-3 text-right">{day.visits}</td>
+                  <td className="px-4 py-3 text-right">{day.formStarts}</td>
+                  <td className="px-4 py-3 text-right">{day.submissions}</td>
+                  <td className="px-4 py-3 text-right">{day.verifications}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="overflow-x-auto bg-black/20 backdrop-blur-xl border border-white/10 rounded-xl">
+          <table className="w-full text-sm text-left">
+            <thead className="text-white/60 border-b border-white/10">
+              <tr>
+                <th className="px-4 py-3 font-medium">Source</th>
+                <th className="px-4 py-3 font-medium text-right">Sessions</th>
+                <th className="px-4 py-3 font-medium text-right">Signups</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sources.map((source) => (
+                <tr key={source.source} className="border-b border-white/5 hover:bg-white/5">
+                  <td className="px-4 py-3 break-all">{source.source}</td>
+                  <td className="px-4 py-3 text-right">{source.sessions}</td>
+                  <td className="px-4 py-3 text-right">
+                    {source.signups}
+                    <span className="ml-1 text-white/50">({rate(source.signups, source.sessions)})</span>
+                  </td>
+                </tr>
+              ))}
+              {sources.length === 0 && (
+                <tr>
+                  <td colSpan={3} className="px-4 py-8 text-center text-white/60">
+                    No visits recorded yet.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto bg-black/20 backdrop-blur-xl border border-white/10 rounded-xl">
+        <table className="w-full text-sm text-left">
+          <thead className="text-white/60 border-b border-white/10">
+            <tr>
+              <th className="px-4 py-3 font-medium">Source</th>
+              <th className="px-4 py-3 font-medium">Medium</th>
+              <th className="px-4 py-3 font-medium">Campaign</th>
+              <th className="px-4 py-3 font-medium text-right">Signups</th>
+              <th className="px-4 py-3 font-medium text-right">Verified</th>
+            </tr>
+          </thead>
+          <tbody>
+            {campaigns.map((campaign) => (
+              <tr
+                key={`${campaign.utmSource}/${campaign.utmMedium}/${campaign.utmCampaign}`}
+                className="border-b border-white/5 hover:bg-white/5"
+              >
+                <td className="px-4 py-3">{campaign.utmSource ?? '—'}</td>
+                <td className="px-4 py-3">{campaign.utmMedium ?? '—'}</td>
+                <td className="px-4 py-3">{campaign.utmCampaign ?? '—'}</td>
+                <td className="px-4 py-3 text-right">{campaign.signups}</td>
+                <td className="px-4 py-3 text-right">{campaign.verified}</td>
+              </tr>
+            ))}
+            {campaigns.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-4 py-8 text-center text-white/60">
+                  No signups in this period.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
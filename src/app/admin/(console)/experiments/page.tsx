@@ -0,0 +1,73 @@
+import { getExperimentResults } from "@/lib/experiment-tracking";
+import { requireAdminPage } from "@/lib/admin-auth";
+
+function percent(value: number) {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+export default async function AdminExperimentsPage() {
+  await requireAdminPage();
+
+  const experiments = await getExperimentResults();
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Experiments</h1>
+        <p className="text-white/60">
+          Signups per exposed visitor. Each variant is compared with the first (control) using a two-sided two-proportion z-test.
+        </p>
+      </div>
+
+      {experiments.map((experiment) => (
+        <div key={experiment.key} className="overflow-x-auto bg-black/20 backdrop-blur-xl border border-white/10 rounded-xl">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+            <div>
+              <h2 className="text-lg font-medium">{experiment.name}</h2>
+              <p className="text-sm font-mono text-white/60">{experiment.key}</p>
+            </div>
+            <span className={`px-2 py-1 text-xs rounded-full ${
+              experiment.active ? 'bg-emerald-500/20 text-emerald-300' : 'bg-white/10 text-white/60'
+            }`}>
+              {experiment.active ? 'Running' : 'Paused'}
+            </span>
+          </div>
+          <table className="w-full text-sm text-left">
+            <thead className="text-white/60 border-b border-white/10">
+              <tr>
+                <th className="px-4 py-3 font-medium">Variant</th>
+                <th className="px-4 py-3 font-medium text-right">Weight</th>
+                <th className="px-4 py-3 font-medium text-right">Exposures</th>
+                <th className="px-4 py-3 font-medium text-right">Conversions</th>
+                <th className="px-4 py-3 font-medium text-right">Rate</th>
+                <th className="px-4 py-3 font-medium text-right">Lift</th>
+                <th className="px-4 py-3 font-medium text-right">p-value</th>
+              </tr>
+            </thead>
+            <tbody>
+              {experiment.variants.map((variant, index) => (
+                <tr key={variant.key} className="border-b border-white/5 hover:bg-white/5">
+                  <td className="px-4 py-3 font-mono">
+                    {variant.key}
+                    {index === 0 && <span className="ml-2 text-white/50 font-sans">(control)</span>}
+                  </td>
+                  <td className="px-4 py-3 text-right">{variant.weight}</td>
+                  <td className="px-4 py-3 text-right">{variant.exposures.toLocaleString()}</td>
+                  <td className="px-4 py-3 text-right">{variant.conversions.toLocaleString()}</td>
+                  <td className="px-4 py-3 text-right">{percent(variant.conversionRate)}</td>
+                  <td className="px-4 py-3 text-right">
+                    {variant.lift === null ? '—' : `${variant.lift >= 0 ? '+' : ''}${percent(variant.lift)}`}
+                  </td>
+                  <td className={`px-4 py-3 text-right ${variant.test?.significant ? 'text-emerald-400' : 'text-white/80'}`}>
+                    {variant.test ? variant.test.pValue.toFixed(3) : '—'}
+                    {variant.test?.significant && ' ✓'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ))}
+    </div>
+  );
+}
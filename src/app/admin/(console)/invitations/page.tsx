@@ -0,0 +1,81 @@
+import { InvitationBatchForm } from "@/components/admin/invitation-batch-form";
+import { getInvitationOverview } from "@/lib/invitations";
+import { prisma } from "@/lib/prisma";
+import { requireAdminPage } from "@/lib/admin-auth";
+
+export default async function AdminInvitationsPage() {
+  await requireAdminPage();
+
+  const [{ counts, batches }, tiers] = await Promise.all([
+    getInvitationOverview(),
+    prisma.rewardTier.findMany({
+      where: { active: true },
+      orderBy: { threshold: 'asc' },
+      select: { id: true, name: true }
+    }),
+  ]);
+
+  const stats = [
+    { label: 'Waiting', value: counts.waiting },
+    { label: 'Invited', value: counts.invited },
+    { label: 'Accepted', value: counts.accepted },
+    { label: 'Expired', value: counts.expired },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Invitations</h1>
+        <p className="text-white/60">Let the front of the waitlist in with single-use access codes.</p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {stats.map((stat) => (
+          <div key={stat.label} className="p-4 bg-black/20 backdrop-blur-xl border border-white/10 rounded-xl">
+            <p className="text-sm text-white/60">{stat.label}</p>
+            <p className="text-2xl font-medium">{stat.value.toLocaleString()}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="p-6 bg-black/20 backdrop-blur-xl border border-white/10 rounded-xl">
+        <h2 className="text-lg font-medium mb-4">New batch</h2>
+        <InvitationBatchForm tiers={tiers} />
+      </div>
+
+      <div className="overflow-x-auto bg-black/20 backdrop-blur-xl border border-white/10 rounded-xl">
+        <table className="w-full text-sm text-left">
+          <thead className="text-white/60 border-b border-white/10">
+            <tr>
+              <th className="px-4 py-3 font-medium">Issued</th>
+              <th className="px-4 py-3 font-medium">Selected by</th>
+              <th className="px-4 py-3 font-medium text-right">Invited</th>
+              <th className="px-4 py-3 font-medium text-right">Accepted</th>
+              <th className="px-4 py-3 font-medium">Expires</th>
+            </tr>
+          </thead>
+          <tbody>
+            {batches.map((batch) => (
+              <tr key={batch.id} className="border-b border-white/5 hover:bg-white/5">
+                <td className="px-4 py-3">{batch.createdAt.toLocaleString()}</td>
+                <td className="px-4 py-3 capitalize">{batch.strategy}</td>
+                <td className="px-4 py-3 text-right">{batch.size}</td>
+                <td className="px-4 py-3 text-right">{batch.accepted}</td>
+                <td className={`px-4 py-3 ${batch.expiresAt < new Date() ? 'text-white/40' : 'text-white/60'}`}>
+                  {batch.expiresAt.toLocaleString()}
+                </td>
+              </tr>
+            ))}
+            {batches.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-4 py-8 text-center text-white/60">
+                  No invitations sent yet.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import Link from "next/link";
+import { AdminLogoutButton } from "@/components/admin/logout-button";
+import { requireAdminPage } from "@/lib/admin-auth";
+
+export const dynamic = 'force-dynamic';
+
+export default async function AdminConsoleLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  const session = await requireAdminPage();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-black via-purple-950/20 to-black text-white">
+      <header className="border-b border-white/10 bg-black/20 backdrop-blur-xl">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <nav className="flex items-center gap-6">
+            <Link href="/admin" className="text-lg font-medium tracking-tight">
+              Cherry Admin
+            </Link>
+            <Link href="/admin" className="text-sm text-white/70 hover:text-white">
+              Subscribers
+            </Link>
+            <Link href="/admin/referrals" className="text-sm text-white/70 hover:text-white">
+              Referrals
+            </Link>
+            <Link href="/admin/referrals/review" className="text-sm text-white/70 hover:text-white">
+              Review
+            </Link>
+            <Link href="/admin/invitations" className="text-sm text-white/70 hover:text-white">
+              Invitations
+            </Link>
+            <Link href="/admin/analytics" className="text-sm text-white/70 hover:text-white">
+              Analytics
+            </Link>
+            <Link href="/admin/experiments" className="text-sm text-white/70 hover:text-white">
+              Experiments
+            </Link>
+            <Link href="/admin/webhooks" className="text-sm text-white/70 hover:text-white">
+              Webhooks
+            </Link>
+          </nav>
+          <div className="flex items-center gap-4">
+            <span className="text-sm text-white/60">{session.username}</span>
+            <AdminLogoutButton />
+          </div>
+        </div>
+      </header>
+      <main className="container mx-auto px-4 py-8">
+        {children}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import Link from "next/link";
+import { listSubscribers } from "@/lib/admin-subscribers";
+import { SubscriberListQuerySchema, type SubscriberListQuery } from "@/lib/validations/admin";
+import { requireAdminPage } from "@/lib/admin-auth";
+
+type SearchParams = Promise<Record<string, string | string[] | undefined>>;
+
+function pageHref(query: SubscriberListQuery, page: number) {
+  const params = new URLSearchParams();
+
+  if (query.search) params.set('search', query.search);
+  if (query.verified !== undefined) params.set('verified', String(query.verified));
+  if (query.referrer) params.set('referrer', query.referrer);
+  if (query.pageSize !== 25) params.set('pageSize', String(query.pageSize));
+  params.set('page', String(page));
+
+  return `/admin?${params.toString()}`;
+}
+
+// The export endpoint filters by date and verification only
+function exportHref(query: SubscriberListQuery, format: 'csv' | 'ndjson') {
+  const params = new URLSearchParams({ format });
+
+  if (query.verified !== undefined) params.set('verified', String(query.verified));
+
+  return `/api/admin/subscribers/export?${params.toString()}`;
+}
+
+export default async function AdminSubscribersPage({
+  searchParams,
+}: {
+  searchParams: SearchParams;
+}) {
+  await requireAdminPage();
+
+  const raw = await searchParams;
+  const parsed = SubscriberListQuerySchema.safeParse(raw);
+  const query = parsed.success ? parsed.data : SubscriberListQuerySchema.parse({});
+
+  const { subscribers, pagination } = await listSubscribers(query);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-end justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Subscribers</h1>
+          <p className="text-white/60">{pagination.total.toLocaleString()} matching subscribers</p>
+        </div>
+        <div className="flex gap-2">
+          <a href={exportHref(query, 'csv')} className="px-4 py-2 text-sm bg-white/10 hover:bg-white/20 border border-white/20 rounded-lg">
+            Export CSV
+          </a>
+          <a href={exportHref(query, 'ndjson')} className="px-4 py-2 text-sm bg-white/10 hover:bg-white/20 border border-white/20 rounded-lg">
+            Export NDJSON
+          </a>
+        </div>
+      </div>
+
+      <form method="get" action="/admin" className="flex flex-wrap gap-3 p-4 bg-black/20 backdrop-blur-xl border border-white/10 rounded-xl">
+        <input
+          type="search"
+          name="search"
+          defaultValue={query.search ?? ''}
+          placeholder="Search email, name or referral code"
+          className="flex-grow min-w-[16rem] px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder:text-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+        />
+        <select
+          name="verified"
+          defaultValue={query.verified === undefined ? '' : String(query.verified)}
+          className="px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+        >
+          <option value="">Any status</option>
+          <option value="true">Verified</option>
+          <option value="false">Unverified</option>
+        </select>
+        <input
+          type="text"
+          name="referrer"
+          defaultValue={query.referrer ?? ''}
+          placeholder="Referrer code, email or none"
+          className="px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder:text-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+        />
+        <button
+          type="submit"
+          className="px-4 py-2 bg-gradient-to-r from-purple-600 to-indigo-700 hover:opacity-90 text-white font-medium rounded-lg transition-all duration-300"
+        >
+          Filter
+        </button>
+      </form>
+
+      <div className="overflow-x-auto bg-black/20 backdrop-blur-xl border border-white/10 rounded-xl">
+        <table className="w-full text-sm text-left">
+          <thead className="text-white/60 border-b border-white/10">
+            <tr>
+              <th className="px-4 py-3 font-medium">Email</th>
+              <th className="px-4 py-3 font-medium">Name</th>
+              <th className="px-4 py-3 font-medium">Code</th>
+              <th className="px-4 py-3 font-medium">Referred by</th>
+              <th className="px-4 py-3 font-medium text-right">Referrals</th>
+              <th className="px-4 py-3 font-medium">Status</th>
+              <th className="px-4 py-3 font-medium">Joined</th>
+            </tr>
+          </thead>
+          <tbody>
+            {subscribers.map((subscriber) => (
+              <tr key={subscriber.id} className="border-b border-white/5 hover:bg-white/5">
+                <td className="px-4 py-3">
+                  <Link href={`/admin/subscribers/${subscriber.id}`} className="text-purple-300 hover:underline">
+                    {subscriber.email}
+                  </Link>
+                </td>
+                <td className="px-4 py-3 text-white/80">{subscriber.name ?? '—'}</td>
+                <td className="px-4 py-3 font-mono text-white/80">{subscriber.referralCode ?? '—'}</td>
+                <td className="px-4 py-3 text-white/80">
+                  {subscriber.referrer ? (
+                    <Link href={`/admin/subscribers/${subscriber.referrer.id}`} className="hover:underline">
+                      {subscriber.referrer.referralCode ?? subscriber.referrer.email}
+                    </Link>
+                  ) : '—'}
+                </td>
+                <td className="px-4 py-3 text-right">{subscriber._count.referrals}</td>
+                <td className="px-4 py-3">
+                  <span className={subscriber.verified ? 'text-emerald-400' : 'text-white/50'}>
+                    {subscriber.verified ? 'Verified' : 'Pending'}
+                  </span>
+                </td>
+                <td className="px-4 py-3 text-white/60">{subscriber.createdAt.toLocaleDateString()}</td>
+              </tr>
+            ))}
+            {subscribers.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-4 py-8 text-center text-white/60">
+                  No subscribers match these filters.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-between text-sm text-white/70">
+        <span>
+          Page {pagination.page} of {pagination.totalPages}
+        </span>
+        <div className="flex gap-2">
+          {pagination.page > 1 && (
+            <Link href={pageHref(query, pagination.page - 1)} className="px-3 py-1 bg-white/10 hover:bg-white/20 rounded-lg">
+              Previous
+            </Link>
+          )}
+          {pagination.page < pagination.totalPages && (
+            <Link href={pageHref(query, pagination.page + 1)} className="px-3 py-1 bg-white/10 hover:bg-white/20 rounded-lg">
+              Next
+            </Link>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import Link from "next/link";
+import { getViralRoots, MAX_REFERRAL_TREE_DEPTH } from "@/lib/referral-tree";
+import { requireAdminPage } from "@/lib/admin-auth";
+
+export default async function AdminReferralsPage() {
+  await requireAdminPage();
+
+  const roots = await getViralRoots(25, MAX_REFERRAL_TREE_DEPTH);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Viral roots</h1>
+        <p className="text-white/60">
+          Organic signups ranked by the indirect referrals their chains produced (up to {MAX_REFERRAL_TREE_DEPTH} levels deep).
+        </p>
+      </div>
+
+      <div className="overflow-x-auto bg-black/20 backdrop-blur-xl border border-white/10 rounded-xl">
+        <table className="w-full text-sm text-left">
+          <thead className="text-white/60 border-b border-white/10">
+            <tr>
+              <th className="px-4 py-3 font-medium">Subscriber</th>
+              <th className="px-4 py-3 font-medium">Code</th>
+              <th className="px-4 py-3 font-medium text-right">Direct</th>
+              <th className="px-4 py-3 font-medium text-right">Indirect</th>
+              <th className="px-4 py-3 font-medium text-right">Total</th>
+              <th className="px-4 py-3 font-medium text-right">Depth</th>
+              <th className="px-4 py-3 font-medium">Joined</th>
+            </tr>
+          </thead>
+          <tbody>
+            {roots.map((root) => (
+              <tr key={root.id} className="border-b border-white/5 hover:bg-white/5">
+                <td className="px-4 py-3">
+                  <Link href={`/admin/subscribers/${root.id}`} className="text-purple-300 hover:underline">
+                    {root.email}
+                  </Link>
+                </td>
+                <td className="px-4 py-3 font-mono text-white/80">{root.referralCode ?? '—'}</td>
+                <td className="px-4 py-3 text-right">{root.direct}</td>
+                <td className="px-4 py-3 text-right">{root.indirect}</td>
+                <td className="px-4 py-3 text-right">{root.total}</td>
+                <td className="px-4 py-3 text-right">{root.maxDepth}</td>
+                <td className="px-4 py-3 text-white/60">{root.createdAt.toLocaleDateString()}</td>
+              </tr>
+            ))}
+            {roots.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-4 py-8 text-center text-white/60">
+                  No referral chains yet.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
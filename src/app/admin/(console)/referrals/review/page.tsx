@@ -0,0 +1,128 @@
+import Link from "next/link";
+import { ReferralReviewActions } from "@/components/admin/referral-review-actions";
+import { FRAUD_STATUS_LABELS, listReferralsForReview } from "@/lib/admin-referral-review";
+import { ReferralReviewQuerySchema, type ReferralReviewQuery } from "@/lib/validations/admin";
+import { requireAdminPage } from "@/lib/admin-auth";
+
+type SearchParams = Promise<Record<string, string | string[] | undefined>>;
+
+const STATUSES = ['flagged', 'approved', 'rejected'] as const;
+
+function pageHref(query: ReferralReviewQuery, page: number) {
+  const params = new URLSearchParams({ status: query.status, page: String(page) });
+
+  if (query.pageSize !== 25) params.set('pageSize', String(query.pageSize));
+
+  return `/admin/referrals/review?${params.toString()}`;
+}
+
+export default async function AdminReferralReviewPage({
+  searchParams,
+}: {
+  searchParams: SearchParams;
+}) {
+  await requireAdminPage();
+
+  const raw = await searchParams;
+  const parsed = ReferralReviewQuerySchema.safeParse(raw);
+  const query = parsed.success ? parsed.data : ReferralReviewQuerySchema.parse({});
+
+  const { referrals, pagination } = await listReferralsForReview(query);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Referral review</h1>
+        <p className="text-white/60">
+          Referred signups that scored as likely fraud. They don&apos;t count towards their referrer until approved.
+        </p>
+      </div>
+
+      <div className="flex gap-2">
+        {STATUSES.map((status) => (
+          <Link
+            key={status}
+            href={`/admin/referrals/review?status=${status}`}
+            className={`px-4 py-2 text-sm rounded-lg border ${
+              query.status === status
+                ? 'bg-purple-600/40 border-purple-500/40 text-white'
+                : 'bg-white/10 hover:bg-white/20 border-white/20 text-white/70'
+            }`}
+          >
+            {FRAUD_STATUS_LABELS[status]}
+          </Link>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto bg-black/20 backdrop-blur-xl border border-white/10 rounded-xl">
+        <table className="w-full text-sm text-left">
+          <thead className="text-white/60 border-b border-white/10">
+            <tr>
+              <th className="px-4 py-3 font-medium">Referral</th>
+              <th className="px-4 py-3 font-medium">Referred by</th>
+              <th className="px-4 py-3 font-medium text-right">Score</th>
+              <th className="px-4 py-3 font-medium">Reasons</th>
+              <th className="px-4 py-3 font-medium">Status</th>
+              <th className="px-4 py-3 font-medium">Joined</th>
+              <th className="px-4 py-3 font-medium text-right">Decision</th>
+            </tr>
+          </thead>
+          <tbody>
+            {referrals.map((referral) => (
+              <tr key={referral.id} className="border-b border-white/5 hover:bg-white/5">
+                <td className="px-4 py-3">
+                  <Link href={`/admin/subscribers/${referral.id}`} className="text-purple-300 hover:underline">
+                    {referral.email}
+                  </Link>
+                </td>
+                <td className="px-4 py-3 text-white/80">
+                  {referral.referrer ? (
+                    <Link href={`/admin/subscribers/${referral.referrer.id}`} className="hover:underline">
+                      {referral.referrer.referralCode ?? referral.referrer.email}
+                    </Link>
+                  ) : '—'}
+                </td>
+                <td className="px-4 py-3 text-right">{referral.fraudScore}</td>
+                <td className="px-4 py-3 text-white/80">{referral.fraudReasons.join(', ') || '—'}</td>
+                <td className="px-4 py-3">
+                  <span className={referral.verified ? 'text-emerald-400' : 'text-white/50'}>
+                    {referral.verified ? 'Verified' : 'Pending'}
+                  </span>
+                </td>
+                <td className="px-4 py-3 text-white/60">{referral.createdAt.toLocaleDateString()}</td>
+                <td className="px-4 py-3">
+                  <ReferralReviewActions subscriberId={referral.id} status={referral.fraudStatus} />
+                </td>
+              </tr>
+            ))}
+            {referrals.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-4 py-8 text-center text-white/60">
+                  No {FRAUD_STATUS_LABELS[query.status].toLowerCase()} referrals.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-between text-sm text-white/70">
+        <span>
+          Page {pagination.page} of {pagination.totalPages}
+        </span>
+        <div className="flex gap-2">
+          {pagination.page > 1 && (
+            <Link href={pageHref(query, pagination.page - 1)} className="px-3 py-1 bg-white/10 hover:bg-white/20 rounded-lg">
+              Previous
+            </Link>
+          )}
+          {pagination.page < pagination.totalPages && (
+            <Link href={pageHref(query, pagination.page + 1)} className="px-3 py-1 bg-white/10 hover:bg-white/20 rounded-lg">
+              Next
+            </Link>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { SubscriberActions } from "@/components/admin/subscriber-actions";
+import { getSubscriberDetail } from "@/lib/admin-subscribers";
+import { getReferralTree, MAX_REFERRAL_TREE_DEPTH } from "@/lib/referral-tree";
+import { FRAUD_STATUS_LABELS } from "@/lib/admin-referral-review";
+import { requireAdminPage } from "@/lib/admin-auth";
+
+export default async function AdminSubscriberPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  await requireAdminPage();
+
+  const { id } = await params;
+  const subscriber = await getSubscriberDetail(id);
+
+  if (!subscriber) {
+    notFound();
+  }
+
+  const tree = await getReferralTree(subscriber.id, MAX_REFERRAL_TREE_DEPTH, false);
+
+  const details = [
+    { label: 'Name', value: subscriber.name ?? '—' },
+    { label: 'Referral code', value: subscriber.referralCode ?? '—' },
+    { label: 'Status', value: subscriber.verified ? 'Verified' : 'Pending verification' },
+    { label: 'Verified at', value: subscriber.verifiedAt?.toLocaleString() ?? '—' },
+    { label: 'Invitation', value: subscriber.invitationStatus ?? 'Not invited' },
+    ...(subscriber.referrer
+      ? [
+          {
+            label: 'Referral check',
+            value: `${FRAUD_STATUS_LABELS[subscriber.fraudStatus]}, score ${subscriber.fraudScore}${
+              subscriber.fraudReasons.length > 0 ? ` (${subscriber.fraudReasons.join(', ')})` : ''
+            }`
+          }
+        ]
+      : []),
+    { label: 'Unsubscribed', value: subscriber.unsubscribedAt?.toLocaleString() ?? '—' },
+    { label: 'Joined', value: subscriber.createdAt.toLocaleString() },
+    { label: 'Last updated', value: subscriber.updatedAt.toLocaleString() },
+  ];
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      <Link href="/admin" className="text-sm text-white/60 hover:text-white">
+        ← All subscribers
+      </Link>
+
+      <div className="p-6 bg-black/20 backdrop-blur-xl border border-white/10 rounded-xl space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <h1 className="text-2xl font-medium tracking-tight break-all">{subscriber.email}</h1>
+          <SubscriberActions subscriberId={subscriber.id} verified={subscriber.verified} />
+        </div>
+
+        <dl className="grid grid-cols-2 gap-4 text-sm">
+          {details.map((detail) => (
+            <div key={detail.label}>
+              <dt className="text-white/60">{detail.label}</dt>
+              <dd className="text-white">{detail.value}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+
+      <div className="p-6 bg-black/20 backdrop-blur-xl border border-white/10 rounded-xl">
+        <h2 className="text-lg font-medium mb-3">Referred by</h2>
+        {subscriber.referrer ? (
+          <Link href={`/admin/subscribers/${subscriber.referrer.id}`} className="text-purple-300 hover:underline">
+            {subscriber.referrer.email}
+            {subscriber.referrer.referralCode && (
+              <span className="ml-2 font-mono text-white/60">({subscriber.referrer.referralCode})</span>
+            )}
+          </Link>
+        ) : (
+          <p className="text-white/60">Joined without a referral.</p>
+        )}
+      </div>
+
+      <div className="p-6 bg-black/20 backdrop-blur-xl border border-white/10 rounded-xl">
+        <h2 className="text-lg font-medium mb-3">Downstream ({tree.total})</h2>
+        {tree.levels.length > 0 ? (
+          <div className="flex flex-wrap gap-3">
+            {tree.levels.map((level) => (
+              <div key={level.depth} className="px-4 py-2 bg-white/5 border border-white/10 rounded-lg text-sm">
+                <p className="text-white/60">Level {level.depth}</p>
+                <p className="text-white">
+                  {level.total} <span className="text-white/60">({level.verified} verified)</span>
+                </p>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-white/60">No downstream signups.</p>
+        )}
+      </div>
+
+      <div className="p-6 bg-black/20 backdrop-blur-xl border border-white/10 rounded-xl">
+        <h2 className="text-lg font-medium mb-3">Referrals ({subscriber.referrals.length})</h2>
+        {subscriber.referrals.length > 0 ? (
+          <div className="space-y-2">
+            {subscriber.referrals.map((referral) => (
+              <div key={referral.id} className="flex justify-between items-center p-3 bg-white/5 border border-white/10 rounded-lg">
+                <Link href={`/admin/subscribers/${referral.id}`} className="text-purple-300 hover:underline">
+                  {referral.email}
+                </Link>
+                <div className="flex items-center gap-4 text-sm">
+                  {referral.fraudStatus !== 'clean' && (
+                    <Link href={`/admin/referrals/review?status=${referral.fraudStatus}`} className="text-amber-300 hover:underline">
+                      {FRAUD_STATUS_LABELS[referral.fraudStatus]}
+                    </Link>
+                  )}
+                  <span className={referral.verified ? 'text-emerald-400' : 'text-white/50'}>
+                    {referral.verified ? 'Verified' : 'Pending'}
+                  </span>
+                  <span className="text-white/60">{referral.createdAt.toLocaleDateString()}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-white/60">No referrals yet.</p>
+        )}
+      </div>
+    </div>
+  );
+}
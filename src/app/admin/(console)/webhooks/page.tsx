@@ -0,0 +1,144 @@
+import { ReplayDeliveryButton, WebhookEndpointActions } from "@/components/admin/webhook-actions";
+import { WebhookEndpointForm } from "@/components/admin/webhook-endpoint-form";
+import { listWebhookDeliveries, listWebhookEndpoints } from "@/lib/webhooks";
+import { WebhookDeliveryQuerySchema } from "@/lib/validations/admin";
+import { requireAdminPage } from "@/lib/admin-auth";
+
+type SearchParams = Promise<Record<string, string | string[] | undefined>>;
+
+const STATUS_STYLES: Record<string, string> = {
+  pending: 'text-amber-300',
+  succeeded: 'text-emerald-400',
+  failed: 'text-red-400',
+};
+
+export default async function AdminWebhooksPage({
+  searchParams,
+}: {
+  searchParams: SearchParams;
+}) {
+  await requireAdminPage();
+
+  const parsed = WebhookDeliveryQuerySchema.safeParse(await searchParams);
+  const query = parsed.success ? parsed.data : WebhookDeliveryQuerySchema.parse({});
+
+  const [endpoints, { deliveries, pagination }] = await Promise.all([
+    listWebhookEndpoints(),
+    listWebhookDeliveries(query),
+  ]);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Webhooks</h1>
+        <p className="text-white/60">
+          Signed POST requests sent to your endpoints when subscribers join, verify or credit a referral.
+        </p>
+      </div>
+
+      <div className="p-6 bg-black/20 backdrop-blur-xl border border-white/10 rounded-xl space-y-4">
+        <h2 className="text-lg font-medium">Endpoints</h2>
+        {endpoints.length > 0 ? (
+          <div className="space-y-2">
+            {endpoints.map((endpoint) => (
+              <div key={endpoint.id} className="flex flex-wrap justify-between items-center gap-4 p-3 bg-white/5 border border-white/10 rounded-lg">
+                <div className="min-w-0">
+                  <p className={`font-mono break-all ${endpoint.active ? 'text-white' : 'text-white/50'}`}>{endpoint.url}</p>
+                  <p className="text-sm text-white/60">
+                    {endpoint.description ? `${endpoint.description} · ` : ''}
+                    {endpoint.events.join(', ')}
+                    {endpoint._count.deliveries > 0 && (
+                      <span className="text-red-400"> · {endpoint._count.deliveries} failed</span>
+                    )}
+                  </p>
+                </div>
+                <WebhookEndpointActions endpointId={endpoint.id} active={endpoint.active} />
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-white/60">No endpoints yet.</p>
+        )}
+        <div className="pt-4 border-t border-white/10">
+          <WebhookEndpointForm />
+        </div>
+      </div>
+
+      <div className="overflow-x-auto bg-black/20 backdrop-blur-xl border border-white/10 rounded-xl">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+          <h2 className="text-lg font-medium">Deliveries</h2>
+          <div className="flex gap-3 text-sm">
+            {['', 'pending', 'succeeded', 'failed'].map((status) => (
+              <a
+                key={status || 'all'}
+                href={status ? `/admin/webhooks?status=${status}` : '/admin/webhooks'}
+                className={(query.status ?? '') === status ? 'text-white' : 'text-white/60 hover:text-white'}
+              >
+                {status || 'All'}
+              </a>
+            ))}
+          </div>
+        </div>
+        <table className="w-full text-sm text-left">
+          <thead className="text-white/60 border-b border-white/10">
+            <tr>
+              <th className="px-4 py-3 font-medium">Event</th>
+              <th className="px-4 py-3 font-medium">Endpoint</th>
+              <th className="px-4 py-3 font-medium">Status</th>
+              <th className="px-4 py-3 font-medium text-right">Attempts</th>
+              <th className="px-4 py-3 font-medium">Last result</th>
+              <th className="px-4 py-3 font-medium">Created</th>
+              <th className="px-4 py-3 font-medium"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {deliveries.map((delivery) => (
+              <tr key={delivery.id} className="border-b border-white/5 hover:bg-white/5 align-top">
+                <td className="px-4 py-3 font-mono">{delivery.event}</td>
+                <td className="px-4 py-3 font-mono text-white/80 break-all">{delivery.endpoint.url}</td>
+                <td className={`px-4 py-3 ${STATUS_STYLES[delivery.status] ?? ''}`}>
+                  {delivery.status}
+                  {delivery.status === 'pending' && delivery.attempts > 0 && (
+                    <span className="block text-xs text-white/50">retry {delivery.nextAttemptAt.toLocaleTimeString()}</span>
+                  )}
+                </td>
+                <td className="px-4 py-3 text-right">{delivery.attempts}</td>
+                <td className="px-4 py-3 text-white/60 max-w-xs truncate" title={delivery.lastError ?? undefined}>
+                  {delivery.lastError ?? (delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : '—')}
+                </td>
+                <td className="px-4 py-3 text-white/60">{delivery.createdAt.toLocaleString()}</td>
+                <td className="px-4 py-3 text-right">
+                  <ReplayDeliveryButton deliveryId={delivery.id} />
+                </td>
+              </tr>
+            ))}
+            {deliveries.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-4 py-8 text-center text-white/60">
+                  No deliveries yet.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+        {pagination.totalPages > 1 && (
+          <div className="flex justify-between px-4 py-3 text-sm text-white/60">
+            <span>Page {pagination.page} of {pagination.totalPages}</span>
+            <div className="flex gap-3">
+              {pagination.page > 1 && (
+                <a href={`/admin/webhooks?page=${pagination.page - 1}${query.status ? `&status=${query.status}` : ''}`} className="hover:text-white">
+                  Previous
+                </a>
+              )}
+              {pagination.page < pagination.totalPages && (
+                <a href={`/admin/webhooks?page=${pagination.page + 1}${query.status ? `&status=${query.status}` : ''}`} className="hover:text-white">
+                  Next
+                </a>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import { redirect } from "next/navigation";
+import { AdminLoginForm } from "@/components/admin/login-form";
+import { getAdminSession } from "@/lib/admin-auth";
+
+export const dynamic = 'force-dynamic';
+
+export default async function AdminLoginPage() {
+  if (await getAdminSession()) {
+    redirect('/admin');
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-black via-purple-950/20 to-black">
+      <div className="container relative mx-auto px-4 py-16 flex flex-col items-center">
+        <div className="w-full max-w-sm mx-auto p-6 bg-black/20 backdrop-blur-xl border border-white/10 rounded-xl">
+          <h1 className="text-2xl font-medium tracking-tight text-white mb-6">Admin sign in</h1>
+          <AdminLoginForm />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { getFunnel, getTrafficSources } from '@/lib/analytics';
+import { AnalyticsQuerySchema } from '@/lib/validations/admin';
+
+export async function GET(request: NextRequest) {
+  const unauthorized = await requireAdmin();
+  if (unauthorized) return unauthorized;
+  
+  try {
+    const result = AnalyticsQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    
+    if (!result.success) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          message: "Validation failed", 
+          errors: result.error.flatten().fieldErrors 
+        }, 
+        { status: 400 }
+      );
+    }
+    
+    const [funnel, sources] = await Promise.all([
+      getFunnel(result.data.days),
+      getTrafficSources(result.data.days)
+    ]);
+    
+    return NextResponse.json({
+      success: true,
+      funnel,
+      sources
+    });
+  } catch (error) {
+    console.error('Error loading analytics:', error);
+    return NextResponse.json(
+      { 
+        success: false, 
+        message: "An error occurred while processing your request" 
+      }, 
+      { status: 500 }
+    );
+  }
+}
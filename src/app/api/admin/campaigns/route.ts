@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { getCampaignSignups } from '@/lib/campaigns';
+import { CampaignQuerySchema } from '@/lib/validations/admin';
+
+export async function GET(request: NextRequest) {
+  const unauthorized = await requireAdmin();
+  if (unauthorized) return unauthorized;
+  
+  try {
+    const result = CampaignQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    
+    if (!result.success) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          message: "Validation failed", 
+          errors: result.error.flatten().fieldErrors 
+        }, 
+        { status: 400 }
+      );
+    }
+    
+    const campaigns = await getCampaignSignups(result.data);
+    
+    return NextResponse.json({
+      success: true,
+      campaigns
+    });
+  } catch (error) {
+    console.error('Error loading campaign signups:', error);
+    return NextResponse.json(
+      { 
+        success: false, 
+        message: "An error occurred while processing your request" 
+      }, 
+      { status: 500 }
+    );
+  }
+}
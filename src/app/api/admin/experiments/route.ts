@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { getExperimentResults } from '@/lib/experiment-tracking';
+
+export async function GET() {
+  const unauthorized = await requireAdmin();
+  if (unauthorized) return unauthorized;
+  
+  try {
+    const experiments = await getExperimentResults();
+    
+    return NextResponse.json({
+      success: true,
+      experiments
+    });
+  } catch (error) {
+    console.error('Error loading experiment results:', error);
+    return NextResponse.json(
+      { 
+        success: false, 
+        message: "An error occurred while processing your request" 
+      }, 
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { getInvitationOverview, issueInvitationBatch } from '@/lib/invitations';
+import { InvitationBatchSchema } from '@/lib/validations/admin';
+
+export async function GET() {
+  const unauthorized = await requireAdmin();
+  if (unauthorized) return unauthorized;
+  
+  try {
+    const overview = await getInvitationOverview();
+    
+    return NextResponse.json({
+      success: true,
+      ...overview
+    });
+  } catch (error) {
+    console.error('Error loading invitations:', error);
+    return NextResponse.json(
+      { 
+        success: false, 
+        message: "An error occurred while processing your request" 
+      }, 
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const unauthorized = await requireAdmin();
+  if (unauthorized) return unauthorized;
+  
+  try {
+    const body = await request.json();
+    
+    // Validate the request body
+    const result = InvitationBatchSchema.safeParse(body);
+    
+    if (!result.success) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          message: "Validation failed", 
+          errors: result.error.flatten().fieldErrors 
+        }, 
+        { status: 400 }
+      );
+    }
+    
+    const { batch, invited, emailed } = await issueInvitationBatch(result.data);
+    
+    return NextResponse.json({
+      success: true,
+      message: invited > 0
+        ? `Invited ${invited} subscriber${invited === 1 ? '' : 's'}`
+        : "No eligible subscribers matched this batch",
+      batch,
+      invited,
+      emailed
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error issuing invitations:', error);
+    return NextResponse.json(
+      { 
+        success: false, 
+        message: "An error occurred while processing your request" 
+      }, 
+      { status: 500 }
+    );
+  }
+}
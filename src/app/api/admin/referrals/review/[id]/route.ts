@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { reviewReferral } from '@/lib/admin-referral-review';
+import { isRecordNotFound } from '@/lib/admin-subscribers';
+import { ReferralReviewSchema } from '@/lib/validations/admin';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+// Approves or rejects a referral
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const unauthorized = await requireAdmin();
+  if (unauthorized) return unauthorized;
+  
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    
+    // Validate the request body
+    const result = ReferralReviewSchema.safeParse(body);
+    
+    if (!result.success) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          message: "Validation failed", 
+          errors: result.error.flatten().fieldErrors 
+        }, 
+        { status: 400 }
+      );
+    }
+    
+    const referral = await reviewReferral(id, result.data);
+    
+    return NextResponse.json({
+      success: true,
+      message: result.data.decision === 'approve' ? "Referral approved" : "Referral rejected",
+      referral
+    });
+  } catch (error) {
+    if (isRecordNotFound(error)) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          message: "Referral not found" 
+        }, 
+        { status: 404 }
+      );
+    }
+    
+    console.error('Error reviewing referral:', error);
+    return NextResponse.json(
+      { 
+        success: false, 
+        message: "An error occurred while processing your request" 
+      }, 
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { listReferralsForReview } from '@/lib/admin-referral-review';
+import { ReferralReviewQuerySchema } from '@/lib/validations/admin';
+
+// Referrals held back by fraud scoring, flagged ones by default
+export async function GET(request: NextRequest) {
+  const unauthorized = await requireAdmin();
+  if (unauthorized) return unauthorized;
+  
+  try {
+    // Validate pagination and status parameters
+    const result = ReferralReviewQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    
+    if (!result.success) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          message: "Invalid query parameters", 
+          errors: result.error.flatten().fieldErrors 
+        }, 
+        { status: 400 }
+      );
+    }
+    
+    const { referrals, pagination } = await listReferralsForReview(result.data);
+    
+    return NextResponse.json({
+      success: true,
+      referrals,
+      pagination
+    });
+  } catch (error) {
+    console.error('Error listing referrals for review:', error);
+    return NextResponse.json(
+      { 
+        success: false, 
+        message: "An error occurred while processing your request" 
+      }, 
+      { status: 500 }
+    );
+  }
+}
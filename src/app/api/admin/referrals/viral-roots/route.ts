@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { getViralRoots, MAX_REFERRAL_TREE_DEPTH } from '@/lib/referral-tree';
+import { z } from 'zod';
+
+const viralRootsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  depth: z.coerce.number().int().min(1).max(MAX_REFERRAL_TREE_DEPTH).default(MAX_REFERRAL_TREE_DEPTH)
+});
+
+export async function GET(request: NextRequest) {
+  const unauthorized = await requireAdmin();
+  if (unauthorized) return unauthorized;
+  
+  try {
+    const { searchParams } = request.nextUrl;
+    
+    // Validate the query parameters
+    const result = viralRootsQuerySchema.safeParse({
+      limit: searchParams.get('limit') ?? undefined,
+      depth: searchParams.get('depth') ?? undefined
+    });
+    
+    if (!result.success) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          message: "Invalid query parameters", 
+          errors: result.error.flatten().fieldErrors 
+        }, 
+        { status: 400 }
+      );
+    }
+    
+    const roots = await getViralRoots(result.data.limit, result.data.depth);
+    
+    return NextResponse.json({
+      success: true,
+      roots
+    });
+  } catch (error) {
+    console.error('Error fetching viral roots:', error);
+    return NextResponse.json(
+      { 
+        success: false, 
+        message: "An error occurred while processing your request" 
+      }, 
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { requireAdmin } from '@/lib/admin-auth';
+import { RewardTierUpdateSchema } from '@/lib/validations/admin';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const unauthorized = await requireAdmin();
+  if (unauthorized) return unauthorized;
+  
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    
+    // Validate the request body
+    const result = RewardTierUpdateSchema.safeParse(body);
+    
+    if (!result.success) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          message: "Validation failed", 
+          errors: result.error.flatten().fieldErrors 
+        }, 
+        { status: 400 }
+      );
+    }
+    
+    const tier = await prisma.rewardTier.update({
+      where: { id },
+      data: result.data
+    });
+    
+    return NextResponse.json({
+      success: true,
+      message: "Reward tier updated",
+      tier
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      if (error.code === 'P2025') {
+        return NextResponse.json(
+          { 
+            success: false, 
+            message: "Reward tier not found" 
+          }, 
+          { status: 404 }
+        );
+      }
+      
+      if (error.code === 'P2002') {
+        return NextResponse.json(
+          { 
+            success: false, 
+            message: "A reward tier with this threshold already exists" 
+          }, 
+          { status: 409 }
+        );
+      }
+    }
+    
+    console.error('Error updating reward tier:', error);
+    return NextResponse.json(
+      { 
+        success: false, 
+        message: "An error occurred while processing your request" 
+      }, 
+      { status: 500 }
+    );
+  }
+}
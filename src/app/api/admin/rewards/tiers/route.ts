@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { requireAdmin } from '@/lib/admin-auth';
+import { RewardTierSchema } from '@/lib/validations/admin';
+
+export async function GET() {
+  const unauthorized = await requireAdmin();
+  if (unauthorized) return unauthorized;
+  
+  try {
+    const tiers = await prisma.rewardTier.findMany({
+      orderBy: { threshold: 'asc' },
+      include: {
+        _count: {
+          select: { grants: true }
+        }
+      }
+    });
+    
+    return NextResponse.json({
+      success: true,
+      tiers
+    });
+  } catch (error) {
+    console.error('Error listing reward tiers:', error);
+    return NextResponse.json(
+      { 
+        success: false, 
+        message: "An error occurred while processing your request" 
+      }, 
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const unauthorized = await requireAdmin();
+  if (unauthorized) return unauthorized;
+  
+  try {
+    const body = await request.json();
+    
+    // Validate the request body
+    const result = RewardTierSchema.safeParse(body);
+    
+    if (!result.success) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          message: "Validation failed", 
+          errors: result.error.flatten().fieldErrors 
+        }, 
+        { status: 400 }
+      );
+    }
+    
+    const tier = await prisma.rewardTier.create({
+      data: result.data
+    });
+    
+    // Existing referrers who already qualify are granted the new tier the next
+    // time one of their referrals signs up or verifies.
+    return NextResponse.json({
+      success: true,
+      message: "Reward tier created",
+      tier
+    }, { status: 201 });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json(
+        { 
+          success: false, 
+          message: "A reward tier with this threshold already exists" 
+        }, 
+        { status: 409 }
+      );
+    }
+    
+    console.error('Error creating reward tier:', error);
+    return NextResponse.json(
+      { 
+        success: false, 
+        message: "An error occurred while processing your request" 
+      }, 
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { AdminLoginSchema } from '@/lib/validations/admin';
+import { endAdminSession, startAdminSession, verifyAdminCredentials } from '@/lib/admin-auth';
+import { getClientIp, rateLimit, rateLimitResponse } from '@/lib/rate-limit';
+
+// Login attempts allowed per client IP, to slow down password guessing
+const limiter = rateLimit({
+  name: 'admin-login',
+  limit: 5,
+  windowMs: 15 * 60 * 1000
+});
+
+// Log in as admin
+export async function POST(request: Request) {
+  try {
+    const limit = await limiter.check(getClientIp(request));
+    
+    if (!limit.success) {
+      return rateLimitResponse(limit);
+    }
+    
+    const body = await request.json();
+    
+    // Validate the request body
+    const result = AdminLoginSchema.safeParse(body);
+    
+    if (!result.success) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          message: "Validation failed", 
+          errors: result.error.flatten().fieldErrors 
+        }, 
+        { status: 400 }
+      );
+    }
+    
+    const { username, password } = result.data;
+    
+    if (!verifyAdminCredentials(username, password)) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          message: "Invalid username or password" 
+        }, 
+        { status: 401 }
+      );
+    }
+    
+    await startAdminSession(username);
+    
+    return NextResponse.json({
+      success: true,
+      message: "Logged in"
+    });
+  } catch (error) {
+    console.error('Error starting admin session:', error);
+    return NextResponse.json(
+      { 
+        success: false, 
+        message: "An error occurred while processing your request" 
+      }, 
+      { status: 500 }
+    );
+  }
+}
+
+// Log out
+export async function DELETE() {
+  await endAdminSession();
+  
+  return NextResponse.json({
+    success: true,
+    message: "Logged out"
+  });
+}
@@ -0,0 +1,116 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import {
+  deleteSubscriber,
+  getSubscriberDetail,
+  isRecordNotFound,
+  updateSubscriber
+} from '@/lib/admin-subscribers';
+import { SubscriberUpdateSchema } from '@/lib/validations/admin';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+function notFound() {
+  return NextResponse.json(
+    { 
+      success: false, 
+      message: "Subscriber not found" 
+    }, 
+    { status: 404 }
+  );
+}
+
+function serverError() {
+  return NextResponse.json(
+    { 
+      success: false, 
+      message: "An error occurred while processing your request" 
+    }, 
+    { status: 500 }
+  );
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const unauthorized = await requireAdmin();
+  if (unauthorized) return unauthorized;
+  
+  try {
+    const { id } = await params;
+    const subscriber = await getSubscriberDetail(id);
+    
+    if (!subscriber) {
+      return notFound();
+    }
+    
+    return NextResponse.json({
+      success: true,
+      subscriber
+    });
+  } catch (error) {
+    console.error('Error fetching subscriber:', error);
+    return serverError();
+  }
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const unauthorized = await requireAdmin();
+  if (unauthorized) return unauthorized;
+  
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    
+    // Validate the request body
+    const result = SubscriberUpdateSchema.safeParse(body);
+    
+    if (!result.success) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          message: "Validation failed", 
+          errors: result.error.flatten().fieldErrors 
+        }, 
+        { status: 400 }
+      );
+    }
+    
+    const subscriber = await updateSubscriber(id, result.data);
+    
+    return NextResponse.json({
+      success: true,
+      message: "Subscriber updated",
+      subscriber
+    });
+  } catch (error) {
+    if (isRecordNotFound(error)) {
+      return notFound();
+    }
+    
+    console.error('Error updating subscriber:', error);
+    return serverError();
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const unauthorized = await requireAdmin();
+  if (unauthorized) return unauthorized;
+  
+  try {
+    const { id } = await params;
+    await deleteSubscriber(id);
+    
+    return NextResponse.json({
+      success: true,
+      message: "Subscriber deleted"
+    });
+  } catch (error) {
+    if (isRecordNotFound(error)) {
+      return notFound();
+    }
+    
+    console.error('Error deleting subscriber:', error);
+    return serverError();
+  }
+}
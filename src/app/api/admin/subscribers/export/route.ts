@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { createSubscriberExportStream, exportFileName } from '@/lib/export';
+import { SubscriberExportQuerySchema } from '@/lib/validations/admin';
+
+export const dynamic = 'force-dynamic';
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8'
+} as const;
+
+export async function GET(request: NextRequest) {
+  const unauthorized = await requireAdmin();
+  if (unauthorized) return unauthorized;
+  
+  // Validate format and filter parameters
+  const result = SubscriberExportQuerySchema.safeParse(
+    Object.fromEntries(request.nextUrl.searchParams)
+  );
+  
+  if (!result.success) {
+    return NextResponse.json(
+      { 
+        success: false, 
+        message: "Invalid query parameters", 
+        errors: result.error.flatten().fieldErrors 
+      }, 
+      { status: 400 }
+    );
+  }
+  
+  const { format } = result.data;
+  
+  return new Response(createSubscriberExportStream(result.data), {
+    headers: {
+      'Content-Type': CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${exportFileName(format)}"`,
+      'Cache-Control': 'no-store'
+    }
+  });
+}
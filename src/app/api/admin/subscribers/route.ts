@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { listSubscribers } from '@/lib/admin-subscribers';
+import { SubscriberListQuerySchema } from '@/lib/validations/admin';
+
+export async function GET(request: NextRequest) {
+  const unauthorized = await requireAdmin();
+  if (unauthorized) return unauthorized;
+  
+  try {
+    // Validate pagination and filter parameters
+    const result = SubscriberListQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    
+    if (!result.success) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          message: "Invalid query parameters", 
+          errors: result.error.flatten().fieldErrors 
+        }, 
+        { status: 400 }
+      );
+    }
+    
+    const { subscribers, pagination } = await listSubscribers(result.data);
+    
+    return NextResponse.json({
+      success: true,
+      subscribers,
+      pagination
+    });
+  } catch (error) {
+    console.error('Error listing subscribers:', error);
+    return NextResponse.json(
+      { 
+        success: false, 
+        message: "An error occurred while processing your request" 
+      }, 
+      { status: 500 }
+    );
+  }
+}
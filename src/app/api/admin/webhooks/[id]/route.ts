@@ -0,0 +1,94 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireAdmin } from '@/lib/admin-auth';
+import { isRecordNotFound } from '@/lib/admin-subscribers';
+import { WebhookEndpointUpdateSchema } from '@/lib/validations/admin';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+function notFound() {
+  return NextResponse.json(
+    { 
+      success: false, 
+      message: "Webhook endpoint not found" 
+    }, 
+    { status: 404 }
+  );
+}
+
+function serverError() {
+  return NextResponse.json(
+    { 
+      success: false, 
+      message: "An error occurred while processing your request" 
+    }, 
+    { status: 500 }
+  );
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const unauthorized = await requireAdmin();
+  if (unauthorized) return unauthorized;
+  
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    
+    // Validate the request body
+    const result = WebhookEndpointUpdateSchema.safeParse(body);
+    
+    if (!result.success) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          message: "Validation failed", 
+          errors: result.error.flatten().fieldErrors 
+        }, 
+        { status: 400 }
+      );
+    }
+    
+    const endpoint = await prisma.webhookEndpoint.update({
+      where: { id },
+      data: result.data
+    });
+    
+    return NextResponse.json({
+      success: true,
+      message: "Webhook endpoint updated",
+      endpoint
+    });
+  } catch (error) {
+    if (isRecordNotFound(error)) {
+      return notFound();
+    }
+    
+    console.error('Error updating webhook endpoint:', error);
+    return serverError();
+  }
+}
+
+// Also removes the endpoint's delivery log
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const unauthorized = await requireAdmin();
+  if (unauthorized) return unauthorized;
+  
+  try {
+    const { id } = await params;
+    await prisma.webhookEndpoint.delete({ where: { id } });
+    
+    return NextResponse.json({
+      success: true,
+      message: "Webhook endpoint deleted"
+    });
+  } catch (error) {
+    if (isRecordNotFound(error)) {
+      return notFound();
+    }
+    
+    console.error('Error deleting webhook endpoint:', error);
+    return serverError();
+  }
+}
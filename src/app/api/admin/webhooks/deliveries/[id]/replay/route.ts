@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { replayDelivery } from '@/lib/webhooks';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function POST(_request: Request, { params }: RouteContext) {
+  const unauthorized = await requireAdmin();
+  if (unauthorized) return unauthorized;
+  
+  try {
+    const { id } = await params;
+    const delivery = await replayDelivery(id);
+    
+    if (!delivery) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          message: "Delivery not found" 
+        }, 
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({
+      success: true,
+      message: "Delivery queued for replay",
+      delivery
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error replaying webhook delivery:', error);
+    return NextResponse.json(
+      { 
+        success: false, 
+        message: "An error occurred while processing your request" 
+      }, 
+      { status: 500 }
+    );
+  }
+}
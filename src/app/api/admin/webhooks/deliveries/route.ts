@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { listWebhookDeliveries } from '@/lib/webhooks';
+import { WebhookDeliveryQuerySchema } from '@/lib/validations/admin';
+
+export async function GET(request: NextRequest) {
+  const unauthorized = await requireAdmin();
+  if (unauthorized) return unauthorized;
+  
+  try {
+    const result = WebhookDeliveryQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    
+    if (!result.success) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          message: "Validation failed", 
+          errors: result.error.flatten().fieldErrors 
+        }, 
+        { status: 400 }
+      );
+    }
+    
+    const { deliveries, pagination } = await listWebhookDeliveries(result.data);
+    
+    return NextResponse.json({
+      success: true,
+      deliveries,
+      pagination
+    });
+  } catch (error) {
+    console.error('Error listing webhook deliveries:', error);
+    return NextResponse.json(
+      { 
+        success: false, 
+        message: "An error occurred while processing your request" 
+      }, 
+      { status: 500 }
+    );
+  }
+}
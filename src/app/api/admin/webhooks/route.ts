@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireAdmin } from '@/lib/admin-auth';
+import { generateWebhookSecret, listWebhookEndpoints } from '@/lib/webhooks';
+import { WebhookEndpointSchema } from '@/lib/validations/admin';
+
+export async function GET() {
+  const unauthorized = await requireAdmin();
+  if (unauthorized) return unauthorized;
+  
+  try {
+    const endpoints = await listWebhookEndpoints();
+    
+    return NextResponse.json({
+      success: true,
+      endpoints
+    });
+  } catch (error) {
+    console.error('Error listing webhook endpoints:', error);
+    return NextResponse.json(
+      { 
+        success: false, 
+        message: "An error occurred while processing your request" 
+      }, 
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const unauthorized = await requireAdmin();
+  if (unauthorized) return unauthorized;
+  
+  try {
+    const body = await request.json();
+    
+    // Validate the request body
+    const result = WebhookEndpointSchema.safeParse(body);
+    
+    if (!result.success) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          message: "Validation failed", 
+          errors: result.error.flatten().fieldErrors 
+        }, 
+        { status: 400 }
+      );
+    }
+    
+    // The secret is returned so the receiver can be configured to verify
+    // the X-Cherry-Signature header
+    const endpoint = await prisma.webhookEndpoint.create({
+      data: {
+        ...result.data,
+        secret: generateWebhookSecret()
+      }
+    });
+    
+    return NextResponse.json({
+      success: true,
+      message: "Webhook endpoint created",
+      endpoint
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating webhook endpoint:', error);
+    return NextResponse.json(
+      { 
+        success: false, 
+        message: "An error occurred while processing your request" 
+      }, 
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { sendLoginLinkEmail } from '@/lib/subscriber-auth';
+import { getAppUrl } from '@/lib/app-url';
+import { getClientIp, rateLimit, rateLimitResponse } from '@/lib/rate-limit';
+import { api } from '@/lib/api/contract';
+import { apiError, apiResponse, validationError } from '@/lib/api/server';
+import { getRequestTranslator } from '@/lib/i18n/server';
+import { zodErrorMap } from '@/lib/i18n/zod';
+
+const limiter = rateLimit({
+  name: 'login',
+  limit: 5,
+  windowMs: 15 * 60 * 1000
+});
+
+// Emails a magic sign-in link
+export async function POST(request: Request) {
+  const { locale, t } = getRequestTranslator(request);
+  
+  try {
+    const limit = await limiter.check(getClientIp(request));
+    
+    if (!limit.success) {
+      return rateLimitResponse(limit, t('errors.rateLimited'));
+    }
+    
+    const body = await request.json();
+    
+    // Validate the request body
+    const result = api.requestLogin.body.safeParse(body, { errorMap: zodErrorMap(locale) });
+    
+    if (!result.success) {
+      return validationError(result.error, locale);
+    }
+    
+    await sendLoginLinkEmail(result.data.email, getAppUrl(request));
+    
+    // Same response either way so this can't be used to probe the waitlist
+    return apiResponse(api.requestLogin, {
+      success: true,
+      message: t('api.login.sent')
+    });
+  } catch (error) {
+    console.error('Error sending sign-in link:', error);
+    return apiError(
+      { error: 'server_error', message: t('errors.server') }, 
+      { status: 500 }
+    );
+  }
+}
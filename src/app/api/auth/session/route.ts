@@ -0,0 +1,56 @@
+import { consumeLoginToken, endSubscriberSession, startSubscriberSession } from '@/lib/subscriber-auth';
+import { api } from '@/lib/api/contract';
+import { apiError, apiResponse, validationError } from '@/lib/api/server';
+import { getRequestTranslator } from '@/lib/i18n/server';
+import { zodErrorMap } from '@/lib/i18n/zod';
+
+// Sign in with the token from a magic link. The /login page posts it, so
+// email scanners that prefetch the link don't use it up.
+export async function POST(request: Request) {
+  const { locale, t } = getRequestTranslator(request);
+  
+  try {
+    const body = await request.json();
+    
+    // Validate the request body
+    const result = api.startSession.body.safeParse(body, { errorMap: zodErrorMap(locale) });
+    
+    if (!result.success) {
+      return validationError(result.error, locale);
+    }
+    
+    const subscriberId = await consumeLoginToken(result.data.token);
+    
+    if (!subscriberId) {
+      return apiError(
+        { error: 'invalid_token', message: t('errors.invalidLoginLink') },
+        { status: 401 }
+      );
+    }
+    
+    await startSubscriberSession(subscriberId);
+    
+    return apiResponse(api.startSession, {
+      success: true,
+      message: t('api.session.signedIn')
+    });
+  } catch (error) {
+    console.error('Error starting subscriber session:', error);
+    return apiError(
+      { error: 'server_error', message: t('errors.server') }, 
+      { status: 500 }
+    );
+  }
+}
+
+// Sign out
+export async function DELETE(request: Request) {
+  const { t } = getRequestTranslator(request);
+  
+  await endSubscriberSession();
+  
+  return apiResponse(api.endSession, {
+    success: true,
+    message: t('api.session.signedOut')
+  });
+}
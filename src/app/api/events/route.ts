@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { CLIENT_EVENT_TYPES, recordClientEvent } from '@/lib/analytics';
+import { getClientIp, rateLimit, rateLimitResponse } from '@/lib/rate-limit';
+import { apiError, validationError } from '@/lib/api/server';
+import { getRequestTranslator } from '@/lib/i18n/server';
+import { zodErrorMap } from '@/lib/i18n/zod';
+import { z } from 'zod';
+
+const eventSchema = z.object({
+  sessionId: z.string().uuid(),
+  type: z.enum(CLIENT_EVENT_TYPES),
+  path: z.string().max(500).optional(),
+  referrer: z.string().max(2000).optional()
+});
+
+const limiter = rateLimit({
+  name: 'events',
+  limit: 120,
+  windowMs: 60 * 1000
+});
+
+// Ingests page views and form starts from the browser
+export async function POST(request: Request) {
+  const { locale, t } = getRequestTranslator(request);
+  
+  try {
+    const limit = await limiter.check(getClientIp(request));
+    
+    if (!limit.success) {
+      return rateLimitResponse(limit, t('errors.rateLimited'));
+    }
+    
+    // sendBeacon posts text/plain, so don't rely on the content type
+    const body = JSON.parse(await request.text());
+    
+    // Validate the request body
+    const result = eventSchema.safeParse(body, { errorMap: zodErrorMap(locale) });
+    
+    if (!result.success) {
+      return validationError(result.error, locale);
+    }
+    
+    await recordClientEvent(result.data, new URL(request.url).host);
+    
+    return NextResponse.json({ success: true }, { status: 202 });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return apiError({ error: 'invalid_json', message: t('errors.invalidJson') }, { status: 400 });
+    }
+    
+    console.error('Error recording analytics event:', error);
+    return apiError({ error: 'server_error', message: t('errors.server') }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { apiError, validationError } from '@/lib/api/server';
+import { msg } from '@/lib/i18n';
+import { getRequestTranslator } from '@/lib/i18n/server';
+import { zodErrorMap } from '@/lib/i18n/zod';
+import { isExperimentKey } from '@/lib/experiments';
+import { recordExposure } from '@/lib/experiment-tracking';
+import { z } from 'zod';
+
+const exposureSchema = z.object({
+  experiment: z.string().refine(isExperimentKey, msg('validation.experiment.unknown'))
+});
+
+// Called by <ExperimentExposure> once a variant has actually been shown
+export async function POST(request: Request) {
+  const { locale, t } = getRequestTranslator(request);
+  
+  try {
+    const body = await request.json();
+    
+    // Validate the request body
+    const result = exposureSchema.safeParse(body, { errorMap: zodErrorMap(locale) });
+    
+    if (!result.success) {
+      return validationError(result.error, locale);
+    }
+    
+    const recorded = await recordExposure(result.data.experiment);
+    
+    return NextResponse.json({
+      success: true,
+      recorded
+    });
+  } catch (error) {
+    console.error('Error recording experiment exposure:', error);
+    return apiError({ error: 'server_error', message: t('errors.server') }, { status: 500 });
+  }
+}
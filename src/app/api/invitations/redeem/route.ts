@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { redeemInvitation } from '@/lib/invitations';
+import { requireBearerToken } from '@/lib/api-key';
+import { getClientIp, rateLimit, rateLimitResponse } from '@/lib/rate-limit';
+import { apiError, validationError } from '@/lib/api/server';
+import { getRequestTranslator } from '@/lib/i18n/server';
+import { zodErrorMap } from '@/lib/i18n/zod';
+import { z } from 'zod';
+
+const redeemSchema = z.object({
+  code: z.string().trim().min(1).max(32)
+});
+
+const limiter = rateLimit({
+  name: 'invitation-redeem',
+  limit: 60,
+  windowMs: 60 * 1000
+});
+
+// Called by the product to validate and consume an access code. Authenticated
+// with `Authorization: Bearer <INVITATION_API_KEY>`.
+export async function POST(request: Request) {
+  const unauthorized = requireBearerToken(request, 'INVITATION_API_KEY');
+  if (unauthorized) return unauthorized;
+  
+  const { locale, t } = getRequestTranslator(request);
+  
+  try {
+    const limit = await limiter.check(getClientIp(request));
+    
+    if (!limit.success) {
+      return rateLimitResponse(limit, t('errors.rateLimited'));
+    }
+    
+    const body = await request.json();
+    
+    // Validate the request body
+    const result = redeemSchema.safeParse(body, { errorMap: zodErrorMap(locale) });
+    
+    if (!result.success) {
+      return validationError(result.error, locale);
+    }
+    
+    const redemption = await redeemInvitation(result.data.code);
+    
+    switch (redemption.status) {
+      case 'accepted':
+        return NextResponse.json({
+          success: true,
+          status: redemption.status,
+          subscriber: redemption.subscriber
+        });
+      case 'already_redeemed':
+        return apiError(
+          { error: 'invitation_already_redeemed', message: t('errors.invitationAlreadyRedeemed') },
+          { status: 409 }
+        );
+      case 'expired':
+        return apiError({ error: 'invitation_expired', message: t('errors.invitationExpired') }, { status: 410 });
+      default:
+        return apiError({ error: 'invitation_not_found', message: t('errors.invitationNotFound') }, { status: 404 });
+    }
+  } catch (error) {
+    console.error('Error redeeming invitation:', error);
+    return apiError({ error: 'server_error', message: t('errors.server') }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { getSubscriberSession } from '@/lib/subscriber-auth';
+import { getSubscriberDashboard } from '@/lib/subscriber-dashboard';
+import { api } from '@/lib/api/contract';
+import { apiError, apiResponse } from '@/lib/api/server';
+import { getRequestTranslator } from '@/lib/i18n/server';
+
+// The signed-in subscriber's own referral dashboard
+export async function GET(request: Request) {
+  const { t } = getRequestTranslator(request);
+  
+  try {
+    const session = await getSubscriberSession();
+    const dashboard = session && (await getSubscriberDashboard(session.subscriberId));
+    
+    // A session can outlive its subscriber, e.g. after an account deletion
+    if (!dashboard) {
+      return apiError(
+        { error: 'unauthenticated', message: t('errors.unauthenticated') },
+        { status: 401 }
+      );
+    }
+    
+    return apiResponse(api.me, {
+      success: true,
+      dashboard
+    });
+  } catch (error) {
+    console.error('Error fetching subscriber dashboard:', error);
+    return apiError(
+      { error: 'server_error', message: t('errors.server') }, 
+      { status: 500 }
+    );
+  }
+}
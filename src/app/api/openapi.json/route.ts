@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/api/openapi';
+
+// The document only changes with a deploy, so it's built once at build time
+export const dynamic = 'force-static';
+
+export function GET() {
+  return NextResponse.json(buildOpenApiDocument(), {
+    headers: { 'Access-Control-Allow-Origin': '*' }
+  });
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { deleteSubscriberAccount, verifyPrivacyToken } from '@/lib/privacy';
+import { getRequestTranslator } from '@/lib/i18n/server';
+import { z } from 'zod';
+
+const tokenSchema = z.object({
+  token: z.string().min(1)
+});
+
+// POST only, so link scanners that prefetch emailed URLs can't delete anyone
+export async function POST(request: Request) {
+  const { t } = getRequestTranslator(request);
+  
+  try {
+    const body = await request.json();
+    const result = tokenSchema.safeParse(body);
+    const subscriberId = result.success ? verifyPrivacyToken(result.data.token, 'delete') : null;
+    
+    if (!subscriberId || !(await deleteSubscriberAccount(subscriberId))) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'invalid_token',
+          message: t('errors.invalidPrivacyLink') 
+        }, 
+        { status: 400 }
+      );
+    }
+    
+    return NextResponse.json({
+      success: true,
+      message: t('api.privacy.deleted')
+    });
+  } catch (error) {
+    console.error('Error deleting subscriber account:', error);
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: 'server_error',
+        message: t('errors.server') 
+      }, 
+      { status: 500 }
+    );
+  }
+}
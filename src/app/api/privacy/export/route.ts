@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { exportSubscriberData, verifyPrivacyToken } from '@/lib/privacy';
+import { getRequestTranslator } from '@/lib/i18n/server';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const { t } = getRequestTranslator(request);
+  
+  try {
+    const token = request.nextUrl.searchParams.get('token');
+    const subscriberId = token ? verifyPrivacyToken(token, 'export') : null;
+    const data = subscriberId ? await exportSubscriberData(subscriberId) : null;
+    
+    if (!data) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'invalid_token',
+          message: t('errors.invalidPrivacyLink') 
+        }, 
+        { status: 400 }
+      );
+    }
+    
+    return new Response(JSON.stringify(data, null, 2), {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="cherry-waitlist-data.json"',
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Error exporting subscriber data:', error);
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: 'server_error',
+        message: t('errors.server') 
+      }, 
+      { status: 500 }
+    );
+  }
+}
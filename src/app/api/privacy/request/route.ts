@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { sendPrivacyLinksEmail } from '@/lib/privacy';
+import { msg } from '@/lib/i18n';
+import { getRequestTranslator } from '@/lib/i18n/server';
+import { localizeZodError, zodErrorMap } from '@/lib/i18n/zod';
+import { getAppUrl } from '@/lib/app-url';
+import { getClientIp, rateLimit, rateLimitResponse } from '@/lib/rate-limit';
+import { z } from 'zod';
+
+const privacyRequestSchema = z.object({
+  email: z.string().email({ message: msg('validation.email.invalid') })
+});
+
+const limiter = rateLimit({
+  name: 'privacy-request',
+  limit: 3,
+  windowMs: 15 * 60 * 1000
+});
+
+// Emails signed links for data export, unsubscribe and deletion
+export async function POST(request: Request) {
+  const { locale, t } = getRequestTranslator(request);
+  
+  try {
+    const limit = await limiter.check(getClientIp(request));
+    
+    if (!limit.success) {
+      return rateLimitResponse(limit, t('errors.rateLimited'));
+    }
+    
+    const body = await request.json();
+    
+    // Validate the request body
+    const result = privacyRequestSchema.safeParse(body, { errorMap: zodErrorMap(locale) });
+    
+    if (!result.success) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'validation_failed',
+          message: t('errors.validationFailed'), 
+          errors: localizeZodError(result.error, locale) 
+        }, 
+        { status: 400 }
+      );
+    }
+    
+    await sendPrivacyLinksEmail(result.data.email, getAppUrl(request));
+    
+    // Same response either way so this can't be used to probe the waitlist
+    return NextResponse.json({
+      success: true,
+      message: t('api.privacy.requested')
+    });
+  } catch (error) {
+    console.error('Error handling privacy request:', error);
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: 'server_error',
+        message: t('errors.server') 
+      }, 
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { unsubscribeSubscriber, verifyPrivacyToken } from '@/lib/privacy';
+import { getRequestTranslator } from '@/lib/i18n/server';
+import { z } from 'zod';
+
+const tokenSchema = z.object({
+  token: z.string().min(1)
+});
+
+export async function POST(request: Request) {
+  const { t } = getRequestTranslator(request);
+  
+  try {
+    const body = await request.json();
+    const result = tokenSchema.safeParse(body);
+    const subscriberId = result.success ? verifyPrivacyToken(result.data.token, 'unsubscribe') : null;
+    
+    if (!subscriberId || !(await unsubscribeSubscriber(subscriberId))) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'invalid_token',
+          message: t('errors.invalidPrivacyLink') 
+        }, 
+        { status: 400 }
+      );
+    }
+    
+    return NextResponse.json({
+      success: true,
+      message: t('api.privacy.unsubscribed')
+    });
+  } catch (error) {
+    console.error('Error unsubscribing subscriber:', error);
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: 'server_error',
+        message: t('errors.server') 
+      }, 
+      { status: 500 }
+    );
+  }
+}
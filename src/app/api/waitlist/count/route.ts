@@ -1,20 +1,31 @@
-import { NextResponse } from 'next/server';
-import { prisma } from '@/lib/prisma';
+import { NextRequest } from 'next/server';
+import { api } from '@/lib/api/contract';
+import { apiError, apiResponse } from '@/lib/api/server';
+import { getRequestTranslator } from '@/lib/i18n/server';
+import { getWaitlistCounts } from '@/lib/waitlist-count';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const { t } = getRequestTranslator(request);
+  
   try {
-    const count = await prisma.subscriber.count();
+    // Only verified subscribers are counted unless explicitly requested
+    const { includeUnverified } = api.count.query.parse({
+      includeUnverified: request.nextUrl.searchParams.get('includeUnverified') ?? undefined
+    });
     
-    return NextResponse.json({
+    const counts = await getWaitlistCounts();
+    const count = includeUnverified ? counts.total : counts.verified;
+    
+    return apiResponse(api.count, {
       success: true,
       count
     }, { status: 200 });
   } catch (error) {
     console.error('Error fetching waitlist count:', error);
     
-    return NextResponse.json({
-      success: false,
-      message: 'Failed to fetch waitlist count'
+    return apiError({
+      error: 'server_error',
+      message: t('errors.server')
     }, { status: 500 });
   }
-} 
\ No newline at end of file
+}
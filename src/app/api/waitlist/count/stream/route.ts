@@ -0,0 +1,118 @@
+import { NextRequest } from 'next/server';
+import { api } from '@/lib/api/contract';
+import { serverSentEvent } from '@/lib/api/server';
+import {
+  getWaitlistCounts,
+  subscribeToWaitlistCounts,
+  type WaitlistCounts
+} from '@/lib/waitlist-count';
+
+export const dynamic = 'force-dynamic';
+
+// Bursts of signups go out as one event
+const COALESCE_MS = 250;
+// Keeps proxies from closing an idle connection; each beat also lets the
+// cache reconcile when it's stale
+const HEARTBEAT_MS = 25 * 1000;
+// Tells EventSource how long to wait before reconnecting
+const RETRY_MS = 5 * 1000;
+
+export async function GET(request: NextRequest) {
+  const { includeUnverified } = api.countStream.query.parse({
+    includeUnverified: request.nextUrl.searchParams.get('includeUnverified') ?? undefined
+  });
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let lastSent: number | null = null;
+      let latest: WaitlistCounts | null = null;
+      let flushTimer: ReturnType<typeof setTimeout> | null = null;
+      let closed = false;
+
+      const write = (chunk: string) => {
+        if (closed) {
+          return;
+        }
+
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // The client went away between two writes
+          cleanup();
+        }
+      };
+
+      const send = (counts: WaitlistCounts) => {
+        const count = includeUnverified ? counts.total : counts.verified;
+
+        if (count === lastSent) {
+          return;
+        }
+
+        lastSent = count;
+        write(serverSentEvent(api.countStream, 'count', { success: true, count }));
+      };
+
+      const unsubscribe = subscribeToWaitlistCounts((counts) => {
+        latest = counts;
+
+        if (!flushTimer) {
+          flushTimer = setTimeout(() => {
+            flushTimer = null;
+            if (latest) send(latest);
+          }, COALESCE_MS);
+        }
+      });
+
+      const heartbeat = setInterval(() => {
+        write(': heartbeat\n\n');
+        getWaitlistCounts().catch((error) => console.error('Error refreshing waitlist count:', error));
+      }, HEARTBEAT_MS);
+
+      cleanup = () => {
+        if (closed) {
+          return;
+        }
+
+        closed = true;
+        unsubscribe();
+        clearInterval(heartbeat);
+        if (flushTimer) clearTimeout(flushTimer);
+
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the runtime
+        }
+      };
+
+      request.signal.addEventListener('abort', () => cleanup());
+
+      write(`retry: ${RETRY_MS}\n\n`);
+
+      try {
+        send(await getWaitlistCounts());
+      } catch (error) {
+        console.error('Error fetching waitlist count:', error);
+        // The first count failed; EventSource reconnects after RETRY_MS
+        cleanup();
+      }
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // Disables response buffering in nginx
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
@@ -0,0 +1,48 @@
+import { NextRequest } from 'next/server';
+import { getLeaderboard } from '@/lib/leaderboard';
+import { api } from '@/lib/api/contract';
+import { apiError, apiResponse, validationError } from '@/lib/api/server';
+import { getRequestTranslator } from '@/lib/i18n/server';
+import { zodErrorMap } from '@/lib/i18n/zod';
+
+export async function GET(request: NextRequest) {
+  const { locale, t } = getRequestTranslator(request);
+  
+  try {
+    const { searchParams } = new URL(request.url);
+    
+    // Validate the query parameters, treating missing values as defaults
+    const result = api.leaderboard.query.safeParse({
+      window: searchParams.get('window') ?? undefined,
+      limit: searchParams.get('limit') ?? undefined,
+      code: searchParams.get('code') || undefined
+    }, { errorMap: zodErrorMap(locale) });
+    
+    if (!result.success) {
+      return validationError(result.error, locale, t('errors.invalidQuery'));
+    }
+    
+    const { window, limit, code } = result.data;
+    const leaderboard = await getLeaderboard(window, limit, code);
+    
+    if (code && !leaderboard.you) {
+      return apiError(
+        { error: 'referral_code_not_found', message: t('errors.referralCodeNotFound') },
+        { status: 404 }
+      );
+    }
+    
+    return apiResponse(api.leaderboard, {
+      success: true,
+      window,
+      leaderboard: leaderboard.entries,
+      you: leaderboard.you
+    });
+  } catch (error) {
+    console.error('Error fetching leaderboard:', error);
+    return apiError(
+      { error: 'server_error', message: t('errors.server') }, 
+      { status: 500 }
+    );
+  }
+}
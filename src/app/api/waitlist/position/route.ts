@@ -0,0 +1,43 @@
+import { NextRequest } from 'next/server';
+import { getContainer } from '@/lib/container';
+import { api } from '@/lib/api/contract';
+import { apiError, apiResponse } from '@/lib/api/server';
+import { getRequestTranslator } from '@/lib/i18n/server';
+
+export async function GET(request: NextRequest) {
+  const { t } = getRequestTranslator(request);
+  
+  try {
+    const { searchParams } = new URL(request.url);
+    
+    // Validate the query parameter
+    const result = api.position.query.safeParse({ code: searchParams.get('code') });
+    
+    if (!result.success) {
+      return apiError(
+        { error: 'invalid_referral_code', message: t('errors.malformedReferralCode') },
+        { status: 400 }
+      );
+    }
+    
+    const position = await getContainer().subscribers.getQueuePosition({ referralCode: result.data.code });
+    
+    if (!position) {
+      return apiError(
+        { error: 'referral_code_not_found', message: t('errors.referralCodeNotFound') },
+        { status: 404 }
+      );
+    }
+    
+    return apiResponse(api.position, {
+      success: true,
+      position
+    });
+  } catch (error) {
+    console.error('Error fetching queue position:', error);
+    return apiError(
+      { error: 'server_error', message: t('errors.server') }, 
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { sendReferralCodeEmail } from '@/lib/referral-code-recovery';
+import { getAppUrl } from '@/lib/app-url';
+import { getClientIp, rateLimit, rateLimitResponse } from '@/lib/rate-limit';
+import { api } from '@/lib/api/contract';
+import { apiError, apiResponse, validationError } from '@/lib/api/server';
+import { getRequestTranslator } from '@/lib/i18n/server';
+import { zodErrorMap } from '@/lib/i18n/zod';
+
+const limiter = rateLimit({
+  name: 'referral-code-recovery',
+  limit: 5,
+  windowMs: 15 * 60 * 1000
+});
+
+// Emails subscribers the referral code they already have
+export async function POST(request: Request) {
+  const { locale, t } = getRequestTranslator(request);
+  
+  try {
+    const limit = await limiter.check(getClientIp(request));
+    
+    if (!limit.success) {
+      return rateLimitResponse(limit, t('errors.rateLimited'));
+    }
+    
+    const body = await request.json();
+    
+    // Validate the request body
+    const result = api.recoverReferralCode.body.safeParse(body, { errorMap: zodErrorMap(locale) });
+    
+    if (!result.success) {
+      return validationError(result.error, locale);
+    }
+    
+    await sendReferralCodeEmail(result.data.email, getAppUrl(request));
+    
+    // Same response whether or not the address is on the waitlist
+    return apiResponse(api.recoverReferralCode, {
+      success: true,
+      message: t('api.referralCode.sent')
+    });
+  } catch (error) {
+    console.error('Error sending referral code:', error);
+    return apiError(
+      { error: 'server_error', message: t('errors.server') }, 
+      { status: 500 }
+    );
+  }
+}
@@ -1,81 +1,60 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '@/lib/prisma';
-import { z } from 'zod';
-
-// Schema for validating the referral code query parameter
-const referralQuerySchema = z.object({
-  code: z.string().min(3).max(20)
-});
-
-// Define the shape of the referral data we'll use
-type ReferralData = {
-  id: string;
-  email: string;
-  createdAt: Date;
-};
+import { NextRequest } from 'next/server';
+import { getContainer } from '@/lib/container';
+import { api } from '@/lib/api/contract';
+import { apiError, apiResponse } from '@/lib/api/server';
+import { getRequestTranslator } from '@/lib/i18n/server';
 
 export async function GET(request: NextRequest) {
+  const { t } = getRequestTranslator(request);
+  
   try {
     // Get referral code from query parameters
     const { searchParams } = new URL(request.url);
-    const code = searchParams.get('code');
     
-    // Validate the query parameter
-    const result = referralQuerySchema.safeParse({ code });
+    // Validate the query parameters. Unverified referrals don't earn credit
+    // unless explicitly requested.
+    const result = api.referrals.query.safeParse({
+      code: searchParams.get('code'),
+      includeUnverified: searchParams.get('includeUnverified') ?? undefined
+    });
     
     if (!result.success) {
-      return NextResponse.json(
-        { 
-          success: false, 
-          message: "Invalid referral code format" 
-        }, 
+      return apiError(
+        { error: 'invalid_referral_code', message: t('errors.malformedReferralCode') },
         { status: 400 }
       );
     }
     
+    const { code, includeUnverified } = result.data;
+    
     // Find the subscriber with this referral code
-    const subscriber = await prisma.subscriber.findUnique({
-      where: { referralCode: code },
-      include: {
-        referrals: {
-          select: {
-            id: true,
-            email: true,
-            createdAt: true
-          }
-        }
-      }
-    });
+    const { subscribers } = getContainer();
+    const subscriber = await subscribers.findByReferralCode(code);
     
     if (!subscriber) {
-      return NextResponse.json(
-        { 
-          success: false, 
-          message: "Referral code not found" 
-        }, 
+      return apiError(
+        { error: 'referral_code_not_found', message: t('errors.referralCodeNotFound') },
         { status: 404 }
       );
     }
     
-    // Return the referral stats
-    return NextResponse.json({
+    const totalReferrals = await subscribers.countReferrals(
+      subscriber.id,
+      includeUnverified ? {} : { verified: true }
+    );
+    
+    // Anyone can look a code up, so only the count is public. Subscribers see
+    // who they referred on their dashboard after signing in.
+    return apiResponse(api.referrals, {
       success: true,
       stats: {
-        totalReferrals: subscriber.referrals.length,
-        referrals: subscriber.referrals.map((ref: ReferralData) => ({
-          date: ref.createdAt,
-          // Mask the email for privacy
-          email: ref.email.replace(/(.{2})(.*)(?=@)/, (_: string, start: string, rest: string) => start + '*'.repeat(rest.length))
-        }))
+        totalReferrals
       }
     });
   } catch (error) {
     console.error('Error fetching referral stats:', error);
-    return NextResponse.json(
-      { 
-        success: false, 
-        message: "An error occurred while processing your request" 
-      }, 
+    return apiError(
+      { error: 'server_error', message: t('errors.server') }, 
       { status: 500 }
     );
   }
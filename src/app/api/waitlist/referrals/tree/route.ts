@@ -0,0 +1,57 @@
+import { NextRequest } from 'next/server';
+import { getContainer } from '@/lib/container';
+import { getReferralTree, MAX_REFERRAL_TREE_DEPTH } from '@/lib/referral-tree';
+import { api } from '@/lib/api/contract';
+import { apiError, apiResponse, validationError } from '@/lib/api/server';
+import { getRequestTranslator } from '@/lib/i18n/server';
+import { zodErrorMap } from '@/lib/i18n/zod';
+import { z } from 'zod';
+
+// The contract's query schema, capped at the configured maximum depth
+const treeQuerySchema = api.referralTree.query.extend({
+  depth: z.coerce.number().int().min(1).max(MAX_REFERRAL_TREE_DEPTH).default(3)
+});
+
+export async function GET(request: NextRequest) {
+  const { locale, t } = getRequestTranslator(request);
+  
+  try {
+    const { searchParams } = new URL(request.url);
+    
+    // Validate the query parameters
+    const result = treeQuerySchema.safeParse({
+      code: searchParams.get('code'),
+      depth: searchParams.get('depth') ?? undefined
+    }, { errorMap: zodErrorMap(locale) });
+    
+    if (!result.success) {
+      return validationError(result.error, locale, t('errors.invalidQuery'));
+    }
+    
+    const { code, depth } = result.data;
+    
+    const subscriber = await getContainer().subscribers.findByReferralCode(code);
+    
+    if (!subscriber) {
+      return apiError(
+        { error: 'referral_code_not_found', message: t('errors.referralCodeNotFound') },
+        { status: 404 }
+      );
+    }
+    
+    const { levels, total } = await getReferralTree(subscriber.id, depth);
+    
+    // Anyone can look a code up, so only the per-level counts are public
+    return apiResponse(api.referralTree, {
+      success: true,
+      depth,
+      tree: { levels, total }
+    });
+  } catch (error) {
+    console.error('Error fetching referral tree:', error);
+    return apiError(
+      { error: 'server_error', message: t('errors.server') }, 
+      { status: 500 }
+    );
+  }
+}
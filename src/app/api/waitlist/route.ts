@@ -1,103 +1,194 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { WaitlistSchema } from '@/lib/validations/waitlist';
-import { prisma } from '@/lib/prisma';
-import { z } from 'zod';
+import { getContainer } from '@/lib/container';
+import { sendVerificationEmail } from '@/lib/verification';
+import { getAppUrl } from '@/lib/app-url';
+import { getClientIp, rateLimit, rateLimitResponse } from '@/lib/rate-limit';
+import { detectBot } from '@/lib/bot-protection';
+import { withUniqueReferralCode } from '@/lib/referral-code';
+import { sendReferralCodeEmail } from '@/lib/referral-code-recovery';
+import { assessReferral, getSignupFingerprint, type FraudAssessment } from '@/lib/referral-fraud';
+import { evaluateReferrerMilestones } from '@/lib/rewards';
+import { clearEmailTombstone, isEmailTombstoned } from '@/lib/privacy';
+import { recordServerEvent } from '@/lib/analytics';
+import { recordExperimentConversions } from '@/lib/experiment-tracking';
+import { emitWebhookEvent, subscriberPayload } from '@/lib/webhooks';
+import { recordWaitlistChange } from '@/lib/waitlist-count';
+import { canonicalizeEmail, isDisposableEmail, isDuplicateEmailError } from '@/lib/email';
+import { api } from '@/lib/api/contract';
+import { apiError, apiResponse, validationError } from '@/lib/api/server';
+import { getRequestTranslator } from '@/lib/i18n/server';
+import { zodErrorMap } from '@/lib/i18n/zod';
 
-const waitlistSchema = z.object({
-  email: z.string().email({ message: "Please enter a valid email address" }),
-  name: z.string().optional(),
-  referralCode: z.string().optional()
+// Signups allowed per client IP
+const ipLimiter = rateLimit({
+  name: 'signup-ip',
+  limit: Number(process.env.SIGNUP_RATE_LIMIT_PER_IP) || 5,
+  windowMs: 10 * 60 * 1000
 });
 
-function generateUniqueCode(): string {
-  // Generate a random alphanumeric code of length 8
-  return Math.random().toString(36).substring(2, 10).toUpperCase();
-}
+// Signups allowed per referral code, so one code can't be farmed from many IPs
+const referralCodeLimiter = rateLimit({
+  name: 'signup-referral-code',
+  limit: Number(process.env.SIGNUP_RATE_LIMIT_PER_REFERRAL_CODE) || 20,
+  windowMs: 60 * 60 * 1000
+});
 
 export async function POST(request: Request) {
+  const { locale, t } = getRequestTranslator(request);
+  
+  // Every accepted signup gets this exact answer, whether the address is new,
+  // already on the waitlist or caught by the honeypot, so the response never
+  // tells whether someone signed up. Codes go out by email.
+  const accepted = () =>
+    apiResponse(api.signup, { success: true, message: t('api.signup.success') }, { status: 201 });
+  
+  const alreadyRegistered = async (email: string) => {
+    await sendReferralCodeEmail(email, getAppUrl(request));
+    return accepted();
+  };
+  
   try {
+    // Throttle by client IP before doing any work
+    const ipLimit = await ipLimiter.check(getClientIp(request));
+    
+    if (!ipLimit.success) {
+      return rateLimitResponse(ipLimit, t('errors.signupRateLimited'));
+    }
+    
     // Parse the request body
     const body = await request.json();
     
     // Validate the request body
-    const result = waitlistSchema.safeParse(body);
+    const result = api.signup.body.safeParse(body, { errorMap: zodErrorMap(locale) });
     
     if (!result.success) {
       // Return validation errors
-      return NextResponse.json(
-        { 
-          success: false, 
-          message: "Validation failed", 
-          errors: result.error.flatten().fieldErrors 
-        }, 
+      return validationError(result.error, locale);
+    }
+    
+    const { email, name, referralCode, website, fillTimeMs, sessionId, attribution } = result.data;
+    const { subscribers } = getContainer();
+    
+    // Bot checks: honeypot hits get a convincing success response so the bot
+    // doesn't learn anything, too-fast submissions get a retryable error
+    const botVerdict = detectBot({ website, fillTimeMs });
+    
+    if (botVerdict === 'honeypot') {
+      return accepted();
+    }
+    
+    if (botVerdict === 'too_fast') {
+      return apiError(
+        { error: 'too_fast', message: t('errors.tooFast') },
         { status: 400 }
       );
     }
     
-    const { email, name, referralCode } = result.data;
+    if (referralCode) {
+      const referralLimit = await referralCodeLimiter.check(referralCode);
+      
+      if (!referralLimit.success) {
+        return rateLimitResponse(referralLimit, t('errors.referralCodeRateLimited'));
+      }
+    }
+    
+    if (isDisposableEmail(email)) {
+      return apiError(
+        { error: 'disposable_email', message: t('errors.disposableEmail') },
+        { status: 400 }
+      );
+    }
     
-    // Check if the email already exists
-    const existingSubscriber = await prisma.subscriber.findUnique({
-      where: { email },
-    });
+    // The referral code is checked before the address, so an unknown code is
+    // rejected the same way for everyone
+    const referrer = referralCode ? await subscribers.findByReferralCode(referralCode) : null;
     
-    if (existingSubscriber) {
-      return NextResponse.json(
-        { 
-          success: false,
-          message: "This email is already on the waitlist" 
-        },
+    if (referralCode && !referrer) {
+      return apiError(
+        { error: 'invalid_referral_code', message: t('errors.invalidReferralCode') },
         { status: 400 }
       );
     }
     
-    // Check if referral code is valid if provided
+    // Check if the email already exists, ignoring case, dots and "+tags"
+    // where the mail provider does
+    const canonicalEmail = canonicalizeEmail(email);
+    const existingSubscriber = await subscribers.findByCanonicalEmail(canonicalEmail);
+    
+    if (existingSubscriber) {
+      return alreadyRegistered(email);
+    }
+    
+    // Someone who deleted their account may come back on their own, but a
+    // referrer can't sign their address up again: the referral is dropped
+    // without saying so
+    const tombstoned = await isEmailTombstoned(email);
+    
+    // Kept on every subscriber, so their own referrals can be compared with it
+    const fingerprint = getSignupFingerprint(request);
+    
+    // Score the referral. Flagged referrals are stored but earn the referrer
+    // nothing until an admin approves them.
     let referrerId: string | undefined;
+    let fraudAssessment: FraudAssessment | undefined;
     
-    if (referralCode) {
-      const referrer = await prisma.subscriber.findUnique({
-        where: { referralCode },
-      });
-      
-      if (!referrer) {
-        return NextResponse.json(
-          { 
-            success: false,
-            message: "Invalid referral code" 
-          },
-          { status: 400 }
-        );
+    if (referrer && !tombstoned) {
+      referrerId = referrer.id;
+      fraudAssessment = await assessReferral(subscribers, referrer, { email, ...fingerprint });
+    }
+    
+    // Create a new subscriber with a unique referral code, retrying on the
+    // rare collision with an existing code. A concurrent signup for the same
+    // person still loses on the unique email constraints.
+    let subscriber;
+    
+    try {
+      subscriber = await withUniqueReferralCode((newReferralCode) =>
+        subscribers.create({
+          email,
+          canonicalEmail,
+          name,
+          referralCode: newReferralCode,
+          referredBy: referrerId,
+          locale,
+          ...fingerprint,
+          ...fraudAssessment,
+          ...attribution,
+        })
+      );
+    } catch (createError) {
+      if (isDuplicateEmailError(createError)) {
+        return alreadyRegistered(email);
       }
       
-      referrerId = referrer.id;
+      throw createError;
+    }
+    
+    recordWaitlistChange({ total: 1 });
+    
+    if (tombstoned) {
+      await clearEmailTombstone(email);
+    }
+    
+    await recordServerEvent('signup', subscriber.id, sessionId);
+    await recordExperimentConversions(subscriber.id);
+    await emitWebhookEvent('subscriber.created', { subscriber: subscriberPayload(subscriber) });
+    
+    // A new referral may unlock a reward tier for the referrer
+    await evaluateReferrerMilestones(referrerId);
+    
+    // Send the double opt-in email. A mail failure shouldn't lose the signup,
+    // the subscriber can ask for a new link via /api/waitlist/verify/resend.
+    try {
+      await sendVerificationEmail(subscriber, getAppUrl(request));
+    } catch (mailError) {
+      console.error('Error sending verification email:', mailError);
     }
     
-    // Generate a unique referral code for this new subscriber
-    const newReferralCode = generateUniqueCode();
-    
-    // Create a new subscriber
-    const subscriber = await prisma.subscriber.create({
-      data: {
-        email,
-        name,
-        referralCode: newReferralCode,
-        referredBy: referrerId,
-      },
-    });
-    
-    // Return success response with the subscriber's referral code
-    return NextResponse.json({ 
-      success: true, 
-      message: "Thank you for joining our waitlist! We'll notify you when we launch.",
-      referralCode: subscriber.referralCode
-    });
+    return accepted();
   } catch (error) {
     console.error('Error processing waitlist submission:', error);
-    return NextResponse.json(
-      { 
-        success: false, 
-        message: "An error occurred while processing your request" 
-      }, 
+    return apiError(
+      { error: 'server_error', message: t('errors.server') }, 
       { status: 500 }
     );
   }
@@ -0,0 +1,36 @@
+import { resendVerificationEmail } from '@/lib/verification';
+import { getAppUrl } from '@/lib/app-url';
+import { api } from '@/lib/api/contract';
+import { apiError, apiResponse, validationError } from '@/lib/api/server';
+import { getRequestTranslator } from '@/lib/i18n/server';
+import { zodErrorMap } from '@/lib/i18n/zod';
+
+export async function POST(request: Request) {
+  const { locale, t } = getRequestTranslator(request);
+  
+  try {
+    const body = await request.json();
+    
+    // Validate the request body
+    const result = api.resendVerification.body.safeParse(body, { errorMap: zodErrorMap(locale) });
+    
+    if (!result.success) {
+      return validationError(result.error, locale);
+    }
+    
+    await resendVerificationEmail(result.data.email, getAppUrl(request));
+    
+    // Same response whether or not an email went out, so this endpoint
+    // can't be used to find out who is on the waitlist
+    return apiResponse(api.resendVerification, {
+      success: true,
+      message: t('api.verify.resent')
+    });
+  } catch (error) {
+    console.error('Error resending verification email:', error);
+    return apiError(
+      { error: 'server_error', message: t('errors.server') }, 
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest } from 'next/server';
+import { verifyToken } from '@/lib/verification';
+import { api } from '@/lib/api/contract';
+import { apiError, apiResponse } from '@/lib/api/server';
+import { getRequestTranslator } from '@/lib/i18n/server';
+
+export async function GET(request: NextRequest) {
+  const { t } = getRequestTranslator(request);
+  
+  try {
+    const { searchParams } = new URL(request.url);
+    
+    // Validate the query parameter
+    const result = api.verify.query.safeParse({ token: searchParams.get('token') });
+    
+    if (!result.success) {
+      return apiError(
+        { error: 'invalid_token', message: t('errors.invalidVerificationToken') },
+        { status: 400 }
+      );
+    }
+    
+    const verification = await verifyToken(result.data.token);
+    
+    switch (verification.status) {
+      case 'verified':
+        return apiResponse(api.verify, {
+          success: true,
+          message: t('api.verify.verified')
+        });
+      case 'already_verified':
+        return apiResponse(api.verify, {
+          success: true,
+          message: t('api.verify.alreadyVerified')
+        });
+      case 'expired':
+        return apiError(
+          { error: 'token_expired', message: t('errors.verificationExpired') },
+          { status: 410 }
+        );
+      default:
+        return apiError(
+          { error: 'invalid_token', message: t('errors.invalidVerificationToken') },
+          { status: 400 }
+        );
+    }
+  } catch (error) {
+    console.error('Error verifying subscriber:', error);
+    return apiError(
+      { error: 'server_error', message: t('errors.server') }, 
+      { status: 500 }
+    );
+  }
+}
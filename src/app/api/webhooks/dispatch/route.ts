@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { requireBearerToken } from '@/lib/api-key';
+import { dispatchWebhooks } from '@/lib/webhooks';
+
+// Sends due webhook deliveries, including retries. Meant to be called by a
+// scheduler every minute with `Authorization: Bearer <CRON_SECRET>`; Vercel
+// Cron sends that header with a GET request.
+async function dispatch(request: Request) {
+  const unauthorized = requireBearerToken(request, 'CRON_SECRET');
+  if (unauthorized) return unauthorized;
+  
+  try {
+    const result = await dispatchWebhooks();
+    
+    return NextResponse.json({
+      success: true,
+      ...result
+    });
+  } catch (error) {
+    console.error('Error dispatching webhooks:', error);
+    return NextResponse.json(
+      { 
+        success: false, 
+        message: "An error occurred while processing your request" 
+      }, 
+      { status: 500 }
+    );
+  }
+}
+
+export { dispatch as GET, dispatch as POST };
@@ -0,0 +1,172 @@
+import { ApiTryIt } from "@/components/api-try-it";
+import { buildOpenApiDocument } from "@/lib/api/openapi";
+
+type JsonSchema = { [key: string]: unknown };
+
+type Operation = {
+  operationId: string;
+  summary: string;
+  parameters?: { name: string; required: boolean; description?: string; schema: JsonSchema }[];
+  requestBody?: { content: { 'application/json': { schema: JsonSchema } } };
+  responses: Record<string, { description: string; content: Record<string, { schema: JsonSchema }> }>;
+};
+
+const METHOD_STYLES: Record<string, string> = {
+  get: 'bg-blue-500/20 text-blue-300 border-blue-500/30',
+  post: 'bg-green-500/20 text-green-300 border-green-500/30',
+  delete: 'bg-red-500/20 text-red-300 border-red-500/30'
+};
+
+// Placeholder value for a JSON Schema, used to pre-fill request bodies
+function exampleValue(schema: JsonSchema): unknown {
+  if (schema.format === 'email') return 'you@example.com';
+  if (schema.type === 'string') return '';
+  if (schema.type === 'number' || schema.type === 'integer') return 0;
+  if (schema.type === 'boolean') return false;
+
+  if (schema.type === 'object') {
+    const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+    const required = (schema.required ?? []) as string[];
+
+    return Object.fromEntries(required.map((name) => [name, exampleValue(properties[name])]));
+  }
+
+  return null;
+}
+
+function isEventStream(operation: Operation): boolean {
+  return Object.values(operation.responses).some((response) => 'text/event-stream' in response.content);
+}
+
+function SchemaBlock({ schema }: { schema: JsonSchema }) {
+  return (
+    <pre className="p-3 bg-black/40 border border-white/10 rounded-lg text-xs text-white/80 overflow-x-auto">
+      {JSON.stringify(schema, null, 2)}
+    </pre>
+  );
+}
+
+export default function ApiDocsPage() {
+  const spec = buildOpenApiDocument();
+  const operations = Object.entries(spec.paths).flatMap(([path, methods]) =>
+    Object.entries(methods as Record<string, Operation>).map(([method, operation]) => ({ path, method, operation }))
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-black via-purple-950/20 to-black">
+      <div className="container relative mx-auto px-4 py-16">
+        <div className="max-w-3xl mx-auto space-y-8">
+          <div className="space-y-2">
+            <h1 className="text-4xl font-bold text-white tracking-tight">{spec.info.title}</h1>
+            <p className="text-white/70">{spec.info.description}</p>
+            <p className="text-sm text-white/60">
+              Version {spec.info.version} · OpenAPI {spec.openapi} ·{' '}
+              <a href="/api/openapi.json" className="text-purple-300 hover:underline">
+                /api/openapi.json
+              </a>
+            </p>
+          </div>
+
+          {operations.map(({ path, method, operation }) => (
+            <section
+              key={operation.operationId}
+              id={operation.operationId}
+              className="p-6 bg-black/20 backdrop-blur-xl border border-white/10 rounded-xl space-y-4"
+            >
+              <div className="flex items-center gap-3">
+                <span className={`px-2 py-1 text-xs font-mono uppercase border rounded-md ${METHOD_STYLES[method] ?? ''}`}>
+                  {method}
+                </span>
+                <code className="text-white font-mono">{path}</code>
+              </div>
+              <p className="text-white/80">{operation.summary}</p>
+
+              {operation.parameters && (
+                <div>
+                  <h3 className="text-sm font-medium text-white/90 mb-2">Query parameters</h3>
+                  <ul className="space-y-1">
+                    {operation.parameters.map((parameter) => (
+                      <li key={parameter.name} className="text-sm text-white/70">
+                        <code className="font-mono text-white">{parameter.name}</code>
+                        {parameter.required ? ' (required)' : ''} · {String(parameter.schema.type)}
+                        {parameter.description && ` · ${parameter.description}`}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {operation.requestBody && (
+                <details>
+                  <summary className="text-sm font-medium text-white/90 cursor-pointer">Request body</summary>
+                  <div className="mt-2">
+                    <SchemaBlock schema={operation.requestBody.content['application/json'].schema} />
+                  </div>
+                </details>
+              )}
+
+              <div>
+                <h3 className="text-sm font-medium text-white/90 mb-2">Responses</h3>
+                <ul className="space-y-2">
+                  {Object.entries(operation.responses).map(([status, response]) => (
+                    <li key={status}>
+                      <details>
+                        <summary className="text-sm text-white/70 cursor-pointer">
+                          <span className={`font-mono ${Number(status) < 400 ? 'text-green-400' : 'text-red-400'}`}>
+                            {status}
+                          </span>{' '}
+                          {response.description}
+                        </summary>
+                        {Object.entries(response.content).map(([mediaType, { schema }]) => (
+                          <div key={mediaType} className="mt-2 space-y-1">
+                            <p className="text-xs font-mono text-white/60">{mediaType}</p>
+                            <SchemaBlock schema={schema} />
+                          </div>
+                        ))}
+                      </details>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              {/* An event stream never completes, so it can't be tried from here */}
+              {!isEventStream(operation) && (
+                <details>
+                  <summary className="text-sm font-medium text-purple-300 cursor-pointer">Try it</summary>
+                  <div className="mt-3">
+                    <ApiTryIt
+                      method={method.toUpperCase()}
+                      path={path}
+                      parameters={(operation.parameters ?? []).map(({ name, required, description }) => ({
+                        name,
+                        required,
+                        description
+                      }))}
+                      exampleBody={
+                        operation.requestBody
+                          ? JSON.stringify(exampleValue(operation.requestBody.content['application/json'].schema), null, 2)
+                          : undefined
+                      }
+                    />
+                  </div>
+                </details>
+              )}
+            </section>
+          ))}
+
+          <div className="p-6 bg-black/20 backdrop-blur-xl border border-white/10 rounded-xl space-y-2">
+            <h2 className="text-xl font-medium text-white">Schemas</h2>
+            {Object.entries(spec.components.schemas).map(([name, schema]) => (
+              <details key={name}>
+                <summary className="text-sm font-mono text-white/80 cursor-pointer">{name}</summary>
+                <div className="mt-2">
+                  <SchemaBlock schema={schema} />
+                </div>
+              </details>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
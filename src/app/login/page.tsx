@@ -0,0 +1,38 @@
+import { redirect } from "next/navigation";
+import { LoginForm } from "@/components/login-form";
+import { MagicLinkSignIn } from "@/components/magic-link-sign-in";
+import { getSubscriberSession } from "@/lib/subscriber-auth";
+
+export const dynamic = 'force-dynamic';
+
+export default async function LoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+
+  if (!token && (await getSubscriberSession())) {
+    redirect('/me');
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-black via-purple-950/20 to-black">
+      <div className="container relative mx-auto px-4 py-16 flex flex-col items-center">
+        <div className="w-full max-w-md mx-auto p-6 bg-black/20 backdrop-blur-xl border border-white/10 rounded-xl text-center">
+          {token ? (
+            <MagicLinkSignIn token={token} />
+          ) : (
+            <div className="space-y-4">
+              <h1 className="text-2xl font-medium tracking-tight text-white">Your referrals</h1>
+              <p className="text-white/80">
+                Enter the email you joined with and we&apos;ll send you a link to see your referrals, rewards and place in line.
+              </p>
+              <LoginForm />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { redirect } from "next/navigation";
+import { ReferralDashboard } from "@/components/referral-dashboard";
+import { SignOutButton } from "@/components/sign-out-button";
+import { getSubscriberSession } from "@/lib/subscriber-auth";
+import { getSubscriberDashboard } from "@/lib/subscriber-dashboard";
+
+export const dynamic = 'force-dynamic';
+
+export default async function MePage() {
+  const session = await getSubscriberSession();
+  const dashboard = session && (await getSubscriberDashboard(session.subscriberId));
+
+  if (!dashboard) {
+    redirect('/login');
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-black via-purple-950/20 to-black">
+      <div className="container relative mx-auto px-4 py-16 flex flex-col items-center">
+        <div className="w-full max-w-md mx-auto p-6 bg-black/20 backdrop-blur-xl border border-white/10 rounded-xl">
+          <div className="flex items-start justify-between mb-6">
+            <div>
+              <h1 className="text-2xl font-medium tracking-tight text-white">
+                {dashboard.name ? `Hi ${dashboard.name}` : 'Your referrals'}
+              </h1>
+              <p className="text-sm text-white/60">{dashboard.email}</p>
+            </div>
+            <SignOutButton />
+          </div>
+          <ReferralDashboard dashboard={dashboard} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,23 @@
 import Image from "next/image";
-import WaitlistForm from '@/components/WaitlistForm';
+import { WaitlistForm } from '@/components/waitlist-form';
+import { WaitlistStats } from '@/components/waitlist-stats';
+import { PageViewTracker } from '@/components/page-view-tracker';
+import { ExperimentExposure } from '@/components/experiment-exposure';
+import { getExperimentVariant } from '@/lib/experiment-tracking';
+import { getWaitlistCounts } from '@/lib/waitlist-count';
+import { getTranslations } from '@/lib/i18n/server';
+
+export default async function Home() {
+  const [hero, form, counts, { t }] = await Promise.all([
+    getExperimentVariant('landing-hero'),
+    getExperimentVariant('waitlist-form'),
+    getWaitlistCounts(),
+    getTranslations()
+  ]);
 
-export default function Home() {
   return (
     <div className="grid grid-rows-[20px_1fr_20px] items-center justify-items-center min-h-screen p-8 pb-20 gap-16 sm:p-20 font-[family-name:var(--font-geist-sans)]">
+      <PageViewTracker />
       <main className="flex flex-col gap-[32px] row-start-2 items-center sm:items-start">
         <Image
           className="dark:invert"
@@ -15,14 +29,14 @@ export default function Home() {
         />
         <ol className="list-inside list-decimal text-sm/6 text-center sm:text-left font-[family-name:var(--font-geist-mono)]">
           <li className="mb-2 tracking-[-.01em]">
-            Get started by editing{" "}
+            {t('home.getStarted')}{" "}
             <code className="bg-black/[.05] dark:bg-white/[.06] px-1 py-0.5 rounded font-[family-name:var(--font-geist-mono)] font-semibold">
               src/app/page.tsx
             </code>
             .
           </li>
           <li className="tracking-[-.01em]">
-            Save and see your changes instantly.
+            {t('home.saveChanges')}
           </li>
         </ol>
 
@@ -40,7 +54,7 @@ export default function Home() {
               width={20}
               height={20}
             />
-            Deploy now
+            {t('home.deployNow')}
           </a>
           <a
             className="rounded-full border border-solid border-black/[.08] dark:border-white/[.145] transition-colors flex items-center justify-center hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a] hover:border-transparent font-medium text-sm sm:text-base h-10 sm:h-12 px-4 sm:px-5 w-full sm:w-auto md:w-[158px]"
@@ -48,18 +62,25 @@ export default function Home() {
             target="_blank"
             rel="noopener noreferrer"
           >
-            Read our docs
+            {t('home.readDocs')}
           </a>
         </div>
 
         <div className="max-w-3xl w-full text-center mb-12">
           <h1 className="text-4xl md:text-5xl font-bold tracking-tight mb-3 text-gray-900">
-            Join the Cherry Waitlist
+            {t(hero.content.headline)}
           </h1>
           <p className="text-lg text-gray-600 mb-8">
-            Be the first to know when we launch. Enter your details below to join our waitlist.
+            {t(hero.content.subheadline)}
           </p>
-          <WaitlistForm />
+          <div className="max-w-md mx-auto text-left bg-gray-950 rounded-xl">
+            <WaitlistForm variant={form.content} />
+          </div>
+          <div className="max-w-md mx-auto mt-4 text-left bg-gray-950 rounded-xl">
+            <WaitlistStats initialCount={counts.verified} />
+          </div>
+          <ExperimentExposure experiment="landing-hero" />
+          <ExperimentExposure experiment="waitlist-form" />
         </div>
       </main>
       <footer className="row-start-3 flex gap-[24px] flex-wrap items-center justify-center">
@@ -76,7 +97,7 @@ export default function Home() {
             width={16}
             height={16}
           />
-          Learn
+          {t('home.learn')}
         </a>
         <a
           className="flex items-center gap-2 hover:underline hover:underline-offset-4"
@@ -91,7 +112,7 @@ export default function Home() {
             width={16}
             height={16}
           />
-          Examples
+          {t('home.examples')}
         </a>
         <a
           className="flex items-center gap-2 hover:underline hover:underline-offset-4"
@@ -106,7 +127,7 @@ export default function Home() {
             width={16}
             height={16}
           />
-          Go to nextjs.org →
+          {t('home.goToNextjs')}
         </a>
       </footer>
     </div>
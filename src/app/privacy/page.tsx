@@ -0,0 +1,37 @@
+import { PrivacyAction } from "@/components/privacy-action";
+import { PrivacyRequestForm } from "@/components/privacy-request-form";
+import { readPrivacyToken } from "@/lib/privacy";
+
+export const dynamic = 'force-dynamic';
+
+export default async function PrivacyPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+  const payload = token ? readPrivacyToken(token) : null;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-black via-purple-950/20 to-black">
+      <div className="container relative mx-auto px-4 py-16 flex flex-col items-center">
+        <div className="w-full max-w-md mx-auto p-6 bg-black/20 backdrop-blur-xl border border-white/10 rounded-xl text-center">
+          {token && payload ? (
+            <PrivacyAction purpose={payload.purpose} token={token} />
+          ) : (
+            <div className="space-y-4">
+              <h1 className="text-2xl font-medium tracking-tight text-white">Your data</h1>
+              {token && (
+                <p className="text-red-400">This link is invalid or has expired. Request a new one below.</p>
+              )}
+              <p className="text-white/80">
+                Enter the email you joined with and we&apos;ll send you links to download your data, unsubscribe or delete your account.
+              </p>
+              <PrivacyRequestForm />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import Link from "next/link";
+import { verifyToken, type VerificationResult } from "@/lib/verification";
+
+export const dynamic = 'force-dynamic';
+
+const messages: Record<VerificationResult['status'], { title: string; body: string }> = {
+  verified: {
+    title: "You're verified!",
+    body: "Thanks for confirming your email. Your spot on the waitlist is secured."
+  },
+  already_verified: {
+    title: "Already verified",
+    body: "This email address has already been confirmed. No further action is needed."
+  },
+  expired: {
+    title: "Link expired",
+    body: "This verification link has expired. Submit your email again on the waitlist page to get a new one."
+  },
+  invalid: {
+    title: "Invalid link",
+    body: "We couldn't recognise this verification link. Make sure you copied the full URL from the email."
+  }
+};
+
+export default async function VerifyPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+  const result: VerificationResult = token ? await verifyToken(token) : { status: 'invalid' };
+  const { title, body } = messages[result.status];
+  const succeeded = result.status === 'verified' || result.status === 'already_verified';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-black via-purple-950/20 to-black">
+      <div className="container relative mx-auto px-4 py-16 flex flex-col items-center">
+        <div className="w-full max-w-md mx-auto p-6 bg-black/20 backdrop-blur-xl border border-white/10 rounded-xl text-center">
+          <h1 className={`text-2xl font-medium tracking-tight mb-2 ${succeeded ? 'text-white' : 'text-red-400'}`}>
+            {title}
+          </h1>
+          <p className="text-white/80 mb-6">{body}</p>
+          <Link
+            href="/waitlist"
+            className="inline-block px-6 py-3 bg-gradient-to-r from-purple-600 to-indigo-700 hover:opacity-90 text-white font-medium rounded-full shadow-lg shadow-purple-600/20 transition-all duration-300"
+          >
+            Back to the waitlist
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
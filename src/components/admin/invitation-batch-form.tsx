@@ -0,0 +1,148 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+type InvitationBatchFormProps = {
+  tiers: { id: string; name: string }[];
+};
+
+type Strategy = 'position' | 'tier' | 'segment';
+
+const inputClassName = "w-full px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder:text-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500/50";
+
+export function InvitationBatchForm({ tiers }: InvitationBatchFormProps) {
+  const router = useRouter();
+  const [strategy, setStrategy] = useState<Strategy>('position');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  
+  const onSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const form = new FormData(event.currentTarget);
+    const text = (name: string) => String(form.get(name) ?? '').trim() || undefined;
+    
+    const body = {
+      count: Number(form.get('count')),
+      strategy,
+      expiresInDays: Number(form.get('expiresInDays')),
+      verifiedOnly: form.get('verifiedOnly') === 'on',
+      reinviteExpired: form.get('reinviteExpired') === 'on',
+      tierId: strategy === 'tier' ? text('tierId') : undefined,
+      segment: strategy === 'segment'
+        ? { referrer: text('referrer'), joinedFrom: text('joinedFrom'), joinedTo: text('joinedTo') }
+        : undefined
+    };
+    
+    if (!window.confirm(`Invite up to ${body.count} subscribers? Each one is emailed an access code immediately.`)) {
+      return;
+    }
+    
+    setIsSubmitting(true);
+    setMessage(null);
+    
+    try {
+      const response = await fetch('/api/admin/invitations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      
+      const result = await response.json();
+      
+      if (response.ok && result.success) {
+        setMessage({ type: 'success', text: `${result.message} (${result.emailed} emailed)` });
+        router.refresh();
+      } else {
+        const details = result.errors ? Object.values(result.errors).flat().join(' ') : '';
+        setMessage({ type: 'error', text: details || result.message || 'Something went wrong. Please try again.' });
+      }
+    } catch {
+      setMessage({ type: 'error', text: 'Network error. Please try again later.' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+  
+  return (
+    <form onSubmit={onSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <label className="space-y-1 text-sm">
+          <span className="block text-white/90">Subscribers to invite</span>
+          <input name="count" type="number" min={1} max={1000} defaultValue={50} required className={inputClassName} />
+        </label>
+        <label className="space-y-1 text-sm">
+          <span className="block text-white/90">Select by</span>
+          <select
+            value={strategy}
+            onChange={(event) => setStrategy(event.target.value as Strategy)}
+            className={inputClassName}
+          >
+            <option value="position">Queue position</option>
+            <option value="tier">Reward tier</option>
+            <option value="segment">Segment</option>
+          </select>
+        </label>
+        <label className="space-y-1 text-sm">
+          <span className="block text-white/90">Code expires after (days)</span>
+          <input name="expiresInDays" type="number" min={1} max={90} defaultValue={14} required className={inputClassName} />
+        </label>
+      </div>
+      
+      {strategy === 'tier' && (
+        <label className="block space-y-1 text-sm">
+          <span className="block text-white/90">Reward tier</span>
+          <select name="tierId" required className={inputClassName}>
+            {tiers.map((tier) => (
+              <option key={tier.id} value={tier.id}>{tier.name}</option>
+            ))}
+          </select>
+        </label>
+      )}
+      
+      {strategy === 'segment' && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <label className="space-y-1 text-sm">
+            <span className="block text-white/90">Referrer</span>
+            <input name="referrer" type="text" placeholder="Code, email or none" className={inputClassName} />
+          </label>
+          <label className="space-y-1 text-sm">
+            <span className="block text-white/90">Joined from</span>
+            <input name="joinedFrom" type="date" className={inputClassName} />
+          </label>
+          <label className="space-y-1 text-sm">
+            <span className="block text-white/90">Joined to</span>
+            <input name="joinedTo" type="date" className={inputClassName} />
+          </label>
+        </div>
+      )}
+      
+      <div className="flex flex-wrap gap-6 text-sm text-white/90">
+        <label className="flex items-center gap-2">
+          <input name="verifiedOnly" type="checkbox" defaultChecked />
+          Verified subscribers only
+        </label>
+        <label className="flex items-center gap-2">
+          <input name="reinviteExpired" type="checkbox" />
+          Re-invite expired invitations
+        </label>
+      </div>
+      
+      {message && (
+        <div className={`p-3 rounded-lg border ${
+          message.type === 'success' ? 'bg-emerald-500/20 border-emerald-500/30' : 'bg-red-500/20 border-red-500/30'
+        }`}>
+          <p className={`text-sm ${message.type === 'success' ? 'text-emerald-300' : 'text-red-400'}`}>{message.text}</p>
+        </div>
+      )}
+      
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="px-6 py-2 bg-gradient-to-r from-purple-600 to-indigo-700 hover:opacity-90 text-white font-medium rounded-full shadow-lg shadow-purple-600/20 transition-all duration-300 disabled:opacity-70"
+      >
+        {isSubmitting ? 'Inviting...' : 'Send invitations'}
+      </button>
+    </form>
+  );
+}
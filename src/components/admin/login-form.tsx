@@ -0,0 +1,99 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { AdminLoginSchema, AdminLoginData } from '@/lib/validations/admin';
+
+export function AdminLoginForm() {
+  const router = useRouter();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  
+  const form = useForm<AdminLoginData>({
+    resolver: zodResolver(AdminLoginSchema),
+    defaultValues: {
+      username: '',
+      password: ''
+    }
+  });
+  
+  const onSubmit = async (data: AdminLoginData) => {
+    setIsSubmitting(true);
+    setErrorMessage(null);
+    
+    try {
+      const response = await fetch('/api/admin/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data)
+      });
+      
+      const result = await response.json();
+      
+      if (response.ok && result.success) {
+        router.push('/admin');
+        router.refresh();
+      } else {
+        setErrorMessage(result.message || 'Login failed. Please try again.');
+      }
+    } catch {
+      setErrorMessage('Network error. Please check your connection and try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+  
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+      <div className="space-y-1">
+        <label htmlFor="username" className="block text-sm font-medium text-white/90">
+          Username
+        </label>
+        <input
+          id="username"
+          type="text"
+          autoComplete="username"
+          {...form.register('username')}
+          className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder:text-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+          disabled={isSubmitting}
+        />
+        {form.formState.errors.username && (
+          <p className="text-sm text-red-400">{form.formState.errors.username.message}</p>
+        )}
+      </div>
+      
+      <div className="space-y-1">
+        <label htmlFor="password" className="block text-sm font-medium text-white/90">
+          Password
+        </label>
+        <input
+          id="password"
+          type="password"
+          autoComplete="current-password"
+          {...form.register('password')}
+          className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder:text-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+          disabled={isSubmitting}
+        />
+        {form.formState.errors.password && (
+          <p className="text-sm text-red-400">{form.formState.errors.password.message}</p>
+        )}
+      </div>
+      
+      {errorMessage && (
+        <div className="p-3 bg-red-500/20 border border-red-500/30 rounded-lg">
+          <p className="text-sm text-red-400">{errorMessage}</p>
+        </div>
+      )}
+      
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full px-6 py-3 bg-gradient-to-r from-purple-600 to-indigo-700 hover:opacity-90 text-white font-medium rounded-full shadow-lg shadow-purple-600/20 transition-all duration-300 disabled:opacity-70"
+      >
+        {isSubmitting ? 'Signing in...' : 'Sign in'}
+      </button>
+    </form>
+  );
+}
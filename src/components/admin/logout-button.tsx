@@ -0,0 +1,22 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+
+export function AdminLogoutButton() {
+  const router = useRouter();
+  
+  const logout = async () => {
+    await fetch('/api/admin/session', { method: 'DELETE' });
+    router.push('/admin/login');
+    router.refresh();
+  };
+  
+  return (
+    <button
+      onClick={logout}
+      className="px-4 py-2 text-sm bg-white/10 hover:bg-white/20 border border-white/20 rounded-lg text-white transition-all duration-200"
+    >
+      Log out
+    </button>
+  );
+}
@@ -0,0 +1,66 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import type { FraudStatus } from '@prisma/client';
+
+type ReferralReviewActionsProps = {
+  subscriberId: string;
+  status: FraudStatus;
+};
+
+export function ReferralReviewActions({ subscriberId, status }: ReferralReviewActionsProps) {
+  const router = useRouter();
+  const [isPending, setIsPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  
+  const review = async (decision: 'approve' | 'reject') => {
+    setIsPending(true);
+    setError(null);
+    
+    try {
+      const response = await fetch(`/api/admin/referrals/review/${subscriberId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision })
+      });
+      const result = await response.json();
+      
+      if (response.ok && result.success) {
+        router.refresh();
+      } else {
+        setError(result.message || 'Something went wrong. Please try again.');
+      }
+    } catch {
+      setError('Network error. Please try again later.');
+    } finally {
+      setIsPending(false);
+    }
+  };
+  
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-end gap-2">
+        {status !== 'approved' && (
+          <button
+            onClick={() => review('approve')}
+            disabled={isPending}
+            className="px-3 py-1 text-sm bg-emerald-500/20 hover:bg-emerald-500/40 border border-emerald-500/30 rounded-lg text-emerald-300 transition-all duration-200 disabled:opacity-70"
+          >
+            Approve
+          </button>
+        )}
+        {status !== 'rejected' && (
+          <button
+            onClick={() => review('reject')}
+            disabled={isPending}
+            className="px-3 py-1 text-sm bg-red-500/20 hover:bg-red-500/40 border border-red-500/30 rounded-lg text-red-300 transition-all duration-200 disabled:opacity-70"
+          >
+            Reject
+          </button>
+        )}
+      </div>
+      {error && <p className="text-sm text-red-400 text-right">{error}</p>}
+    </div>
+  );
+}
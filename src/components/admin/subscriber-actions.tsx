@@ -0,0 +1,78 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+type SubscriberActionsProps = {
+  subscriberId: string;
+  verified: boolean;
+};
+
+export function SubscriberActions({ subscriberId, verified }: SubscriberActionsProps) {
+  const router = useRouter();
+  const [isPending, setIsPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  
+  const run = async (init: RequestInit, onSuccess: () => void) => {
+    setIsPending(true);
+    setError(null);
+    
+    try {
+      const response = await fetch(`/api/admin/subscribers/${subscriberId}`, init);
+      const result = await response.json();
+      
+      if (response.ok && result.success) {
+        onSuccess();
+      } else {
+        setError(result.message || 'Something went wrong. Please try again.');
+      }
+    } catch {
+      setError('Network error. Please try again later.');
+    } finally {
+      setIsPending(false);
+    }
+  };
+  
+  const toggleVerified = () =>
+    run(
+      {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ verified: !verified })
+      },
+      () => router.refresh()
+    );
+  
+  const remove = () => {
+    if (!window.confirm('Delete this subscriber? Their referrals will stay on the waitlist without a referrer.')) {
+      return;
+    }
+    
+    run({ method: 'DELETE' }, () => {
+      router.push('/admin');
+      router.refresh();
+    });
+  };
+  
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <button
+          onClick={toggleVerified}
+          disabled={isPending}
+          className="px-4 py-2 text-sm bg-purple-600/40 hover:bg-purple-600/60 rounded-lg text-white transition-all duration-200 disabled:opacity-70"
+        >
+          {verified ? 'Mark unverified' : 'Mark verified'}
+        </button>
+        <button
+          onClick={remove}
+          disabled={isPending}
+          className="px-4 py-2 text-sm bg-red-500/20 hover:bg-red-500/40 border border-red-500/30 rounded-lg text-red-300 transition-all duration-200 disabled:opacity-70"
+        >
+          Delete
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+function useAdminRequest() {
+  const router = useRouter();
+  const [isPending, setIsPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  
+  const run = async (url: string, init: RequestInit) => {
+    setIsPending(true);
+    setError(null);
+    
+    try {
+      const response = await fetch(url, init);
+      const result = await response.json();
+      
+      if (response.ok && result.success) {
+        router.refresh();
+      } else {
+        setError(result.message || 'Something went wrong. Please try again.');
+      }
+    } catch {
+      setError('Network error. Please try again later.');
+    } finally {
+      setIsPending(false);
+    }
+  };
+  
+  return { isPending, error, run };
+}
+
+type WebhookEndpointActionsProps = {
+  endpointId: string;
+  active: boolean;
+};
+
+export function WebhookEndpointActions({ endpointId, active }: WebhookEndpointActionsProps) {
+  const { isPending, error, run } = useAdminRequest();
+  
+  const toggleActive = () =>
+    run(`/api/admin/webhooks/${endpointId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ active: !active })
+    });
+  
+  const remove = () => {
+    if (!window.confirm('Delete this endpoint and its delivery log?')) {
+      return;
+    }
+    
+    run(`/api/admin/webhooks/${endpointId}`, { method: 'DELETE' });
+  };
+  
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-2">
+        <button
+          onClick={toggleActive}
+          disabled={isPending}
+          className="px-3 py-1 text-sm bg-purple-600/40 hover:bg-purple-600/60 rounded-lg text-white transition-all duration-200 disabled:opacity-70"
+        >
+          {active ? 'Pause' : 'Resume'}
+        </button>
+        <button
+          onClick={remove}
+          disabled={isPending}
+          className="px-3 py-1 text-sm bg-red-500/20 hover:bg-red-500/40 border border-red-500/30 rounded-lg text-red-300 transition-all duration-200 disabled:opacity-70"
+        >
+          Delete
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+}
+
+export function ReplayDeliveryButton({ deliveryId }: { deliveryId: string }) {
+  const { isPending, error, run } = useAdminRequest();
+  
+  return (
+    <span className="inline-flex flex-col items-end">
+      <button
+        onClick={() => run(`/api/admin/webhooks/deliveries/${deliveryId}/replay`, { method: 'POST' })}
+        disabled={isPending}
+        className="px-3 py-1 text-sm bg-white/10 hover:bg-white/20 border border-white/20 rounded-lg disabled:opacity-70"
+      >
+        {isPending ? 'Queueing...' : 'Replay'}
+      </button>
+      {error && <span className="text-xs text-red-400">{error}</span>}
+    </span>
+  );
+}
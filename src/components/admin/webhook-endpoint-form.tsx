@@ -0,0 +1,96 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { WEBHOOK_EVENTS } from '@/lib/validations/admin';
+
+const inputClassName = "w-full px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder:text-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500/50";
+
+export function WebhookEndpointForm() {
+  const router = useRouter();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [secret, setSecret] = useState<string | null>(null);
+  
+  const onSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const formElement = event.currentTarget;
+    const form = new FormData(formElement);
+    
+    setIsSubmitting(true);
+    setErrorMessage(null);
+    setSecret(null);
+    
+    try {
+      const response = await fetch('/api/admin/webhooks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          url: String(form.get('url') ?? '').trim(),
+          description: String(form.get('description') ?? '').trim() || null,
+          events: form.getAll('events')
+        })
+      });
+      
+      const result = await response.json();
+      
+      if (response.ok && result.success) {
+        setSecret(result.endpoint.secret);
+        formElement.reset();
+        router.refresh();
+      } else {
+        const details = result.errors ? Object.values(result.errors).flat().join(' ') : '';
+        setErrorMessage(details || result.message || 'Something went wrong. Please try again.');
+      }
+    } catch {
+      setErrorMessage('Network error. Please try again later.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+  
+  return (
+    <form onSubmit={onSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="space-y-1 text-sm">
+          <span className="block text-white/90">Endpoint URL</span>
+          <input name="url" type="url" required placeholder="https://example.com/webhooks/cherry" className={inputClassName} />
+        </label>
+        <label className="space-y-1 text-sm">
+          <span className="block text-white/90">Description</span>
+          <input name="description" type="text" placeholder="CRM sync" className={inputClassName} />
+        </label>
+      </div>
+      
+      <div className="flex flex-wrap gap-6 text-sm text-white/90">
+        {WEBHOOK_EVENTS.map((eventName) => (
+          <label key={eventName} className="flex items-center gap-2 font-mono">
+            <input name="events" type="checkbox" value={eventName} defaultChecked />
+            {eventName}
+          </label>
+        ))}
+      </div>
+      
+      {errorMessage && (
+        <div className="p-3 bg-red-500/20 border border-red-500/30 rounded-lg">
+          <p className="text-sm text-red-400">{errorMessage}</p>
+        </div>
+      )}
+      
+      {secret && (
+        <div className="p-3 bg-emerald-500/20 border border-emerald-500/30 rounded-lg text-sm">
+          <p className="text-emerald-300">Endpoint added. Verify deliveries with this signing secret:</p>
+          <p className="font-mono text-white break-all">{secret}</p>
+        </div>
+      )}
+      
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="px-6 py-2 bg-gradient-to-r from-purple-600 to-indigo-700 hover:opacity-90 text-white font-medium rounded-full shadow-lg shadow-purple-600/20 transition-all duration-300 disabled:opacity-70"
+      >
+        {isSubmitting ? 'Adding...' : 'Add endpoint'}
+      </button>
+    </form>
+  );
+}
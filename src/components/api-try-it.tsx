@@ -0,0 +1,117 @@
+'use client';
+
+import { useState } from 'react';
+
+type Parameter = {
+  name: string;
+  required: boolean;
+  description?: string;
+};
+
+type ApiTryItProps = {
+  method: string;
+  path: string;
+  parameters: Parameter[];
+  // Pre-filled JSON request body, for endpoints that take one
+  exampleBody?: string;
+};
+
+type TryItResult = {
+  status: number;
+  body: string;
+};
+
+// Sends a live request to one endpoint from the API docs page
+export function ApiTryIt({ method, path, parameters, exampleBody }: ApiTryItProps) {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [body, setBody] = useState(exampleBody ?? '');
+  const [isLoading, setIsLoading] = useState(false);
+  const [result, setResult] = useState<TryItResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const send = async () => {
+    setIsLoading(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      const params = new URLSearchParams(
+        Object.entries(values).filter(([, value]) => value !== '')
+      );
+      const search = params.toString();
+
+      const response = await fetch(search ? `${path}?${search}` : path, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: exampleBody === undefined ? undefined : body
+      });
+
+      const text = await response.text();
+      let formatted = text;
+
+      try {
+        formatted = JSON.stringify(JSON.parse(text), null, 2);
+      } catch {
+        // Not JSON; show it as is
+      }
+
+      setResult({ status: response.status, body: formatted });
+    } catch {
+      setError('Network error. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {parameters.map((parameter) => (
+        <div key={parameter.name} className="space-y-1">
+          <label htmlFor={`${method}-${path}-${parameter.name}`} className="block text-sm font-mono text-white/90">
+            {parameter.name}
+            {parameter.required && <span className="text-red-400"> *</span>}
+          </label>
+          <input
+            id={`${method}-${path}-${parameter.name}`}
+            type="text"
+            placeholder={parameter.description}
+            value={values[parameter.name] ?? ''}
+            onChange={(event) => setValues({ ...values, [parameter.name]: event.target.value })}
+            className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-sm text-white placeholder:text-white/40 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+          />
+        </div>
+      ))}
+
+      {exampleBody !== undefined && (
+        <textarea
+          aria-label="Request body"
+          value={body}
+          onChange={(event) => setBody(event.target.value)}
+          rows={Math.min(12, body.split('\n').length + 1)}
+          className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-sm font-mono text-white focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+        />
+      )}
+
+      <button
+        onClick={send}
+        disabled={isLoading}
+        className="px-4 py-2 text-sm bg-purple-600/60 hover:bg-purple-600/80 text-white rounded-lg transition-all duration-200 disabled:opacity-60"
+      >
+        {isLoading ? 'Sending...' : 'Send request'}
+      </button>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {result && (
+        <div className="space-y-1">
+          <p className={`text-sm font-mono ${result.status < 400 ? 'text-green-400' : 'text-red-400'}`}>
+            HTTP {result.status}
+          </p>
+          <pre className="p-3 bg-black/40 border border-white/10 rounded-lg text-xs text-white/80 overflow-x-auto">
+            {result.body}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+'use client';
+
+import { useEffect } from 'react';
+import { captureAttribution } from '@/lib/attribution';
+
+// Rendered once in the root layout so whichever page a visitor lands on is
+// recorded as their first touch
+export function AttributionCapture() {
+  useEffect(() => {
+    captureAttribution();
+  }, []);
+  
+  return null;
+}
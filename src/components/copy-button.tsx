@@ -0,0 +1,32 @@
+'use client';
+
+import { useState } from 'react';
+
+type CopyButtonProps = {
+  value: string;
+  label: string;
+};
+
+export function CopyButton({ value, label }: CopyButtonProps) {
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(value);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy: ', err);
+    }
+  };
+
+  return (
+    <button
+      onClick={copy}
+      aria-label={label}
+      className="px-3 py-2 text-sm bg-purple-600/40 hover:bg-purple-600/60 text-white rounded-lg transition-all duration-200"
+    >
+      {copied ? 'Copied!' : 'Copy'}
+    </button>
+  );
+}
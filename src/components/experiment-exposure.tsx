@@ -0,0 +1,19 @@
+'use client';
+
+import { useEffect } from 'react';
+import type { ExperimentKey } from '@/lib/experiments';
+
+// Render next to experiment content to log that the visitor saw their variant.
+// Logged from the browser so prefetches and bots that don't run scripts
+// aren't counted.
+export function ExperimentExposure({ experiment }: { experiment: ExperimentKey }) {
+  useEffect(() => {
+    fetch('/api/experiments/exposure', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ experiment })
+    }).catch(() => {});
+  }, [experiment]);
+  
+  return null;
+}
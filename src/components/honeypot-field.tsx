@@ -0,0 +1,21 @@
+import type { Ref } from 'react';
+import { HONEYPOT_FIELD } from '@/lib/bot-protection';
+
+// Visually hidden input that only bots fill in. Kept out of the tab order and
+// the accessibility tree so real users never interact with it.
+export function HoneypotField({ ref }: { ref: Ref<HTMLInputElement> }) {
+  return (
+    <div aria-hidden="true" className="absolute -left-[9999px] h-px w-px overflow-hidden">
+      <label htmlFor={HONEYPOT_FIELD}>Leave this field empty</label>
+      <input
+        ref={ref}
+        id={HONEYPOT_FIELD}
+        name={HONEYPOT_FIELD}
+        type="text"
+        tabIndex={-1}
+        autoComplete="off"
+        defaultValue=""
+      />
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { api } from '@/lib/api/contract';
+import { callApi } from '@/lib/api/client';
+import type { Leaderboard as LeaderboardData, LeaderboardWindow } from '@/lib/leaderboard';
+import { useTranslations } from '@/hooks/use-translations';
+import type { MessageKey } from '@/lib/i18n';
+
+const WINDOW_LABELS: Record<LeaderboardWindow, MessageKey> = {
+  all: 'leaderboard.window.all',
+  '30d': 'leaderboard.window.30d',
+  '7d': 'leaderboard.window.7d'
+};
+
+type LeaderboardProps = {
+  // Referral code of the viewer, to show their own rank
+  code?: string;
+  limit?: number;
+};
+
+export function Leaderboard({ code, limit = 10 }: LeaderboardProps) {
+  const [selectedWindow, setSelectedWindow] = useState<LeaderboardWindow>('all');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [data, setData] = useState<LeaderboardData | null>(null);
+  const { locale, t } = useTranslations();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const result = await callApi(api.leaderboard, {
+          query: { window: selectedWindow, limit, code }
+        });
+
+        if (cancelled) return;
+
+        if (result.ok) {
+          setData({ entries: result.data.leaderboard, you: result.data.you });
+        } else {
+          setError(result.error.error === 'unexpected_response' ? t('leaderboard.failed') : result.error.message);
+        }
+      } catch {
+        if (!cancelled) setError(t('form.networkError'));
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedWindow, code, limit, t]);
+
+  return (
+    <div className="w-full max-w-md mx-auto">
+      <div className="p-6 bg-black/20 backdrop-blur-xl border border-white/10 rounded-xl">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-medium text-white">{t('leaderboard.title')}</h3>
+          <div className="flex gap-1 p-1 bg-white/5 border border-white/10 rounded-lg">
+            {(Object.keys(WINDOW_LABELS) as LeaderboardWindow[]).map((key) => (
+              <button
+                key={key}
+                onClick={() => setSelectedWindow(key)}
+                className={`px-2 py-1 text-xs rounded-md transition-all duration-200 ${
+                  selectedWindow === key ? 'bg-purple-600/60 text-white' : 'text-white/60 hover:text-white'
+                }`}
+              >
+                {t(WINDOW_LABELS[key])}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-500/20 border border-red-500/30 rounded-lg mb-4">
+            <p className="text-sm text-red-400">{error}</p>
+          </div>
+        )}
+
+        {isLoading && !data ? (
+          <p className="text-center text-white/60 py-4">{t('leaderboard.loading')}</p>
+        ) : data && data.entries.length > 0 ? (
+          <ol className={`space-y-2 ${isLoading ? 'opacity-60' : ''}`}>
+            {data.entries.map((entry) => (
+              <li key={entry.rank} className="flex justify-between items-center p-3 bg-white/5 border border-white/10 rounded-lg">
+                <div className="flex items-center gap-3">
+                  <span className="w-6 text-right font-mono text-white/60">{entry.rank}</span>
+                  <span className="text-white">{entry.name}</span>
+                </div>
+                <span className="text-sm text-white/70">{t('leaderboard.referrals', { count: entry.referrals.toLocaleString(locale) })}</span>
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <p className="text-center text-white/60 py-4">
+            {t('leaderboard.empty')}
+          </p>
+        )}
+
+        {data?.you && (
+          <div className="mt-4 p-3 bg-purple-600/20 border border-purple-500/30 rounded-lg flex justify-between items-center">
+            <span className="text-white">{t('leaderboard.yourRank')}</span>
+            <span className="text-white font-medium">
+              {data.you.rank ? `#${data.you.rank.toLocaleString(locale)}` : t('leaderboard.unranked')}
+              <span className="text-sm text-white/70"> · {t('leaderboard.referrals', { count: data.you.referrals.toLocaleString(locale) })}</span>
+            </span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
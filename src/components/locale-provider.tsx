@@ -0,0 +1,12 @@
+'use client';
+
+import { createContext, type ReactNode } from 'react';
+import { DEFAULT_LOCALE, type Locale } from '@/lib/i18n';
+
+export const LocaleContext = createContext<Locale>(DEFAULT_LOCALE);
+
+// Makes the page's locale (resolved on the server) available to client
+// components through useTranslations()
+export function LocaleProvider({ locale, children }: { locale: Locale; children: ReactNode }) {
+  return <LocaleContext.Provider value={locale}>{children}</LocaleContext.Provider>;
+}
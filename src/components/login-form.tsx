@@ -0,0 +1,84 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { api, type EndpointBody } from '@/lib/api/contract';
+import { callApi } from '@/lib/api/client';
+import { useTranslations } from '@/hooks/use-translations';
+import { zodErrorMap } from '@/lib/i18n/zod';
+
+type LoginFormData = EndpointBody<typeof api.requestLogin>;
+
+// Asks for a magic sign-in link
+export function LoginForm() {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const { locale, t, tm } = useTranslations();
+  
+  const form = useForm<LoginFormData>({
+    resolver: zodResolver(api.requestLogin.body, { errorMap: zodErrorMap(locale) }),
+    defaultValues: {
+      email: ''
+    }
+  });
+  
+  const onSubmit = async (data: LoginFormData) => {
+    setIsSubmitting(true);
+    setMessage(null);
+    
+    try {
+      const result = await callApi(api.requestLogin, { body: data });
+      
+      setMessage(
+        result.ok
+          ? { type: 'success', text: result.data.message }
+          : {
+              type: 'error',
+              text: result.error.error === 'unexpected_response' ? t('form.unexpectedError') : result.error.message
+            }
+      );
+    } catch {
+      setMessage({ type: 'error', text: t('form.networkError') });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+  
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 text-left">
+      <div className="space-y-1">
+        <label htmlFor="login-email" className="block text-sm font-medium text-white/90">
+          {t('form.email.label')}
+        </label>
+        <input
+          id="login-email"
+          type="email"
+          placeholder={t('form.email.placeholder')}
+          {...form.register('email')}
+          className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder:text-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+          disabled={isSubmitting}
+        />
+        {form.formState.errors.email && (
+          <p className="text-sm text-red-400">{tm(form.formState.errors.email.message ?? '')}</p>
+        )}
+      </div>
+      
+      {message && (
+        <div className={`p-3 rounded-lg border ${
+          message.type === 'success' ? 'bg-emerald-500/20 border-emerald-500/30' : 'bg-red-500/20 border-red-500/30'
+        }`}>
+          <p className={`text-sm ${message.type === 'success' ? 'text-emerald-300' : 'text-red-400'}`}>{message.text}</p>
+        </div>
+      )}
+      
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full px-6 py-3 bg-gradient-to-r from-purple-600 to-indigo-700 hover:opacity-90 text-white font-medium rounded-full shadow-lg shadow-purple-600/20 transition-all duration-300 disabled:opacity-70"
+      >
+        {isSubmitting ? t('auth.login.sending') : t('auth.login.submit')}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { api } from '@/lib/api/contract';
+import { callApi } from '@/lib/api/client';
+import { useTranslations } from '@/hooks/use-translations';
+
+type MagicLinkSignInProps = {
+  token: string;
+};
+
+// Uses the magic link on click rather than on page load, so link scanners in
+// mail clients can't use it up
+export function MagicLinkSignIn({ token }: MagicLinkSignInProps) {
+  const router = useRouter();
+  const [isPending, setIsPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { t } = useTranslations();
+  
+  const signIn = async () => {
+    setIsPending(true);
+    setError(null);
+    
+    try {
+      const result = await callApi(api.startSession, { body: { token } });
+      
+      if (result.ok) {
+        router.replace('/me');
+        router.refresh();
+        return;
+      }
+      
+      setError(result.error.error === 'unexpected_response' ? t('form.unexpectedError') : result.error.message);
+    } catch {
+      setError(t('form.networkError'));
+    }
+    
+    setIsPending(false);
+  };
+  
+  return (
+    <div className="space-y-4">
+      <h1 className="text-2xl font-medium tracking-tight text-white">{t('auth.magicLink.title')}</h1>
+      <p className="text-white/80">{t('auth.magicLink.body')}</p>
+      
+      {error && <p className="text-red-400">{error}</p>}
+      
+      <button
+        onClick={signIn}
+        disabled={isPending}
+        className="px-6 py-3 bg-gradient-to-r from-purple-600 to-indigo-700 hover:opacity-90 text-white font-medium rounded-full shadow-lg shadow-purple-600/20 transition-all duration-300 disabled:opacity-70"
+      >
+        {isPending ? t('auth.magicLink.pending') : t('auth.magicLink.continue')}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+'use client';
+
+import { usePageView } from '@/hooks/use-analytics';
+
+// Drop into a server-rendered page to record a page view
+export function PageViewTracker() {
+  usePageView();
+  return null;
+}
@@ -0,0 +1,87 @@
+'use client';
+
+import { useState } from 'react';
+import type { PrivacyPurpose } from '@/lib/privacy';
+import { useTranslations } from '@/hooks/use-translations';
+import type { MessageKey } from '@/lib/i18n';
+
+type PrivacyActionProps = {
+  purpose: PrivacyPurpose;
+  token: string;
+};
+
+const COPY: Record<PrivacyPurpose, { title: MessageKey; body: MessageKey; action: MessageKey }> = {
+  export: {
+    title: 'privacy.export.title',
+    body: 'privacy.export.body',
+    action: 'privacy.export.action'
+  },
+  unsubscribe: {
+    title: 'privacy.unsubscribe.title',
+    body: 'privacy.unsubscribe.body',
+    action: 'privacy.unsubscribe.action'
+  },
+  delete: {
+    title: 'privacy.delete.title',
+    body: 'privacy.delete.body',
+    action: 'privacy.delete.action'
+  }
+};
+
+export function PrivacyAction({ purpose, token }: PrivacyActionProps) {
+  const [isPending, setIsPending] = useState(false);
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
+  const copy = COPY[purpose];
+  const { t } = useTranslations();
+  
+  const run = async () => {
+    if (purpose === 'export') {
+      window.location.href = `/api/privacy/export?token=${encodeURIComponent(token)}`;
+      return;
+    }
+    
+    if (purpose === 'delete' && !window.confirm(t('privacy.delete.confirm'))) {
+      return;
+    }
+    
+    setIsPending(true);
+    
+    try {
+      const response = await fetch(`/api/privacy/${purpose}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token })
+      });
+      
+      const data = await response.json();
+      setResult({ success: response.ok && data.success, message: data.message || t('form.unexpectedError') });
+    } catch {
+      setResult({ success: false, message: t('form.networkError') });
+    } finally {
+      setIsPending(false);
+    }
+  };
+  
+  return (
+    <div className="space-y-4">
+      <h1 className="text-2xl font-medium tracking-tight text-white">{t(copy.title)}</h1>
+      <p className="text-white/80">{t(copy.body)}</p>
+      
+      {result ? (
+        <p className={result.success ? 'text-emerald-300' : 'text-red-400'}>{result.message}</p>
+      ) : (
+        <button
+          onClick={run}
+          disabled={isPending}
+          className={`px-6 py-3 font-medium rounded-full transition-all duration-300 disabled:opacity-70 ${
+            purpose === 'delete'
+              ? 'bg-red-500/20 hover:bg-red-500/40 border border-red-500/30 text-red-300'
+              : 'bg-gradient-to-r from-purple-600 to-indigo-700 hover:opacity-90 text-white shadow-lg shadow-purple-600/20'
+          }`}
+        >
+          {isPending ? t('privacy.working') : t(copy.action)}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useTranslations } from '@/hooks/use-translations';
+import { msg } from '@/lib/i18n';
+import { zodErrorMap } from '@/lib/i18n/zod';
+
+const PrivacyRequestSchema = z.object({
+  email: z.string().email({ message: msg('validation.email.invalid') })
+});
+
+type PrivacyRequestFormData = z.infer<typeof PrivacyRequestSchema>;
+
+export function PrivacyRequestForm() {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const { locale, t, tm } = useTranslations();
+  
+  const form = useForm<PrivacyRequestFormData>({
+    resolver: zodResolver(PrivacyRequestSchema, { errorMap: zodErrorMap(locale) }),
+    defaultValues: {
+      email: ''
+    }
+  });
+  
+  const onSubmit = async (data: PrivacyRequestFormData) => {
+    setIsSubmitting(true);
+    setMessage(null);
+    
+    try {
+      const response = await fetch('/api/privacy/request', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data)
+      });
+      
+      const result = await response.json();
+      
+      setMessage({
+        type: response.ok && result.success ? 'success' : 'error',
+        text: result.message || t('form.unexpectedError')
+      });
+    } catch {
+      setMessage({ type: 'error', text: t('form.networkError') });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+  
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 text-left">
+      <div className="space-y-1">
+        <label htmlFor="privacy-email" className="block text-sm font-medium text-white/90">
+          {t('form.email.label')}
+        </label>
+        <input
+          id="privacy-email"
+          type="email"
+          placeholder={t('form.email.placeholder')}
+          {...form.register('email')}
+          className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder:text-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+          disabled={isSubmitting}
+        />
+        {form.formState.errors.email && (
+          <p className="text-sm text-red-400">{tm(form.formState.errors.email.message ?? '')}</p>
+        )}
+      </div>
+      
+      {message && (
+        <div className={`p-3 rounded-lg border ${
+          message.type === 'success' ? 'bg-emerald-500/20 border-emerald-500/30' : 'bg-red-500/20 border-red-500/30'
+        }`}>
+          <p className={`text-sm ${message.type === 'success' ? 'text-emerald-300' : 'text-red-400'}`}>{message.text}</p>
+        </div>
+      )}
+      
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full px-6 py-3 bg-gradient-to-r from-purple-600 to-indigo-700 hover:opacity-90 text-white font-medium rounded-full shadow-lg shadow-purple-600/20 transition-all duration-300 disabled:opacity-70"
+      >
+        {isSubmitting ? t('privacy.request.sending') : t('privacy.request.submit')}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,112 @@
+import type { SubscriberDashboard } from '@/lib/subscriber-dashboard';
+import { CopyButton } from '@/components/copy-button';
+
+type ReferralDashboardProps = {
+  dashboard: SubscriberDashboard;
+};
+
+// The signed-in subscriber's code, place in line, rewards and referrals
+export function ReferralDashboard({ dashboard }: ReferralDashboardProps) {
+  const { position, rewards, referrals } = dashboard;
+
+  return (
+    <div className="space-y-4">
+      {dashboard.referralCode && (
+        <div className="p-4 bg-white/5 border border-white/10 rounded-lg">
+          <p className="text-sm text-white/70 mb-2">Your referral code</p>
+          <div className="flex items-center gap-2">
+            <span className="bg-white/10 border border-white/20 rounded-lg px-4 py-2 text-white font-mono text-lg">
+              {dashboard.referralCode}
+            </span>
+            <CopyButton value={dashboard.referralCode} label="Copy referral code" />
+          </div>
+        </div>
+      )}
+
+      {!dashboard.verified && (
+        <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg">
+          <p className="text-sm text-yellow-300">
+            Confirm your email address to keep your spot. Check your inbox for the verification link.
+          </p>
+        </div>
+      )}
+
+      {position && (
+        <div className="p-4 bg-white/5 border border-white/10 rounded-lg">
+          <p className="text-sm text-white/70">Your place in line</p>
+          <p className="text-2xl font-medium text-white">
+            #{position.position.toLocaleString()}
+            <span className="text-base text-white/60"> of {position.total.toLocaleString()}</span>
+          </p>
+          {position.position < position.signupOrder && (
+            <p className="text-sm text-emerald-400 mt-1">
+              Up {(position.signupOrder - position.position).toLocaleString()} places thanks to your referrals
+            </p>
+          )}
+        </div>
+      )}
+
+      {(rewards.unlocked.length > 0 || rewards.next) && (
+        <div className="p-4 bg-white/5 border border-white/10 rounded-lg space-y-3">
+          <p className="text-sm text-white/70">Rewards</p>
+          {rewards.unlocked.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {rewards.unlocked.map((reward) => (
+                <span
+                  key={reward.threshold}
+                  title={reward.description ?? undefined}
+                  className="px-3 py-1 text-sm bg-emerald-500/20 border border-emerald-500/30 rounded-full text-emerald-300"
+                >
+                  {reward.name}
+                </span>
+              ))}
+            </div>
+          )}
+          {rewards.next && (
+            <div>
+              <div className="flex justify-between text-sm text-white/80 mb-1">
+                <span>Next: {rewards.next.name}</span>
+                <span>
+                  {rewards.next.remaining} more verified referral{rewards.next.remaining === 1 ? '' : 's'}
+                </span>
+              </div>
+              <div className="h-2 bg-white/10 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-gradient-to-r from-purple-600 to-indigo-700"
+                  style={{
+                    width: `${Math.min(100, ((rewards.next.threshold - rewards.next.remaining) / rewards.next.threshold) * 100)}%`
+                  }}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {referrals.length > 0 ? (
+        <div>
+          <h4 className="text-lg font-medium text-white mb-2">
+            Your Referrals <span className="text-sm text-white/60">({rewards.verifiedReferrals} verified)</span>
+          </h4>
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {referrals.map((referral, index) => (
+              <div key={index} className="flex justify-between items-center p-3 bg-white/5 border border-white/10 rounded-lg">
+                <div className="text-white">
+                  {referral.email}
+                  {!referral.verified && <span className="ml-2 text-xs text-yellow-300">pending</span>}
+                </div>
+                <div className="text-sm text-white/60">
+                  {referral.date.toLocaleDateString()}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <p className="text-center text-white/60 py-4">
+          You don&apos;t have any referrals yet. Share your code to start earning rewards!
+        </p>
+      )}
+    </div>
+  );
+}
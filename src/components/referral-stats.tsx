@@ -1,34 +1,37 @@
 'use client';
 
 import { useState } from 'react';
+import Link from 'next/link';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
+import { api, ReferralCodeParam, type EndpointResponse } from '@/lib/api/contract';
+import { callApi } from '@/lib/api/client';
+import type { QueuePosition } from '@/lib/position';
+import { isMistypedReferralCode } from '@/lib/referral-code';
+import { useTranslations } from '@/hooks/use-translations';
+import { msg } from '@/lib/i18n';
+import { zodErrorMap } from '@/lib/i18n/zod';
 
-// Define validation schema for the referral code
+// The API's own rules, plus a check for codes that look mistyped
 const ReferralCodeSchema = z.object({
-  code: z.string().min(3, { message: 'Referral code is too short' }).max(20, { message: 'Referral code is too long' })
+  code: ReferralCodeParam.refine((code) => !isMistypedReferralCode(code), msg('validation.referralCode.mistyped'))
 });
 
-type ReferralCodeFormData = z.infer<typeof ReferralCodeSchema>;
+type ReferralCodeFormInput = z.input<typeof ReferralCodeSchema>;
+type ReferralCodeFormData = z.output<typeof ReferralCodeSchema>;
 
-type Referral = {
-  date: string;
-  email: string;
-};
-
-type ReferralStats = {
-  totalReferrals: number;
-  referrals: Referral[];
-};
+type ReferralStats = EndpointResponse<typeof api.referrals>['stats'];
 
 export function ReferralStats() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [stats, setStats] = useState<ReferralStats | null>(null);
+  const [position, setPosition] = useState<QueuePosition | null>(null);
+  const { locale, t, tm } = useTranslations();
   
-  const form = useForm<ReferralCodeFormData>({
-    resolver: zodResolver(ReferralCodeSchema),
+  const form = useForm<ReferralCodeFormInput, unknown, ReferralCodeFormData>({
+    resolver: zodResolver(ReferralCodeSchema, { errorMap: zodErrorMap(locale) }),
     defaultValues: {
       code: ''
     }
@@ -39,20 +42,19 @@ export function ReferralStats() {
     setError(null);
     
     try {
-      const response = await fetch(`/api/waitlist/referrals?code=${encodeURIComponent(data.code)}`, {
-        method: 'GET',
-        headers: { 'Content-Type': 'application/json' }
-      });
-      
-      const result = await response.json();
+      const [result, positionResult] = await Promise.all([
+        callApi(api.referrals, { query: { code: data.code } }),
+        callApi(api.position, { query: { code: data.code } })
+      ]);
       
-      if (response.ok && result.success) {
-        setStats(result.stats);
+      if (result.ok) {
+        setStats(result.data.stats);
+        setPosition(positionResult.ok ? positionResult.data.position : null);
       } else {
-        setError(result.message || 'Failed to fetch referral stats');
+        setError(result.error.error === 'unexpected_response' ? t('referralStats.failed') : result.error.message);
       }
-    } catch (error) {
-      setError('Network error. Please try again later.');
+    } catch {
+      setError(t('form.networkError'));
     } finally {
       setIsLoading(false);
     }
@@ -61,20 +63,20 @@ export function ReferralStats() {
   return (
     <div className="w-full max-w-md mx-auto">
       <div className="p-6 bg-black/20 backdrop-blur-xl border border-white/10 rounded-xl">
-        <h3 className="text-xl font-medium text-white mb-4">Check Your Referrals</h3>
+        <h3 className="text-xl font-medium text-white mb-4">{t('referralStats.title')}</h3>
         
         <form onSubmit={form.handleSubmit(onSubmit)} className="mb-6">
           <div className="flex gap-2">
             <div className="flex-grow">
               <input
                 type="text"
-                placeholder="Enter your referral code"
+                placeholder={t('referralStats.placeholder')}
                 {...form.register('code')}
                 className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder:text-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
                 disabled={isLoading}
               />
               {form.formState.errors.code && (
-                <p className="mt-1 text-sm text-red-400">{form.formState.errors.code.message}</p>
+                <p className="mt-1 text-sm text-red-400">{tm(form.formState.errors.code.message ?? '')}</p>
               )}
             </div>
             <button
@@ -82,7 +84,7 @@ export function ReferralStats() {
               disabled={isLoading}
               className="px-4 py-3 bg-gradient-to-r from-purple-600 to-indigo-700 hover:opacity-90 text-white font-medium rounded-lg shadow-lg shadow-purple-600/20 transition-all duration-300 whitespace-nowrap"
             >
-              {isLoading ? 'Loading...' : 'Check'}
+              {isLoading ? t('referralStats.loading') : t('referralStats.submit')}
             </button>
           </div>
         </form>
@@ -103,31 +105,37 @@ export function ReferralStats() {
                   </svg>
                 </div>
                 <div>
-                  <p className="text-sm text-white/70">Total Referrals</p>
+                  <p className="text-sm text-white/70">{t('referralStats.totalReferrals')}</p>
                   <p className="text-2xl font-medium text-white">{stats.totalReferrals}</p>
                 </div>
               </div>
             </div>
             
-            {stats.referrals.length > 0 ? (
-              <div>
-                <h4 className="text-lg font-medium text-white mb-2">Your Referrals</h4>
-                <div className="space-y-2 max-h-60 overflow-y-auto">
-                  {stats.referrals.map((referral, index) => (
-                    <div key={index} className="flex justify-between items-center p-3 bg-white/5 border border-white/10 rounded-lg">
-                      <div className="text-white">{referral.email}</div>
-                      <div className="text-sm text-white/60">
-                        {new Date(referral.date).toLocaleDateString()}
-                      </div>
-                    </div>
-                  ))}
-                </div>
+            {position && (
+              <div className="p-4 bg-white/5 border border-white/10 rounded-lg">
+                <p className="text-sm text-white/70">{t('form.position.label')}</p>
+                <p className="text-2xl font-medium text-white">
+                  #{position.position.toLocaleString(locale)}
+                  <span className="text-base text-white/60">
+                    {' '}{t('form.position.of', { total: position.total.toLocaleString(locale) })}
+                  </span>
+                </p>
+                {position.position < position.signupOrder && (
+                  <p className="text-sm text-emerald-400 mt-1">
+                    {t('referralStats.movedUp', {
+                      places: (position.signupOrder - position.position).toLocaleString(locale)
+                    })}
+                  </p>
+                )}
               </div>
-            ) : (
-              <p className="text-center text-white/60 py-4">
-                You don't have any referrals yet. Share your code to start earning rewards!
-              </p>
             )}
+            
+            <p className="text-center text-sm text-white/60">
+              {t('referralStats.signInPrompt')}{' '}
+              <Link href="/login" className="text-purple-300 hover:underline">
+                {t('referralStats.signIn')}
+              </Link>
+            </p>
           </div>
         )}
       </div>
@@ -0,0 +1,34 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { api } from '@/lib/api/contract';
+import { callApi } from '@/lib/api/client';
+import { useTranslations } from '@/hooks/use-translations';
+
+export function SignOutButton() {
+  const router = useRouter();
+  const [isPending, setIsPending] = useState(false);
+  const { t } = useTranslations();
+  
+  const signOut = async () => {
+    setIsPending(true);
+    
+    try {
+      await callApi(api.endSession, {});
+    } finally {
+      router.replace('/login');
+      router.refresh();
+    }
+  };
+  
+  return (
+    <button
+      onClick={signOut}
+      disabled={isPending}
+      className="text-sm text-white/60 hover:text-white transition-colors disabled:opacity-60"
+    >
+      {isPending ? t('auth.signingOut') : t('auth.signOut')}
+    </button>
+  );
+}
@@ -1,4 +1,15 @@
-export function WaitlistStats({ count }: { count: number }) {
+'use client';
+
+import { useAnimatedNumber } from '@/hooks/use-animated-number';
+import { useWaitlistCount } from '@/hooks/use-waitlist-count';
+import { useTranslations } from '@/hooks/use-translations';
+
+// `initialCount` is the count the page was rendered with; the counter then
+// follows the live count stream
+export function WaitlistStats({ initialCount }: { initialCount: number }) {
+  const count = useAnimatedNumber(useWaitlistCount(initialCount));
+  const { locale, t } = useTranslations();
+  
   return (
     <div className="relative px-6 py-4 bg-black/10 backdrop-blur-md border border-white/10 rounded-xl">
       <div className="flex items-center">
@@ -8,10 +19,10 @@ export function WaitlistStats({ count }: { count: number }) {
           </svg>
         </div>
         <div>
-          <p className="text-sm text-white/70">People waiting</p>
-          <p className="text-xl font-medium text-white">{count.toLocaleString()}</p>
+          <p className="text-sm text-white/70">{t('stats.peopleWaiting')}</p>
+          <p className="text-xl font-medium text-white tabular-nums" aria-live="polite">{count.toLocaleString(locale)}</p>
         </div>
       </div>
     </div>
   );
-} 
\ No newline at end of file
+}
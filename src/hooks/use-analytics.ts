@@ -0,0 +1,79 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+import type { ClientEventType } from '@/lib/analytics';
+
+// A session ends after 30 minutes without any tracked activity
+const SESSION_STORAGE_KEY = 'cherry_analytics_session';
+const SESSION_IDLE_MS = 30 * 60 * 1000;
+
+type StoredSession = {
+  id: string;
+  lastSeenAt: number;
+};
+
+function isTrackingAllowed(): boolean {
+  return typeof window !== 'undefined' && navigator.doNotTrack !== '1';
+}
+
+// Returns the current session id, starting a new session when the last one
+// went idle. Also sent with signups so they can be tied back to a visit.
+export function getAnalyticsSessionId(): string | undefined {
+  if (!isTrackingAllowed()) {
+    return undefined;
+  }
+  
+  try {
+    const stored = JSON.parse(localStorage.getItem(SESSION_STORAGE_KEY) ?? 'null') as StoredSession | null;
+    const now = Date.now();
+    const id = stored && now - stored.lastSeenAt < SESSION_IDLE_MS ? stored.id : crypto.randomUUID();
+    
+    localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify({ id, lastSeenAt: now }));
+    return id;
+  } catch {
+    // Storage can be unavailable, e.g. in some private browsing modes
+    return undefined;
+  }
+}
+
+export function trackEvent(type: ClientEventType) {
+  const sessionId = getAnalyticsSessionId();
+  
+  if (!sessionId) {
+    return;
+  }
+  
+  const body = JSON.stringify({
+    sessionId,
+    type,
+    path: window.location.pathname,
+    referrer: document.referrer || undefined
+  });
+  
+  // sendBeacon survives navigation away from the page
+  if (navigator.sendBeacon?.('/api/events', body)) {
+    return;
+  }
+  
+  fetch('/api/events', { method: 'POST', body, keepalive: true }).catch(() => {});
+}
+
+// Records one page view when the calling component mounts
+export function usePageView() {
+  useEffect(() => {
+    trackEvent('page_view');
+  }, []);
+}
+
+// Returns a handler that records a form start the first time it runs, meant
+// for a form's onFocus so only engaged visitors count
+export function useFormStart() {
+  const started = useRef(false);
+  
+  return useCallback(() => {
+    if (!started.current) {
+      started.current = true;
+      trackEvent('form_start');
+    }
+  }, []);
+}
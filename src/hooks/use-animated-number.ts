@@ -0,0 +1,41 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+
+// Eases from the displayed value to `target` whenever it changes. Users who
+// prefer reduced motion see the new value right away.
+export function useAnimatedNumber(target: number, durationMs = 800) {
+  const [value, setValue] = useState(target);
+  const valueRef = useRef(target);
+  
+  useEffect(() => {
+    const from = valueRef.current;
+    
+    if (from === target || window.matchMedia('(prefers-reduced-motion: reduce)').matches) {
+      valueRef.current = target;
+      setValue(target);
+      return;
+    }
+    
+    const startedAt = performance.now();
+    let frame = 0;
+    
+    const step = (now: number) => {
+      const progress = Math.min(1, (now - startedAt) / durationMs);
+      // Ease-out cubic
+      const eased = 1 - Math.pow(1 - progress, 3);
+      
+      valueRef.current = Math.round(from + (target - from) * eased);
+      setValue(valueRef.current);
+      
+      if (progress < 1) {
+        frame = requestAnimationFrame(step);
+      }
+    };
+    
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [target, durationMs]);
+  
+  return value;
+}
@@ -0,0 +1,27 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+import type { BotSignals } from '@/lib/bot-protection';
+
+// Tracks how long the form has been open and exposes a ref for the honeypot
+// input, so a submit handler can attach both signals to its payload.
+export function useBotSignals() {
+  const startedAt = useRef<number | null>(null);
+  const honeypotRef = useRef<HTMLInputElement>(null);
+  
+  useEffect(() => {
+    startedAt.current = Date.now();
+  }, []);
+  
+  const collect = useCallback((): BotSignals => ({
+    website: honeypotRef.current?.value ?? '',
+    fillTimeMs: startedAt.current === null ? undefined : Date.now() - startedAt.current
+  }), []);
+  
+  // Restart the timer, e.g. after the form has been reset
+  const restart = useCallback(() => {
+    startedAt.current = Date.now();
+  }, []);
+  
+  return { honeypotRef, collect, restart };
+}
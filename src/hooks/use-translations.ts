@@ -0,0 +1,17 @@
+'use client';
+
+import { useContext, useMemo } from 'react';
+import { LocaleContext } from '@/components/locale-provider';
+import { createTranslator, translateMessage } from '@/lib/i18n';
+
+// Translator for the current page's locale. `tm` translates a message that
+// may be a catalog key, e.g. a schema's validation message.
+export function useTranslations() {
+  const locale = useContext(LocaleContext);
+  
+  return useMemo(() => ({
+    locale,
+    t: createTranslator(locale),
+    tm: (message: string) => translateMessage(locale, message)
+  }), [locale]);
+}
@@ -0,0 +1,31 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { api } from '@/lib/api/contract';
+
+// Live subscriber count from the count stream, starting from the count the
+// page was rendered with. EventSource reconnects by itself after an error.
+export function useWaitlistCount(initialCount: number, { includeUnverified = false } = {}) {
+  const [count, setCount] = useState(initialCount);
+  
+  useEffect(() => {
+    const url = includeUnverified ? `${api.countStream.path}?includeUnverified=true` : api.countStream.path;
+    const source = new EventSource(url);
+    
+    source.addEventListener('count', (event) => {
+      try {
+        const result = api.countStream.response.safeParse(JSON.parse((event as MessageEvent<string>).data));
+        
+        if (result.success) {
+          setCount(result.data.count);
+        }
+      } catch {
+        // Ignore a malformed event; the next one replaces it
+      }
+    });
+    
+    return () => source.close();
+  }, [includeUnverified]);
+  
+  return count;
+}
@@ -0,0 +1,105 @@
+import { createHash } from 'crypto';
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { NextResponse } from 'next/server';
+import { createSignedToken, safeEqual, verifySignedToken } from '@/lib/signed-token';
+
+export const ADMIN_SESSION_COOKIE = 'cherry_admin_session';
+
+// Admin sessions last one working day
+const ADMIN_SESSION_TTL_SECONDS = 8 * 60 * 60;
+
+export type AdminSession = {
+  username: string;
+  exp: number;
+};
+
+function getSessionSecret(): string {
+  const secret = process.env.ADMIN_SESSION_SECRET;
+
+  if (!secret || secret.length < 32) {
+    throw new Error('ADMIN_SESSION_SECRET must be set to at least 32 characters');
+  }
+
+  return secret;
+}
+
+function digest(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+// Compares against ADMIN_USERNAME / ADMIN_PASSWORD. Both sides are hashed first
+// so the comparison is constant-time regardless of input length.
+export function verifyAdminCredentials(username: string, password: string): boolean {
+  const expectedUsername = process.env.ADMIN_USERNAME;
+  const expectedPassword = process.env.ADMIN_PASSWORD;
+
+  if (!expectedUsername || !expectedPassword) {
+    return false;
+  }
+
+  const usernameMatches = safeEqual(digest(username), digest(expectedUsername));
+  const passwordMatches = safeEqual(digest(password), digest(expectedPassword));
+
+  return usernameMatches && passwordMatches;
+}
+
+export async function startAdminSession(username: string) {
+  const token = createSignedToken({ username }, getSessionSecret(), ADMIN_SESSION_TTL_SECONDS);
+  const cookieStore = await cookies();
+
+  cookieStore.set(ADMIN_SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: ADMIN_SESSION_TTL_SECONDS
+  });
+}
+
+export async function endAdminSession() {
+  const cookieStore = await cookies();
+  cookieStore.delete(ADMIN_SESSION_COOKIE);
+}
+
+export async function getAdminSession(): Promise<AdminSession | null> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(ADMIN_SESSION_COOKIE)?.value;
+
+  if (!token) {
+    return null;
+  }
+
+  return verifySignedToken<{ username: string }>(token, getSessionSecret());
+}
+
+// Guard for admin API routes: returns a 401 response when there is no valid
+// session, or null when the request may proceed.
+export async function requireAdmin(): Promise<NextResponse | null> {
+  const session = await getAdminSession();
+
+  if (!session) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Authentication required"
+      },
+      { status: 401 }
+    );
+  }
+
+  return null;
+}
+
+// Guard for admin pages: redirects to the login page when there is no valid
+// session. Each page calls it itself instead of relying on the console
+// layout, which isn't guaranteed to render before the page's data loads.
+export async function requireAdminPage(): Promise<AdminSession> {
+  const session = await getAdminSession();
+
+  if (!session) {
+    redirect('/admin/login');
+  }
+
+  return session;
+}
@@ -0,0 +1,96 @@
+import type { FraudStatus, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { isCreditedReferral } from '@/lib/referral-fraud';
+import { evaluateReferrerMilestones } from '@/lib/rewards';
+import { emitReferralCreditedWebhook } from '@/lib/webhooks';
+import type { ReferralReviewData, ReferralReviewQuery } from '@/lib/validations/admin';
+
+// Review queue for referrals flagged by src/lib/referral-fraud.ts. Shared by
+// the /api/admin/referrals/review routes and the /admin pages.
+
+export const FRAUD_STATUS_LABELS: Record<FraudStatus, string> = {
+  clean: 'Clean',
+  flagged: 'Flagged',
+  approved: 'Approved',
+  rejected: 'Rejected'
+};
+
+const reviewSelect = {
+  id: true,
+  email: true,
+  name: true,
+  createdAt: true,
+  verified: true,
+  referralCode: true,
+  referredBy: true,
+  fraudScore: true,
+  fraudReasons: true,
+  fraudStatus: true,
+  fraudReviewedAt: true,
+  referrer: {
+    select: {
+      id: true,
+      email: true,
+      referralCode: true
+    }
+  }
+} satisfies Prisma.SubscriberSelect;
+
+export type ReferralForReview = Prisma.SubscriberGetPayload<{ select: typeof reviewSelect }>;
+
+// Highest scores first, so the clearest cases are at the top
+export async function listReferralsForReview(query: ReferralReviewQuery) {
+  const where: Prisma.SubscriberWhereInput = {
+    referredBy: { not: null },
+    fraudStatus: query.status
+  };
+
+  const [referrals, total] = await prisma.$transaction([
+    prisma.subscriber.findMany({
+      where,
+      select: reviewSelect,
+      orderBy: [{ fraudScore: 'desc' }, { createdAt: 'desc' }],
+      skip: (query.page - 1) * query.pageSize,
+      take: query.pageSize
+    }),
+    prisma.subscriber.count({ where })
+  ]);
+
+  return {
+    referrals,
+    pagination: {
+      page: query.page,
+      pageSize: query.pageSize,
+      total,
+      totalPages: Math.max(1, Math.ceil(total / query.pageSize))
+    }
+  };
+}
+
+// Approving credits the referrer from now on; rejecting keeps the referral out
+// of every count. A decision can be reversed later, but rewards already granted
+// are never revoked (see src/lib/rewards.ts). Rejects with P2025 when the
+// subscriber doesn't exist or wasn't referred.
+export async function reviewReferral(id: string, { decision }: ReferralReviewData) {
+  const previous = await prisma.subscriber.findUnique({
+    where: { id },
+    select: { fraudStatus: true }
+  });
+
+  const referral = await prisma.subscriber.update({
+    where: { id, referredBy: { not: null } },
+    data: {
+      fraudStatus: decision === 'approve' ? 'approved' : 'rejected',
+      fraudReviewedAt: new Date()
+    },
+    select: reviewSelect
+  });
+
+  // Only a referral that didn't count before gains its referrer anything
+  if (previous && !isCreditedReferral(previous) && isCreditedReferral(referral)) {
+    await evaluateReferrerMilestones(referral.referredBy);
+    await emitReferralCreditedWebhook(referral);
+  }
+
+  return referral;
+}
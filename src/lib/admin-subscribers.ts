@@ -0,0 +1,166 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { evaluateReferrerMilestones } from '@/lib/rewards';
+import { deleteSubscriberWebhookDeliveries, emitVerificationWebhooks } from '@/lib/webhooks';
+import { recordWaitlistChange } from '@/lib/waitlist-count';
+import type { SubscriberListQuery, SubscriberUpdateData } from '@/lib/validations/admin';
+
+// Shared by the /api/admin/subscribers routes and the /admin pages
+
+const subscriberSummarySelect = {
+  id: true,
+  email: true,
+  name: true,
+  createdAt: true,
+  verified: true,
+  referralCode: true,
+  fraudStatus: true,
+  referrer: {
+    select: {
+      id: true,
+      email: true,
+      referralCode: true
+    }
+  },
+  _count: {
+    select: { referrals: true }
+  }
+} satisfies Prisma.SubscriberSelect;
+
+export type SubscriberSummary = Prisma.SubscriberGetPayload<{ select: typeof subscriberSummarySelect }>;
+
+function buildWhere(query: SubscriberListQuery): Prisma.SubscriberWhereInput {
+  const where: Prisma.SubscriberWhereInput = {};
+
+  if (query.search) {
+    where.OR = [
+      { email: { contains: query.search, mode: 'insensitive' } },
+      { name: { contains: query.search, mode: 'insensitive' } },
+      { referralCode: { contains: query.search, mode: 'insensitive' } }
+    ];
+  }
+
+  if (query.verified !== undefined) {
+    where.verified = query.verified;
+  }
+
+  if (query.referrer === 'none') {
+    where.referredBy = null;
+  } else if (query.referrer) {
+    where.referrer = {
+      OR: [
+        { referralCode: query.referrer },
+        { email: query.referrer }
+      ]
+    };
+  }
+
+  return where;
+}
+
+export async function listSubscribers(query: SubscriberListQuery) {
+  const where = buildWhere(query);
+
+  const [subscribers, total] = await prisma.$transaction([
+    prisma.subscriber.findMany({
+      where,
+      select: subscriberSummarySelect,
+      orderBy: { createdAt: 'desc' },
+      skip: (query.page - 1) * query.pageSize,
+      take: query.pageSize
+    }),
+    prisma.subscriber.count({ where })
+  ]);
+
+  return {
+    subscribers,
+    pagination: {
+      page: query.page,
+      pageSize: query.pageSize,
+      total,
+      totalPages: Math.max(1, Math.ceil(total / query.pageSize))
+    }
+  };
+}
+
+export async function getSubscriberDetail(id: string) {
+  return prisma.subscriber.findUnique({
+    where: { id },
+    select: {
+      ...subscriberSummarySelect,
+      updatedAt: true,
+      verifiedAt: true,
+      unsubscribedAt: true,
+      invitationStatus: true,
+      fraudScore: true,
+      fraudReasons: true,
+      fraudReviewedAt: true,
+      referrals: {
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          createdAt: true,
+          verified: true,
+          fraudStatus: true
+        },
+        orderBy: { createdAt: 'desc' }
+      }
+    }
+  });
+}
+
+export type SubscriberDetail = NonNullable<Awaited<ReturnType<typeof getSubscriberDetail>>>;
+
+export async function updateSubscriber(id: string, data: SubscriberUpdateData) {
+  const previous = await prisma.subscriber.findUnique({
+    where: { id },
+    select: { verified: true }
+  });
+
+  const subscriber = await prisma.subscriber.update({
+    where: { id },
+    data: {
+      name: data.name,
+      verified: data.verified,
+      verifiedAt: data.verified === undefined ? undefined : data.verified ? new Date() : null
+    },
+    select: subscriberSummarySelect
+  });
+
+  if (previous && previous.verified !== subscriber.verified) {
+    recordWaitlistChange({ verified: subscriber.verified ? 1 : -1 });
+  }
+
+  if (data.verified) {
+    await evaluateReferrerMilestones(subscriber.referrer?.id);
+  }
+
+  // Manual verification notifies webhooks just like the emailed link
+  if (data.verified && previous && !previous.verified) {
+    await emitVerificationWebhooks({ ...subscriber, referredBy: subscriber.referrer?.id ?? null });
+  }
+
+  return subscriber;
+}
+
+// Referrals of a deleted subscriber keep their place on the list; the
+// optional ReferralRelation sets their referredBy to null.
+export async function deleteSubscriber(id: string) {
+  const { verified, ...deleted } = await prisma.$transaction(async (tx) => {
+    const subscriber = await tx.subscriber.delete({
+      where: { id },
+      select: { id: true, verified: true }
+    });
+
+    await deleteSubscriberWebhookDeliveries(id, tx);
+    return subscriber;
+  });
+
+  recordWaitlistChange({ total: -1, verified: verified ? -1 : 0 });
+  return deleted;
+}
+
+export function isRecordNotFound(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025';
+}
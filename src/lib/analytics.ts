@@ -0,0 +1,196 @@
+import { prisma } from '@/lib/prisma';
+
+// First-party analytics: the browser reports page views and form starts to
+// POST /api/events, the server records signups and verifications itself.
+// Aggregates feed the admin funnel (visits → form starts → submissions →
+// verifications) and the traffic source breakdown.
+
+export const CLIENT_EVENT_TYPES = ['page_view', 'form_start'] as const;
+export const SERVER_EVENT_TYPES = ['signup', 'verify'] as const;
+
+export type ClientEventType = (typeof CLIENT_EVENT_TYPES)[number];
+export type ServerEventType = (typeof SERVER_EVENT_TYPES)[number];
+
+export type ClientEvent = {
+  sessionId: string;
+  type: ClientEventType;
+  path?: string;
+  referrer?: string;
+};
+
+export type FunnelDay = {
+  day: string;
+  visits: number;
+  formStarts: number;
+  submissions: number;
+  verifications: number;
+};
+
+export type TrafficSource = {
+  source: string;
+  sessions: number;
+  signups: number;
+};
+
+// Only the host of an external referrer is kept; its path and query string
+// may carry personal data
+export function referrerHost(referrer: string | undefined, ownHost: string): string | null {
+  if (!referrer) {
+    return null;
+  }
+
+  try {
+    const host = new URL(referrer).host.toLowerCase();
+    return host && host !== ownHost.toLowerCase() ? host : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function recordClientEvent(event: ClientEvent, ownHost: string) {
+  const now = new Date();
+
+  // The first event of a session decides its landing page and source. The id
+  // comes from the client, so two first events can race: an upsert would let
+  // the loser fail on the primary key, skipDuplicates lets it fall through to
+  // the update instead.
+  const { count } = await prisma.analyticsSession.createMany({
+    data: {
+      id: event.sessionId,
+      landingPath: event.path,
+      referrerHost: referrerHost(event.referrer, ownHost)
+    },
+    skipDuplicates: true
+  });
+
+  if (count === 0) {
+    await prisma.analyticsSession.update({
+      where: { id: event.sessionId },
+      data: { lastSeenAt: now }
+    });
+  }
+
+  await prisma.analyticsEvent.create({
+    data: {
+      type: event.type,
+      path: event.path,
+      sessionId: event.sessionId,
+      createdAt: now
+    }
+  });
+}
+
+// Never throws: analytics must not break a signup or a verification
+export async function recordServerEvent(type: ServerEventType, subscriberId: string, sessionId?: string) {
+  try {
+    const session = sessionId
+      ? await prisma.analyticsSession.findUnique({ where: { id: sessionId }, select: { id: true } })
+      : null;
+
+    await prisma.analyticsEvent.create({
+      data: {
+        type,
+        subscriberId,
+        sessionId: session?.id
+      }
+    });
+  } catch (error) {
+    console.error(`Error recording ${type} event:`, error);
+  }
+}
+
+function startOfDayUtc(daysAgo: number): Date {
+  const date = new Date();
+  date.setUTCHours(0, 0, 0, 0);
+  date.setUTCDate(date.getUTCDate() - daysAgo);
+  return date;
+}
+
+type FunnelRow = {
+  day: Date;
+  visits: bigint;
+  formStarts: bigint;
+  submissions: bigint;
+  verifications: bigint;
+};
+
+// Daily funnel for the last `days` days (UTC), including days without events.
+// Visits and form starts count distinct sessions.
+export async function getFunnel(days: number) {
+  const since = startOfDayUtc(days - 1);
+
+  const rows = await prisma.$queryRaw<FunnelRow[]>`
+    SELECT
+      date_trunc('day', "createdAt") AS day,
+      COUNT(DISTINCT "sessionId") FILTER (WHERE type = 'page_view') AS visits,
+      COUNT(DISTINCT "sessionId") FILTER (WHERE type = 'form_start') AS "formStarts",
+      COUNT(*) FILTER (WHERE type = 'signup') AS submissions,
+      COUNT(*) FILTER (WHERE type = 'verify') AS verifications
+    FROM "AnalyticsEvent"
+    WHERE "createdAt" >= ${since}
+    GROUP BY 1
+    ORDER BY 1
+  `;
+
+  const byDay = new Map(
+    rows.map((row) => [
+      row.day.toISOString().slice(0, 10),
+      {
+        visits: Number(row.visits),
+        formStarts: Number(row.formStarts),
+        submissions: Number(row.submissions),
+        verifications: Number(row.verifications)
+      }
+    ])
+  );
+
+  const funnel: FunnelDay[] = [];
+
+  for (let daysAgo = days - 1; daysAgo >= 0; daysAgo--) {
+    const day = startOfDayUtc(daysAgo).toISOString().slice(0, 10);
+    funnel.push({ day, visits: 0, formStarts: 0, submissions: 0, verifications: 0, ...byDay.get(day) });
+  }
+
+  const totals = funnel.reduce(
+    (sum, day) => ({
+      visits: sum.visits + day.visits,
+      formStarts: sum.formStarts + day.formStarts,
+      submissions: sum.submissions + day.submissions,
+      verifications: sum.verifications + day.verifications
+    }),
+    { visits: 0, formStarts: 0, submissions: 0, verifications: 0 }
+  );
+
+  return { days: funnel, totals };
+}
+
+type TrafficSourceRow = {
+  source: string;
+  sessions: bigint;
+  signups: bigint;
+};
+
+// Sessions started in the last `days` days grouped by referrer host, with the
+// signups they led to
+export async function getTrafficSources(days: number, limit = 20): Promise<TrafficSource[]> {
+  const since = startOfDayUtc(days - 1);
+
+  const rows = await prisma.$queryRaw<TrafficSourceRow[]>`
+    SELECT
+      COALESCE(s."referrerHost", 'direct') AS source,
+      COUNT(DISTINCT s.id) AS sessions,
+      COUNT(DISTINCT e."subscriberId") AS signups
+    FROM "AnalyticsSession" s
+    LEFT JOIN "AnalyticsEvent" e ON e."sessionId" = s.id AND e.type = 'signup'
+    WHERE s."createdAt" >= ${since}
+    GROUP BY 1
+    ORDER BY sessions DESC, source
+    LIMIT ${limit}
+  `;
+
+  return rows.map((row) => ({
+    source: row.source,
+    sessions: Number(row.sessions),
+    signups: Number(row.signups)
+  }));
+}
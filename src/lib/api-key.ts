@@ -0,0 +1,24 @@
+import type { NextResponse } from 'next/server';
+import { apiError } from '@/lib/api/server';
+import { getRequestTranslator } from '@/lib/i18n/server';
+import { safeEqual } from '@/lib/signed-token';
+
+// Server-to-server routes (the product, cron jobs) authenticate with
+// `Authorization: Bearer <secret>`, where the secret is read from `envName`.
+// Every request is rejected while the variable is unset.
+export function requireBearerToken(request: Request, envName: string): NextResponse | null {
+  const secret = process.env[envName];
+  const header = request.headers.get('authorization') ?? '';
+  const provided = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+
+  if (!secret) {
+    console.error(`${envName} is not set; rejecting request to ${new URL(request.url).pathname}`);
+  }
+
+  if (!secret || !safeEqual(provided, secret)) {
+    const { t } = getRequestTranslator(request);
+    return apiError({ error: 'unauthenticated', message: t('errors.unauthenticated') }, { status: 401 });
+  }
+
+  return null;
+}
@@ -0,0 +1,69 @@
+import type { z } from 'zod';
+import {
+  ApiErrorSchema,
+  type ApiError,
+  type Endpoint,
+  type EndpointBody,
+  type EndpointQuery,
+  type EndpointResponse
+} from '@/lib/api/contract';
+
+// Typed fetch client for the waitlist API. Successful responses are parsed
+// with the endpoint's response schema, so dates arrive as Date objects.
+// Network failures reject; every other failure resolves to `{ ok: false }`.
+
+export type ApiResult<E extends Endpoint> =
+  | { ok: true; status: number; data: EndpointResponse<E> }
+  | { ok: false; status: number; error: ApiError };
+
+type RequestOptions<E extends Endpoint> = (E extends { query: z.ZodTypeAny } ? { query: EndpointQuery<E> } : unknown) &
+  (E extends { body: z.ZodTypeAny } ? { body: EndpointBody<E> } : unknown) & {
+    signal?: AbortSignal;
+  };
+
+// Components show their own localized text for this code
+const FALLBACK_ERROR: ApiError = {
+  success: false,
+  error: 'unexpected_response',
+  message: 'Something went wrong. Please try again.'
+};
+
+function buildUrl(path: string, query: Record<string, unknown> | undefined) {
+  const params = new URLSearchParams();
+
+  for (const [key, value] of Object.entries(query ?? {})) {
+    if (value !== undefined && value !== null && value !== '') {
+      params.set(key, String(value));
+    }
+  }
+
+  const search = params.toString();
+  return search ? `${path}?${search}` : path;
+}
+
+export async function callApi<E extends Endpoint>(endpoint: E, options: RequestOptions<E>): Promise<ApiResult<E>> {
+  const { query, body, signal } = options as { query?: Record<string, unknown>; body?: unknown; signal?: AbortSignal };
+
+  const response = await fetch(buildUrl(endpoint.path, query), {
+    method: endpoint.method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    signal
+  });
+
+  const json: unknown = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    const error = ApiErrorSchema.safeParse(json);
+    return { ok: false, status: response.status, error: error.success ? error.data : FALLBACK_ERROR };
+  }
+
+  const data = endpoint.response.safeParse(json);
+
+  if (!data.success) {
+    console.error(`Unexpected response from ${endpoint.method} ${endpoint.path}:`, data.error);
+    return { ok: false, status: response.status, error: FALLBACK_ERROR };
+  }
+
+  return { ok: true, status: response.status, data: data.data };
+}
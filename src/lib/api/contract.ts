@@ -0,0 +1,339 @@
+import { z } from 'zod';
+import { msg } from '@/lib/i18n';
+import { normalizeReferralCode } from '@/lib/referral-code';
+import { AttributionSchema, WaitlistSchema } from '@/lib/validations/waitlist';
+
+// Request and response schemas of the public waitlist API. Route handlers
+// validate requests with them and check their responses in development
+// (src/lib/api/server.ts); components call the API through the typed client
+// in src/lib/api/client.ts. This module must stay free of server imports.
+
+// `status` is the success status and `errors` every error status the route
+// can return; both end up in the OpenAPI document (src/lib/api/openapi.ts).
+// `stream` endpoints answer with Server-Sent Events whose data is `response`.
+export type Endpoint = {
+  method: 'GET' | 'POST' | 'DELETE';
+  path: string;
+  summary: string;
+  query?: z.ZodTypeAny;
+  body?: z.ZodTypeAny;
+  status?: number;
+  response: z.ZodTypeAny;
+  stream?: boolean;
+  errors: Readonly<Record<number, string>>;
+};
+
+// Machine-readable reasons of error responses. Unlike `message`, which is
+// localized, these never change, so clients branch on them.
+export const API_ERROR_CODES = [
+  'validation_failed',
+  'rate_limited',
+  'too_fast',
+  'disposable_email',
+  'invalid_referral_code',
+  'referral_code_not_found',
+  'invalid_token',
+  'token_expired',
+  'unauthenticated',
+  'invalid_json',
+  'invitation_not_found',
+  'invitation_already_redeemed',
+  'invitation_expired',
+  'server_error',
+  // Set by the client when a response isn't what the contract promises
+  'unexpected_response',
+] as const;
+
+export type ApiErrorCode = (typeof API_ERROR_CODES)[number];
+
+// Every non-2xx response
+export const ApiErrorSchema = z.object({
+  success: z.literal(false),
+  error: z.enum(API_ERROR_CODES),
+  // In the request's locale (Accept-Language or the cherry_locale cookie)
+  message: z.string(),
+  errors: z.record(z.array(z.string()).optional()).optional(),
+  retryAfter: z.number().optional(),
+});
+
+export type ApiError = z.infer<typeof ApiErrorSchema>;
+
+// Also validates the referral lookup form (src/components/referral-stats.tsx)
+export const ReferralCodeParam = z
+  .string()
+  .transform(normalizeReferralCode)
+  .pipe(z.string().min(3, msg('validation.referralCode.tooShort')).max(20, msg('validation.referralCode.tooLong')))
+  .describe('Referral code; case, spaces and dashes are ignored');
+
+// Anything but "true" counts as false
+const IncludeUnverifiedParam = z
+  .string()
+  .optional()
+  .transform((value) => value === 'true')
+  .describe('"true" to include subscribers who have not verified their email');
+
+const SERVER_ERROR = { 500: 'Unexpected server error' } as const;
+
+export const LEADERBOARD_WINDOWS = ['all', '30d', '7d'] as const;
+
+export const QueuePositionSchema = z.object({
+  position: z.number().int(),
+  total: z.number().int(),
+  signupOrder: z.number().int(),
+  verifiedReferrals: z.number().int(),
+});
+
+const WaitlistCountSchema = z.object({
+  success: z.literal(true),
+  count: z.number().int(),
+});
+
+const MessageResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+});
+
+export const SignupRequestSchema = WaitlistSchema.extend({
+  // Bot signals sent by the signup form
+  website: z.string().optional(),
+  fillTimeMs: z.number().nonnegative().optional(),
+  // Analytics session the signup came from
+  sessionId: z.string().uuid().optional(),
+  // First-touch UTM parameters, referrer and landing page
+  attribution: AttributionSchema.optional(),
+});
+
+// Honeypot submissions get the message alone
+// Public lookup by referral code: counts only. The referral list lives on the
+// signed-in dashboard (GET /api/me).
+export const ReferralStatsResponseSchema = z.object({
+  success: z.literal(true),
+  stats: z.object({
+    totalReferrals: z.number().int(),
+  }),
+});
+
+const RewardProgressSchema = z.object({
+  verifiedReferrals: z.number().int(),
+  unlocked: z.array(
+    z.object({
+      name: z.string(),
+      description: z.string().nullable(),
+      threshold: z.number().int(),
+      grantedAt: z.coerce.date(),
+    })
+  ),
+  next: z
+    .object({
+      name: z.string(),
+      description: z.string().nullable(),
+      threshold: z.number().int(),
+      remaining: z.number().int(),
+    })
+    .nullable(),
+});
+
+export const DashboardSchema = z.object({
+  email: z.string(),
+  name: z.string().nullable(),
+  referralCode: z.string().nullable(),
+  verified: z.boolean(),
+  position: QueuePositionSchema.nullable(),
+  referrals: z.array(
+    z.object({
+      email: z.string(),
+      verified: z.boolean(),
+      date: z.coerce.date(),
+    })
+  ),
+  rewards: RewardProgressSchema,
+});
+
+export const api = {
+  signup: {
+    method: 'POST',
+    path: '/api/waitlist',
+    summary: 'Join the waitlist',
+    body: SignupRequestSchema,
+    status: 201,
+    // The same for new, known and honeypot signups; the referral code is
+    // emailed and the place in line is on the dashboard
+    response: MessageResponseSchema,
+    errors: {
+      400: 'Invalid input or a disposable email address',
+      429: 'Too many signups from this IP address',
+      ...SERVER_ERROR,
+    },
+  },
+  count: {
+    method: 'GET',
+    path: '/api/waitlist/count',
+    summary: 'Count subscribers',
+    query: z.object({ includeUnverified: IncludeUnverifiedParam }),
+    response: WaitlistCountSchema,
+    errors: SERVER_ERROR,
+  },
+  countStream: {
+    method: 'GET',
+    path: '/api/waitlist/count/stream',
+    summary: 'Live subscriber count: a `count` event now and whenever the number changes',
+    query: z.object({ includeUnverified: IncludeUnverifiedParam }),
+    response: WaitlistCountSchema,
+    stream: true,
+    errors: {},
+  },
+  referrals: {
+    method: 'GET',
+    path: '/api/waitlist/referrals',
+    summary: 'Number of referrals of a referral code',
+    query: z.object({ code: ReferralCodeParam, includeUnverified: IncludeUnverifiedParam }),
+    response: ReferralStatsResponseSchema,
+    errors: {
+      400: 'Malformed referral code',
+      404: 'Unknown referral code',
+      ...SERVER_ERROR,
+    },
+  },
+  referralTree: {
+    method: 'GET',
+    path: '/api/waitlist/referrals/tree',
+    summary: 'Per-level counts of the downstream referral tree of a referral code',
+    query: z.object({
+      code: ReferralCodeParam,
+      depth: z.coerce
+        .number()
+        .int()
+        .min(1)
+        .default(3)
+        .describe('Levels to include, up to the configured REFERRAL_TREE_MAX_DEPTH'),
+    }),
+    response: z.object({
+      success: z.literal(true),
+      depth: z.number().int(),
+      tree: z.object({
+        levels: z.array(z.object({ depth: z.number().int(), total: z.number().int(), verified: z.number().int() })),
+        total: z.number().int(),
+      }),
+    }),
+    errors: {
+      400: 'Invalid query parameters',
+      404: 'Unknown referral code',
+      ...SERVER_ERROR,
+    },
+  },
+  leaderboard: {
+    method: 'GET',
+    path: '/api/waitlist/leaderboard',
+    summary: 'Top referrers by verified referrals',
+    query: z.object({
+      window: z.enum(LEADERBOARD_WINDOWS).default('all').describe('Only count referrals from this period'),
+      limit: z.coerce.number().int().min(1).max(100).default(10),
+      code: ReferralCodeParam.optional().describe('Your referral code, to include your own rank'),
+    }),
+    response: z.object({
+      success: z.literal(true),
+      window: z.enum(LEADERBOARD_WINDOWS),
+      leaderboard: z.array(z.object({ rank: z.number().int(), name: z.string(), referrals: z.number().int() })),
+      you: z.object({ rank: z.number().int().nullable(), referrals: z.number().int() }).nullable(),
+    }),
+    errors: {
+      400: 'Invalid query parameters',
+      404: 'Unknown referral code',
+      ...SERVER_ERROR,
+    },
+  },
+  position: {
+    method: 'GET',
+    path: '/api/waitlist/position',
+    summary: 'Queue position of a referral code',
+    query: z.object({ code: ReferralCodeParam }),
+    response: z.object({ success: z.literal(true), position: QueuePositionSchema }),
+    errors: {
+      400: 'Malformed referral code',
+      404: 'Unknown referral code',
+      ...SERVER_ERROR,
+    },
+  },
+  verify: {
+    method: 'GET',
+    path: '/api/waitlist/verify',
+    summary: 'Confirm an email address with the token from the verification email',
+    query: z.object({ token: z.string().min(16).max(128) }),
+    response: MessageResponseSchema,
+    errors: {
+      400: 'Invalid verification token',
+      410: 'The verification link has expired',
+      ...SERVER_ERROR,
+    },
+  },
+  resendVerification: {
+    method: 'POST',
+    path: '/api/waitlist/verify/resend',
+    summary: 'Send a fresh verification link',
+    body: z.object({ email: z.string().trim().email({ message: msg('validation.email.invalid') }) }),
+    response: MessageResponseSchema,
+    errors: {
+      400: 'Invalid email address',
+      ...SERVER_ERROR,
+    },
+  },
+  recoverReferralCode: {
+    method: 'POST',
+    path: '/api/waitlist/referral-code/recover',
+    summary: 'Email subscribers the referral code they already have',
+    body: z.object({ email: z.string().trim().email({ message: msg('validation.email.invalid') }) }),
+    response: MessageResponseSchema,
+    errors: {
+      400: 'Invalid email address',
+      429: 'Too many requests from this IP address',
+      ...SERVER_ERROR,
+    },
+  },
+  requestLogin: {
+    method: 'POST',
+    path: '/api/auth/login',
+    summary: 'Email a magic sign-in link',
+    body: z.object({ email: z.string().trim().email({ message: msg('validation.email.invalid') }) }),
+    response: MessageResponseSchema,
+    errors: {
+      400: 'Invalid email address',
+      429: 'Too many sign-in requests from this IP address',
+      ...SERVER_ERROR,
+    },
+  },
+  startSession: {
+    method: 'POST',
+    path: '/api/auth/session',
+    summary: 'Sign in with the token from a magic link',
+    body: z.object({ token: z.string().min(1).max(1000) }),
+    response: MessageResponseSchema,
+    errors: {
+      400: 'Malformed token',
+      401: 'The link is invalid, expired or already used',
+      ...SERVER_ERROR,
+    },
+  },
+  endSession: {
+    method: 'DELETE',
+    path: '/api/auth/session',
+    summary: 'Sign out',
+    response: MessageResponseSchema,
+    errors: {},
+  },
+  me: {
+    method: 'GET',
+    path: '/api/me',
+    summary: "The signed-in subscriber's code, referrals, position and rewards",
+    response: z.object({ success: z.literal(true), dashboard: DashboardSchema }),
+    errors: {
+      401: 'Not signed in',
+      ...SERVER_ERROR,
+    },
+  },
+} as const satisfies Record<string, Endpoint>;
+
+export type ApiEndpoints = typeof api;
+
+export type EndpointQuery<E extends Endpoint> = E['query'] extends z.ZodTypeAny ? z.input<E['query']> : never;
+export type EndpointBody<E extends Endpoint> = E['body'] extends z.ZodTypeAny ? z.input<E['body']> : never;
+export type EndpointResponse<E extends Endpoint> = z.output<E['response']>;
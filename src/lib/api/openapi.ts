@@ -0,0 +1,231 @@
+import { z } from 'zod';
+import {
+  api,
+  ApiErrorSchema,
+  DashboardSchema,
+  QueuePositionSchema,
+  type Endpoint
+} from '@/lib/api/contract';
+import { AttributionSchema } from '@/lib/validations/waitlist';
+
+// OpenAPI 3.1 document of the public waitlist API, generated from the
+// contract. Served at /api/openapi.json and committed as specs/openapi.json;
+// `npm run openapi` regenerates the file and the test suite fails when the
+// two drift apart.
+
+export const OPENAPI_VERSION = '3.1.0';
+export const API_VERSION = '1.0.0';
+
+type JsonSchema = { [key: string]: unknown };
+
+// Schemas emitted once under components.schemas and referenced by name
+const COMPONENTS: [string, z.ZodTypeAny][] = [
+  ['ApiError', ApiErrorSchema],
+  ['QueuePosition', QueuePositionSchema],
+  ['Attribution', AttributionSchema],
+  ['Dashboard', DashboardSchema]
+];
+
+const componentNames = new Map(COMPONENTS.map(([name, schema]) => [schema, name]));
+
+function ref(name: string): JsonSchema {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+function withDescription(schema: z.ZodTypeAny, json: JsonSchema): JsonSchema {
+  return schema.description ? { ...json, description: schema.description } : json;
+}
+
+function stringSchema(def: z.ZodStringDef): JsonSchema {
+  const json: JsonSchema = { type: 'string' };
+
+  for (const check of def.checks) {
+    switch (check.kind) {
+      case 'min':
+        json.minLength = check.value;
+        break;
+      case 'max':
+        json.maxLength = check.value;
+        break;
+      case 'length':
+        json.minLength = json.maxLength = check.value;
+        break;
+      case 'email':
+      case 'uuid':
+        json.format = check.kind;
+        break;
+      case 'url':
+        json.format = 'uri';
+        break;
+      case 'datetime':
+        json.format = 'date-time';
+        break;
+    }
+  }
+
+  return json;
+}
+
+function numberSchema(def: z.ZodNumberDef): JsonSchema {
+  const json: JsonSchema = { type: 'number' };
+
+  for (const check of def.checks) {
+    if (check.kind === 'int') {
+      json.type = 'integer';
+    } else if (check.kind === 'min') {
+      json[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+    } else if (check.kind === 'max') {
+      json[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+    }
+  }
+
+  return json;
+}
+
+function objectSchema(schema: z.AnyZodObject): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const [key, value] of Object.entries(schema.shape as z.ZodRawShape)) {
+    properties[key] = toJsonSchema(value);
+
+    if (!value.isOptional()) {
+      required.push(key);
+    }
+  }
+
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 ? { required } : {})
+  };
+}
+
+// Describes what goes over the wire, i.e. the input side of each schema:
+// transforms are transparent and z.coerce.date() is an ISO 8601 string
+export function toJsonSchema(schema: z.ZodTypeAny, { inline = false } = {}): JsonSchema {
+  const component = componentNames.get(schema);
+
+  if (component && !inline) {
+    return ref(component);
+  }
+
+  const def = schema._def;
+
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodString:
+      return withDescription(schema, stringSchema(def));
+    case z.ZodFirstPartyTypeKind.ZodNumber:
+      return withDescription(schema, numberSchema(def));
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return withDescription(schema, { type: 'boolean' });
+    case z.ZodFirstPartyTypeKind.ZodDate:
+      return withDescription(schema, { type: 'string', format: 'date-time' });
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return withDescription(schema, { const: def.value });
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return withDescription(schema, { type: 'string', enum: [...def.values] });
+    case z.ZodFirstPartyTypeKind.ZodArray:
+      return withDescription(schema, { type: 'array', items: toJsonSchema(def.type) });
+    case z.ZodFirstPartyTypeKind.ZodRecord:
+      return withDescription(schema, { type: 'object', additionalProperties: toJsonSchema(def.valueType) });
+    case z.ZodFirstPartyTypeKind.ZodObject:
+      return withDescription(schema, objectSchema(schema as z.AnyZodObject));
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+      return withDescription(schema, { anyOf: def.options.map((option: z.ZodTypeAny) => toJsonSchema(option)) });
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return withDescription(schema, toJsonSchema(def.innerType));
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return withDescription(schema, { anyOf: [toJsonSchema(def.innerType), { type: 'null' }] });
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return withDescription(schema, { ...toJsonSchema(def.innerType), default: def.defaultValue() });
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return withDescription(schema, toJsonSchema(def.schema));
+    case z.ZodFirstPartyTypeKind.ZodPipeline: {
+      // The output side carries the constraints when both sides share a type,
+      // e.g. a normalized referral code
+      const input = toJsonSchema(def.in);
+      const output = toJsonSchema(def.out);
+      return withDescription(schema, input.type === output.type ? { ...input, ...output } : input);
+    }
+    default:
+      throw new Error(`Cannot describe ${def.typeName} in the OpenAPI document`);
+  }
+}
+
+function queryParameters(query: z.ZodTypeAny) {
+  const shape = (query as z.AnyZodObject).shape as z.ZodRawShape;
+
+  return Object.entries(shape).map(([name, schema]) => {
+    const { description, ...json } = toJsonSchema(schema);
+
+    return {
+      name,
+      in: 'query',
+      required: !schema.isOptional(),
+      ...(description ? { description } : {}),
+      schema: json
+    };
+  });
+}
+
+function jsonContent(schema: JsonSchema) {
+  return { 'application/json': { schema } };
+}
+
+function operation(name: string, endpoint: Endpoint) {
+  const responses: Record<string, unknown> = {
+    [endpoint.status ?? 200]: endpoint.stream
+      ? {
+          description: 'Server-Sent Events; each event carries this JSON payload',
+          content: { 'text/event-stream': { schema: toJsonSchema(endpoint.response) } }
+        }
+      : {
+          description: 'Success',
+          content: jsonContent(toJsonSchema(endpoint.response))
+        }
+  };
+
+  for (const [status, description] of Object.entries(endpoint.errors)) {
+    responses[status] = { description, content: jsonContent(ref('ApiError')) };
+  }
+
+  return {
+    operationId: name,
+    summary: endpoint.summary,
+    ...(endpoint.query ? { parameters: queryParameters(endpoint.query) } : {}),
+    ...(endpoint.body
+      ? { requestBody: { required: true, content: jsonContent(toJsonSchema(endpoint.body)) } }
+      : {}),
+    responses
+  };
+}
+
+export function buildOpenApiDocument() {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const [name, endpoint] of Object.entries(api) as [string, Endpoint][]) {
+    paths[endpoint.path] = {
+      ...paths[endpoint.path],
+      [endpoint.method.toLowerCase()]: operation(name, endpoint)
+    };
+  }
+
+  return {
+    openapi: OPENAPI_VERSION,
+    info: {
+      title: 'Cherry Waitlist API',
+      version: API_VERSION,
+      description:
+        'Public endpoints of the Cherry waitlist. Every error response has the ApiError shape. ' +
+        'Messages follow Accept-Language (or the cherry_locale cookie) in English, Spanish or French; ' +
+        'branch on the `error` code, which is the same in every language.'
+    },
+    paths,
+    components: {
+      schemas: Object.fromEntries(COMPONENTS.map(([name, schema]) => [name, toJsonSchema(schema, { inline: true })]))
+    }
+  };
+}
+
+export type OpenApiDocument = ReturnType<typeof buildOpenApiDocument>;
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ApiErrorSchema, type ApiError, type Endpoint } from '@/lib/api/contract';
+import { translate, type Locale } from '@/lib/i18n';
+import { localizeZodError } from '@/lib/i18n/zod';
+
+// Response helpers for route handlers. Outside production every body is
+// checked against the contract after a JSON round trip, i.e. exactly as the
+// client will see it, so a handler drifting from the contract fails loudly in
+// development and in tests instead of breaking the components.
+
+function assertMatches(schema: z.ZodTypeAny, body: unknown, description: string) {
+  if (process.env.NODE_ENV === 'production') {
+    return;
+  }
+
+  const result = schema.safeParse(JSON.parse(JSON.stringify(body)));
+
+  if (!result.success) {
+    throw new Error(`${description} doesn't match the API contract: ${result.error.message}`);
+  }
+}
+
+export function apiResponse<E extends Endpoint>(endpoint: E, body: z.input<E['response']>, init?: ResponseInit) {
+  assertMatches(endpoint.response, body, `Response of ${endpoint.method} ${endpoint.path}`);
+  return NextResponse.json(body, init);
+}
+
+export function apiError(body: Omit<ApiError, 'success'>, init: ResponseInit & { status: number }) {
+  const payload: ApiError = { success: false, ...body };
+  assertMatches(ApiErrorSchema, payload, `Error response (${init.status})`);
+  return NextResponse.json(payload, init);
+}
+
+// Field errors in the request's locale. Parse with zodErrorMap(locale) so
+// zod's own messages are translated too.
+export function validationError(error: z.ZodError, locale: Locale, message = translate(locale, 'errors.validationFailed')) {
+  return apiError(
+    { error: 'validation_failed', message, errors: localizeZodError(error, locale) },
+    { status: 400 }
+  );
+}
+
+// One Server-Sent Event of a `stream` endpoint, checked like a JSON response
+export function serverSentEvent<E extends Endpoint>(endpoint: E, event: string, data: z.input<E['response']>) {
+  assertMatches(endpoint.response, data, `Event of ${endpoint.method} ${endpoint.path}`);
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
@@ -0,0 +1,13 @@
+// Absolute base URL used when building links that leave the app (e.g. emails).
+// Prefers the configured APP_URL and falls back to the origin of the request.
+export function getAppUrl(request?: Request): string {
+  if (process.env.APP_URL) {
+    return process.env.APP_URL.replace(/\/+$/, '');
+  }
+
+  if (request) {
+    return new URL(request.url).origin;
+  }
+
+  return 'http://localhost:3000';
+}
@@ -0,0 +1,80 @@
+import type { Attribution } from '@/lib/validations/waitlist';
+
+// First-touch attribution. The first page a visitor lands on records its UTM
+// parameters, external referrer and path in localStorage; later navigation
+// leaves it untouched, so the signup is credited to the visit that brought
+// the person here. Client-side only.
+
+const ATTRIBUTION_STORAGE_KEY = 'cherry_attribution';
+
+// After this long a new campaign visit replaces the stored touch
+const ATTRIBUTION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const UTM_PARAMS = {
+  utm_source: 'utmSource',
+  utm_medium: 'utmMedium',
+  utm_campaign: 'utmCampaign',
+  utm_content: 'utmContent',
+  utm_term: 'utmTerm'
+} as const;
+
+type StoredAttribution = Attribution & { capturedAt: number };
+
+function readStored(): StoredAttribution | null {
+  try {
+    const stored = JSON.parse(localStorage.getItem(ATTRIBUTION_STORAGE_KEY) ?? 'null') as StoredAttribution | null;
+    return stored && Date.now() - stored.capturedAt < ATTRIBUTION_TTL_MS ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+function externalReferrer(): string | undefined {
+  if (!document.referrer) {
+    return undefined;
+  }
+
+  try {
+    return new URL(document.referrer).origin === window.location.origin ? undefined : document.referrer;
+  } catch {
+    return undefined;
+  }
+}
+
+// Call on every page load; only the first touch within the TTL is kept
+export function captureAttribution() {
+  if (readStored()) {
+    return;
+  }
+
+  const params = new URLSearchParams(window.location.search);
+  const attribution: StoredAttribution = {
+    landingPath: window.location.pathname,
+    referrerUrl: externalReferrer(),
+    capturedAt: Date.now()
+  };
+
+  for (const [param, field] of Object.entries(UTM_PARAMS)) {
+    const value = params.get(param)?.trim();
+    if (value) attribution[field] = value.slice(0, 200);
+  }
+
+  try {
+    localStorage.setItem(ATTRIBUTION_STORAGE_KEY, JSON.stringify(attribution));
+  } catch {
+    // Storage can be unavailable, e.g. in some private browsing modes
+  }
+}
+
+// The stored first touch, ready to send with a signup
+export function getAttribution(): Attribution | undefined {
+  const stored = readStored();
+
+  if (!stored) {
+    return undefined;
+  }
+
+  const attribution: Partial<StoredAttribution> = { ...stored };
+  delete attribution.capturedAt;
+  return attribution;
+}
@@ -0,0 +1,26 @@
+// Cheap bot signals collected by the signup forms. API clients that don't send
+// these fields are still subject to rate limiting.
+
+// Name of the hidden honeypot input. Humans never see it, naive bots fill it in.
+export const HONEYPOT_FIELD = 'website';
+
+export const MIN_FILL_TIME_MS = Number(process.env.NEXT_PUBLIC_MIN_FILL_TIME_MS) || 3000;
+
+export type BotSignals = {
+  website?: string;
+  fillTimeMs?: number;
+};
+
+export type BotVerdict = 'honeypot' | 'too_fast' | null;
+
+export function detectBot(signals: BotSignals): BotVerdict {
+  if (signals.website && signals.website.trim() !== '') {
+    return 'honeypot';
+  }
+
+  if (signals.fillTimeMs !== undefined && signals.fillTimeMs < MIN_FILL_TIME_MS) {
+    return 'too_fast';
+  }
+
+  return null;
+}
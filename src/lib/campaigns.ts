@@ -0,0 +1,40 @@
+import { prisma } from '@/lib/prisma';
+import type { CampaignQuery } from '@/lib/validations/admin';
+
+// Signups grouped by first-touch UTM source, medium and campaign
+
+export type CampaignSignups = {
+  utmSource: string | null;
+  utmMedium: string | null;
+  utmCampaign: string | null;
+  signups: number;
+  verified: number;
+};
+
+type CampaignRow = Omit<CampaignSignups, 'signups' | 'verified'> & {
+  signups: bigint;
+  verified: bigint;
+};
+
+export async function getCampaignSignups(query: CampaignQuery): Promise<CampaignSignups[]> {
+  const rows = await prisma.$queryRaw<CampaignRow[]>`
+    SELECT
+      "utmSource",
+      "utmMedium",
+      "utmCampaign",
+      COUNT(*) AS signups,
+      COUNT(*) FILTER (WHERE verified = true) AS verified
+    FROM "Subscriber"
+    WHERE "createdAt" >= ${query.from ?? new Date(0)}
+      AND "createdAt" <= ${query.to ?? new Date()}
+    GROUP BY "utmSource", "utmMedium", "utmCampaign"
+    ORDER BY signups DESC, "utmSource", "utmMedium", "utmCampaign"
+    LIMIT ${query.limit}
+  `;
+
+  return rows.map((row) => ({
+    ...row,
+    signups: Number(row.signups),
+    verified: Number(row.verified)
+  }));
+}
@@ -0,0 +1,29 @@
+import { createPrismaSubscriberRepository } from '@/lib/repositories/prisma-subscriber-repository';
+import type { SubscriberRepository } from '@/lib/repositories/subscriber-repository';
+
+// Dependencies of the public waitlist routes. Production uses the Prisma
+// implementations; tests swap in the in-memory ones with setContainer().
+
+export type Container = {
+  subscribers: SubscriberRepository;
+};
+
+const globalForContainer = global as unknown as { container?: Container };
+
+export function getContainer(): Container {
+  if (!globalForContainer.container) {
+    globalForContainer.container = {
+      subscribers: createPrismaSubscriberRepository()
+    };
+  }
+
+  return globalForContainer.container;
+}
+
+export function setContainer(overrides: Partial<Container>) {
+  globalForContainer.container = { ...getContainer(), ...overrides };
+}
+
+export function resetContainer() {
+  globalForContainer.container = undefined;
+}
@@ -0,0 +1,97 @@
+import disposableDomains from '@/lib/disposable-domains.json';
+
+// Email normalization. `normalizeEmail` is what we store and show; the
+// canonical form additionally applies the mailbox provider's own rules (Gmail
+// ignores dots, most large providers ignore "+tag" suffixes), so
+// "F.o.o+news@Gmail.com" and "foo@gmail.com" are recognised as one person.
+
+type ProviderRules = {
+  ignoreDots?: boolean;
+  ignorePlusTag?: boolean;
+  // Domain aliases are folded onto this one
+  canonicalDomain?: string;
+};
+
+const GMAIL: ProviderRules = { ignoreDots: true, ignorePlusTag: true, canonicalDomain: 'gmail.com' };
+const PLUS_TAG_ONLY: ProviderRules = { ignorePlusTag: true };
+
+const PROVIDER_RULES: Record<string, ProviderRules> = {
+  'gmail.com': GMAIL,
+  'googlemail.com': GMAIL,
+  'outlook.com': PLUS_TAG_ONLY,
+  'hotmail.com': PLUS_TAG_ONLY,
+  'live.com': PLUS_TAG_ONLY,
+  'msn.com': PLUS_TAG_ONLY,
+  'icloud.com': PLUS_TAG_ONLY,
+  'me.com': PLUS_TAG_ONLY,
+  'mac.com': PLUS_TAG_ONLY,
+  'fastmail.com': PLUS_TAG_ONLY,
+  'fastmail.fm': PLUS_TAG_ONLY,
+  'proton.me': PLUS_TAG_ONLY,
+  'protonmail.com': PLUS_TAG_ONLY,
+  'pm.me': PLUS_TAG_ONLY
+};
+
+const DISPOSABLE_DOMAINS = new Set<string>(disposableDomains);
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function splitEmail(email: string): { local: string; domain: string } {
+  const normalized = normalizeEmail(email);
+  const at = normalized.lastIndexOf('@');
+  return { local: normalized.slice(0, at), domain: normalized.slice(at + 1) };
+}
+
+export function getEmailDomain(email: string): string {
+  return splitEmail(email).domain;
+}
+
+// Unknown providers only get case folding: for them "a.b" and "ab" may well
+// be different mailboxes
+export function canonicalizeEmail(email: string): string {
+  const { local, domain } = splitEmail(email);
+  const rules = PROVIDER_RULES[domain];
+
+  if (!rules) {
+    return `${local}@${domain}`;
+  }
+
+  let canonicalLocal = local;
+
+  if (rules.ignorePlusTag) {
+    canonicalLocal = canonicalLocal.split('+')[0];
+  }
+
+  if (rules.ignoreDots) {
+    canonicalLocal = canonicalLocal.replace(/\./g, '');
+  }
+
+  return `${canonicalLocal}@${rules.canonicalDomain ?? domain}`;
+}
+
+// Matches listed domains and their subdomains. The bundled list is refreshed
+// with `npm run update-disposable-domains`.
+export function isDisposableEmail(email: string): boolean {
+  const labels = getEmailDomain(email).split('.');
+
+  for (let i = 0; i < labels.length - 1; i++) {
+    if (DISPOSABLE_DOMAINS.has(labels.slice(i).join('.'))) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+// Unique constraint violation on Subscriber.email or Subscriber.canonicalEmail,
+// e.g. when the same person submits twice at once
+export function isDuplicateEmailError(error: unknown): boolean {
+  if (typeof error !== 'object' || error === null) {
+    return false;
+  }
+
+  const { code, meta } = error as { code?: string; meta?: { target?: unknown } };
+  return code === 'P2002' && /email/i.test(String(meta?.target ?? ''));
+}
@@ -0,0 +1,135 @@
+import { cookies } from 'next/headers';
+import { prisma } from '@/lib/prisma';
+import {
+  EXPERIMENT_COOKIE,
+  EXPERIMENTS,
+  VISITOR_COOKIE,
+  parseAssignments,
+  resolveVariant,
+  twoProportionTest,
+  type ExperimentKey,
+  type ProportionTest
+} from '@/lib/experiments';
+
+// Server side of the experiments: reading the visitor's assignments in server
+// components and route handlers, logging exposures and conversions, and
+// computing per-variant results for the admin console.
+
+export async function getExperimentVariant<K extends ExperimentKey>(experimentKey: K) {
+  const cookieStore = await cookies();
+  return resolveVariant(experimentKey, parseAssignments(cookieStore.get(EXPERIMENT_COOKIE)?.value));
+}
+
+// Logs the visitor's first exposure to an experiment. The variant comes from
+// the assignment cookie, never from the client. Returns whether the visitor
+// is part of the experiment.
+export async function recordExposure(experimentKey: ExperimentKey): Promise<boolean> {
+  const cookieStore = await cookies();
+  const visitorId = cookieStore.get(VISITOR_COOKIE)?.value;
+  const variantKey = parseAssignments(cookieStore.get(EXPERIMENT_COOKIE)?.value)[experimentKey];
+
+  if (!EXPERIMENTS[experimentKey].active || !visitorId || !variantKey) {
+    return false;
+  }
+
+  await prisma.experimentExposure.createMany({
+    data: [{ experimentKey, variantKey, visitorId }],
+    skipDuplicates: true
+  });
+
+  return true;
+}
+
+// Credits a signup to every experiment the visitor was exposed to. Never
+// throws: experiments must not break a signup.
+export async function recordExperimentConversions(subscriberId: string) {
+  try {
+    const cookieStore = await cookies();
+    const visitorId = cookieStore.get(VISITOR_COOKIE)?.value;
+
+    if (!visitorId) {
+      return;
+    }
+
+    await prisma.experimentExposure.updateMany({
+      where: { visitorId, convertedAt: null },
+      data: { convertedAt: new Date(), subscriberId }
+    });
+  } catch (error) {
+    console.error('Error recording experiment conversions:', error);
+  }
+}
+
+export type VariantResult = {
+  key: string;
+  weight: number;
+  exposures: number;
+  conversions: number;
+  conversionRate: number;
+  // Relative to the control; null for the control itself
+  lift: number | null;
+  test: ProportionTest | null;
+};
+
+export type ExperimentResult = {
+  key: ExperimentKey;
+  name: string;
+  active: boolean;
+  variants: VariantResult[];
+};
+
+type ResultRow = {
+  experimentKey: string;
+  variantKey: string;
+  exposures: bigint;
+  conversions: bigint;
+};
+
+export async function getExperimentResults(): Promise<ExperimentResult[]> {
+  const rows = await prisma.$queryRaw<ResultRow[]>`
+    SELECT
+      "experimentKey",
+      "variantKey",
+      COUNT(*) AS exposures,
+      COUNT(*) FILTER (WHERE "convertedAt" IS NOT NULL) AS conversions
+    FROM "ExperimentExposure"
+    GROUP BY "experimentKey", "variantKey"
+  `;
+
+  const counts = new Map(
+    rows.map((row) => [
+      `${row.experimentKey}/${row.variantKey}`,
+      { exposures: Number(row.exposures), conversions: Number(row.conversions) }
+    ])
+  );
+
+  return (Object.keys(EXPERIMENTS) as ExperimentKey[]).map((key) => {
+    const definition = EXPERIMENTS[key];
+    const stats = definition.variants.map((variant) => ({
+      variant,
+      ...(counts.get(`${key}/${variant.key}`) ?? { exposures: 0, conversions: 0 })
+    }));
+    const control = stats[0];
+    const controlRate = control.exposures > 0 ? control.conversions / control.exposures : 0;
+
+    return {
+      key,
+      name: definition.name,
+      active: definition.active,
+      variants: stats.map(({ variant, exposures, conversions }, index) => {
+        const conversionRate = exposures > 0 ? conversions / exposures : 0;
+        const isControl = index === 0;
+
+        return {
+          key: variant.key,
+          weight: variant.weight,
+          exposures,
+          conversions,
+          conversionRate,
+          lift: isControl || controlRate === 0 ? null : (conversionRate - controlRate) / controlRate,
+          test: isControl ? null : twoProportionTest(control, { exposures, conversions })
+        };
+      })
+    };
+  });
+}
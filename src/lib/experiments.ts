@@ -0,0 +1,195 @@
+// A/B experiment registry and assignment. Experiments live in code next to the
+// copy they test, so this module must stay free of Node and Prisma imports:
+// src/middleware.ts runs it on the edge to assign variants before a page
+// renders. Exposures and conversions are recorded by experiment-tracking.ts.
+// Copy is referenced by message key and translated where it's rendered.
+
+import type { MessageKey } from '@/lib/i18n/messages/en';
+
+export const VISITOR_COOKIE = 'cherry_vid';
+export const EXPERIMENT_COOKIE = 'cherry_experiments';
+export const EXPERIMENT_COOKIE_MAX_AGE = 365 * 24 * 60 * 60;
+
+export type ExperimentVariant<C> = {
+  key: string;
+  // Relative; weights don't need to add up to 100
+  weight: number;
+  content: C;
+};
+
+// While `active` is false everyone sees the first variant and nothing is logged
+export type ExperimentDefinition<C> = {
+  name: string;
+  active: boolean;
+  variants: ExperimentVariant<C>[];
+};
+
+export type HeroContent = {
+  headline: MessageKey;
+  subheadline: MessageKey;
+};
+
+export type WaitlistFormContent = {
+  askName: boolean;
+  submitLabel: MessageKey;
+};
+
+const landingHero: ExperimentDefinition<HeroContent> = {
+  name: 'Landing page headline',
+  active: true,
+  variants: [
+    {
+      key: 'control',
+      weight: 50,
+      content: {
+        headline: 'hero.control.headline',
+        subheadline: 'hero.control.subheadline'
+      }
+    },
+    {
+      key: 'early-access',
+      weight: 50,
+      content: {
+        headline: 'hero.earlyAccess.headline',
+        subheadline: 'hero.earlyAccess.subheadline'
+      }
+    }
+  ]
+};
+
+const waitlistForm: ExperimentDefinition<WaitlistFormContent> = {
+  name: 'Signup form fields',
+  active: true,
+  variants: [
+    { key: 'control', weight: 50, content: { askName: true, submitLabel: 'form.submit.join' } },
+    { key: 'email-only', weight: 50, content: { askName: false, submitLabel: 'form.submit.reserve' } }
+  ]
+};
+
+export const EXPERIMENTS = {
+  'landing-hero': landingHero,
+  'waitlist-form': waitlistForm
+};
+
+export type ExperimentKey = keyof typeof EXPERIMENTS;
+
+export type ExperimentContent<K extends ExperimentKey> =
+  (typeof EXPERIMENTS)[K] extends ExperimentDefinition<infer C> ? C : never;
+
+export type Assignments = Partial<Record<ExperimentKey, string>>;
+
+export function isExperimentKey(key: string): key is ExperimentKey {
+  return Object.prototype.hasOwnProperty.call(EXPERIMENTS, key);
+}
+
+export function findVariant<K extends ExperimentKey>(
+  experimentKey: K,
+  variantKey: string | undefined
+): ExperimentVariant<ExperimentContent<K>> | undefined {
+  const variants = EXPERIMENTS[experimentKey].variants as ExperimentVariant<ExperimentContent<K>>[];
+  return variants.find((variant) => variant.key === variantKey);
+}
+
+// Weighted random pick; `random` is in [0, 1)
+export function pickVariant<C>(definition: ExperimentDefinition<C>, random: number): ExperimentVariant<C> {
+  const total = definition.variants.reduce((sum, variant) => sum + Math.max(variant.weight, 0), 0);
+  let threshold = random * total;
+
+  for (const variant of definition.variants) {
+    threshold -= Math.max(variant.weight, 0);
+    if (threshold < 0) return variant;
+  }
+
+  return definition.variants[0];
+}
+
+// Drops entries for experiments or variants that no longer exist, so their
+// visitors are reassigned
+export function parseAssignments(value: string | undefined): Assignments {
+  if (!value) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(value) as Record<string, unknown>;
+    const assignments: Assignments = {};
+
+    for (const [experimentKey, variantKey] of Object.entries(parsed)) {
+      if (isExperimentKey(experimentKey) && typeof variantKey === 'string' && findVariant(experimentKey, variantKey)) {
+        assignments[experimentKey] = variantKey;
+      }
+    }
+
+    return assignments;
+  } catch {
+    return {};
+  }
+}
+
+export function serializeAssignments(assignments: Assignments): string {
+  return JSON.stringify(assignments);
+}
+
+// Keeps existing assignments and assigns every active experiment the visitor
+// hasn't been bucketed into yet
+export function assignExperiments(current: Assignments, random = Math.random): Assignments {
+  const assignments: Assignments = { ...current };
+
+  for (const experimentKey of Object.keys(EXPERIMENTS) as ExperimentKey[]) {
+    const definition = EXPERIMENTS[experimentKey];
+
+    if (definition.active && !assignments[experimentKey]) {
+      assignments[experimentKey] = pickVariant<unknown>(definition, random()).key;
+    }
+  }
+
+  return assignments;
+}
+
+// Variant to render: the assigned one, or the first variant (the control)
+// for inactive experiments and visitors without an assignment
+export function resolveVariant<K extends ExperimentKey>(experimentKey: K, assignments: Assignments) {
+  const definition = EXPERIMENTS[experimentKey];
+  const assigned = definition.active ? findVariant(experimentKey, assignments[experimentKey]) : undefined;
+
+  return assigned ?? (definition.variants[0] as ExperimentVariant<ExperimentContent<K>>);
+}
+
+export type ProportionTest = {
+  z: number;
+  pValue: number;
+  significant: boolean;
+};
+
+// Standard normal CDF via the Abramowitz and Stegun erf approximation
+// (absolute error below 1.5e-7)
+function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * (Math.abs(x) / Math.SQRT2));
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// Two-sided, pooled two-proportion z-test of a variant against the control.
+// Returns null until both groups have exposures and any conversions at all.
+export function twoProportionTest(
+  control: { exposures: number; conversions: number },
+  variant: { exposures: number; conversions: number },
+  alpha = 0.05
+): ProportionTest | null {
+  if (control.exposures === 0 || variant.exposures === 0) {
+    return null;
+  }
+
+  const pooled = (control.conversions + variant.conversions) / (control.exposures + variant.exposures);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / control.exposures + 1 / variant.exposures));
+
+  if (standardError === 0) {
+    return null;
+  }
+
+  const z = (variant.conversions / variant.exposures - control.conversions / control.exposures) / standardError;
+  const pValue = 2 * (1 - normalCdf(Math.abs(z)));
+
+  return { z, pValue, significant: pValue < alpha };
+}
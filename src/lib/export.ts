@@ -0,0 +1,145 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import type { SubscriberExportQuery } from '@/lib/validations/admin';
+
+// Rows are read in keyset-paginated batches so memory use stays flat no
+// matter how large the waitlist grows.
+const EXPORT_BATCH_SIZE = 500;
+
+const EXPORT_COLUMNS = [
+  'email',
+  'name',
+  'createdAt',
+  'verified',
+  'referralCode',
+  'referrerCode',
+  'referralCount',
+  'utmSource',
+  'utmMedium',
+  'utmCampaign'
+] as const;
+
+type ExportRow = Record<(typeof EXPORT_COLUMNS)[number], string | number | boolean | null>;
+
+const exportSelect = {
+  id: true,
+  email: true,
+  name: true,
+  createdAt: true,
+  verified: true,
+  referralCode: true,
+  utmSource: true,
+  utmMedium: true,
+  utmCampaign: true,
+  referrer: {
+    select: { referralCode: true }
+  },
+  _count: {
+    select: { referrals: true }
+  }
+} satisfies Prisma.SubscriberSelect;
+
+function buildWhere(query: SubscriberExportQuery): Prisma.SubscriberWhereInput {
+  return {
+    verified: query.verified,
+    // `to` is exclusive, see SubscriberExportQuerySchema
+    createdAt: query.from || query.to ? { gte: query.from, lt: query.to } : undefined
+  };
+}
+
+async function* exportRows(query: SubscriberExportQuery): AsyncGenerator<ExportRow> {
+  const where = buildWhere(query);
+  let cursor: string | undefined;
+
+  while (true) {
+    const batch = await prisma.subscriber.findMany({
+      where,
+      select: exportSelect,
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      take: EXPORT_BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+    });
+
+    for (const subscriber of batch) {
+      yield {
+        email: subscriber.email,
+        name: subscriber.name,
+        createdAt: subscriber.createdAt.toISOString(),
+        verified: subscriber.verified,
+        referralCode: subscriber.referralCode,
+        referrerCode: subscriber.referrer?.referralCode ?? null,
+        referralCount: subscriber._count.referrals,
+        utmSource: subscriber.utmSource,
+        utmMedium: subscriber.utmMedium,
+        utmCampaign: subscriber.utmCampaign
+      };
+    }
+
+    if (batch.length < EXPORT_BATCH_SIZE) {
+      return;
+    }
+
+    cursor = batch[batch.length - 1].id;
+  }
+}
+
+// Quotes a CSV cell and neutralises leading characters that spreadsheet apps
+// would otherwise interpret as a formula.
+function toCsvCell(value: ExportRow[keyof ExportRow]): string {
+  if (value === null) {
+    return '';
+  }
+
+  let text = String(value);
+
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatRow(row: ExportRow, format: SubscriberExportQuery['format']): string {
+  if (format === 'ndjson') {
+    return `${JSON.stringify(row)}\n`;
+  }
+
+  return `${EXPORT_COLUMNS.map((column) => toCsvCell(row[column])).join(',')}\r\n`;
+}
+
+export function createSubscriberExportStream(query: SubscriberExportQuery): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const rows = exportRows(query);
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (query.format === 'csv') {
+        controller.enqueue(encoder.encode(`${EXPORT_COLUMNS.join(',')}\r\n`));
+      }
+    },
+    // Pull-based so a slow client applies backpressure to the database reads
+    async pull(controller) {
+      try {
+        const { value, done } = await rows.next();
+
+        if (done) {
+          controller.close();
+          return;
+        }
+
+        controller.enqueue(encoder.encode(formatRow(value, query.format)));
+      } catch (error) {
+        console.error('Error streaming subscriber export:', error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await rows.return(undefined);
+    }
+  });
+}
+
+export function exportFileName(format: SubscriberExportQuery['format']): string {
+  const date = new Date().toISOString().slice(0, 10);
+  return `waitlist-${date}.${format === 'csv' ? 'csv' : 'ndjson'}`;
+}
@@ -0,0 +1,68 @@
+// Supported locales and locale detection. Kept free of Node and React imports
+// because src/middleware.ts runs it on the edge.
+
+export const LOCALES = ['en', 'es', 'fr'] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Set when a visitor opens a page under a locale prefix such as /es, so later
+// pages without the prefix and API calls keep that language
+export const LOCALE_COOKIE = 'cherry_locale';
+export const LOCALE_COOKIE_MAX_AGE = 365 * 24 * 60 * 60;
+
+// Request header through which the middleware hands the locale to pages
+export const LOCALE_HEADER = 'x-cherry-locale';
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as readonly string[]).includes(value);
+}
+
+// Best supported match for an Accept-Language header, e.g. "fr-CA,fr;q=0.9"
+// picks "fr". Region subtags fall back to their language.
+export function negotiateLocale(acceptLanguage: string | null | undefined): Locale {
+  if (!acceptLanguage) {
+    return DEFAULT_LOCALE;
+  }
+
+  const ranges = acceptLanguage
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().toLowerCase().split(';');
+      const q = params.map((param) => param.trim()).find((param) => param.startsWith('q='));
+      return { language: tag.split('-')[0], quality: q ? Number(q.slice(2)) : 1, index };
+    })
+    .filter(({ language, quality }) => language && language !== '*' && quality > 0)
+    // Stable for equal weights, so the header's own order wins
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  return ranges.find(({ language }) => isLocale(language))?.language as Locale | undefined ?? DEFAULT_LOCALE;
+}
+
+// Splits "/es/waitlist" into the locale and the path the page lives at
+export function splitLocalePrefix(pathname: string): { locale: Locale | null; pathname: string } {
+  const [, first, ...rest] = pathname.split('/');
+
+  if (isLocale(first)) {
+    return { locale: first, pathname: `/${rest.join('/')}` };
+  }
+
+  return { locale: null, pathname };
+}
+
+// The request's locale: an explicit choice (URL prefix or cookie) wins over
+// the browser's Accept-Language
+export function resolveLocale({
+  prefix,
+  cookie,
+  acceptLanguage
+}: {
+  prefix?: string | null;
+  cookie?: string | null;
+  acceptLanguage?: string | null;
+}): Locale {
+  if (isLocale(prefix)) return prefix;
+  if (isLocale(cookie)) return cookie;
+  return negotiateLocale(acceptLanguage);
+}
@@ -0,0 +1,47 @@
+import { DEFAULT_LOCALE, type Locale } from '@/lib/i18n/config';
+import { en, type MessageKey, type Messages } from '@/lib/i18n/messages/en';
+import { es } from '@/lib/i18n/messages/es';
+import { fr } from '@/lib/i18n/messages/fr';
+
+// Message catalogs and lookup, shared by server and client code. Locale
+// detection lives in config.ts (edge-safe) and server.ts (requests).
+
+export * from '@/lib/i18n/config';
+export type { MessageKey, Messages };
+
+const CATALOGS: Record<Locale, Messages> = { en, es, fr };
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translator = (key: MessageKey, params?: MessageParams) => string;
+
+export function isMessageKey(value: string): value is MessageKey {
+  return Object.prototype.hasOwnProperty.call(en, value);
+}
+
+export function translate(locale: Locale, key: MessageKey, params?: MessageParams): string {
+  const template = CATALOGS[locale]?.[key] ?? CATALOGS[DEFAULT_LOCALE][key];
+
+  if (!params) {
+    return template;
+  }
+
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
+
+export function createTranslator(locale: Locale): Translator {
+  return (key, params) => translate(locale, key, params);
+}
+
+// Marks a schema message as a catalog key so it's checked at compile time;
+// the key is translated when the error is shown (translateMessage)
+export function msg(key: MessageKey): MessageKey {
+  return key;
+}
+
+// Translates catalog keys and passes any other text through unchanged
+export function translateMessage(locale: Locale, message: string): string {
+  return isMessageKey(message) ? translate(locale, message) : message;
+}
@@ -0,0 +1,154 @@
+// English catalog, the source of truth for message keys: every other catalog
+// must translate exactly these keys. `{name}` placeholders are filled in by
+// translate().
+export const en = {
+  // Landing page (src/app/page.tsx)
+  'home.getStarted': 'Get started by editing',
+  'home.saveChanges': 'Save and see your changes instantly.',
+  'home.deployNow': 'Deploy now',
+  'home.readDocs': 'Read our docs',
+  'home.learn': 'Learn',
+  'home.examples': 'Examples',
+  'home.goToNextjs': 'Go to nextjs.org →',
+
+  // Variants of the "landing-hero" and "waitlist-form" experiments
+  'hero.control.headline': 'Join the Cherry Waitlist',
+  'hero.control.subheadline': 'Be the first to know when we launch. Enter your details below to join our waitlist.',
+  'hero.earlyAccess.headline': 'Get early access to Cherry',
+  'hero.earlyAccess.subheadline': 'Spots in the first release are limited. Reserve yours in seconds.',
+  'form.submit.join': 'Join the Waitlist',
+  'form.submit.reserve': 'Reserve my spot',
+
+  // /waitlist; {brand} marks where the highlighted product name goes
+  'waitlist.title': 'Join the {brand} Waitlist',
+  'waitlist.subtitle': 'Be among the first to experience Cherry, the next-generation spatial experience.',
+  'stats.peopleWaiting': 'People waiting',
+
+  // Signup form
+  'form.name.label': 'Name',
+  'form.name.placeholder': 'Your name',
+  'form.email.label': 'Email address',
+  'form.email.placeholder': 'you@example.com',
+  'form.referralCode.label': 'Referral code (optional)',
+  'form.referralCode.placeholder': 'Enter referral code',
+  'form.processing': 'Processing...',
+  'form.networkError': 'Network error. Please check your connection and try again.',
+  'form.unexpectedError': 'Something went wrong. Please try again.',
+  'form.success.title': "You're on the list!",
+  'form.success.body': 'Thanks for joining our waitlist. Check your inbox to confirm your email address and get your referral code.',
+  'form.position.label': 'Your place in line',
+  'form.position.of': 'of {total}',
+  'form.recover.action': 'Forgot your referral code? Send me my code',
+  'form.recover.sending': 'Sending...',
+
+  // Referral lookup (src/components/referral-stats.tsx)
+  'referralStats.title': 'Check Your Referrals',
+  'referralStats.placeholder': 'Enter your referral code',
+  'referralStats.submit': 'Check',
+  'referralStats.loading': 'Loading...',
+  'referralStats.failed': 'Failed to fetch referral stats',
+  'referralStats.totalReferrals': 'Total Referrals',
+  'referralStats.movedUp': 'Up {places} places thanks to your referrals',
+  'referralStats.signInPrompt': "Want to see who joined with your code and which rewards you've unlocked?",
+  'referralStats.signIn': 'Sign in with your email',
+
+  // Leaderboard
+  'leaderboard.title': 'Top Referrers',
+  'leaderboard.window.all': 'All time',
+  'leaderboard.window.30d': '30 days',
+  'leaderboard.window.7d': '7 days',
+  'leaderboard.loading': 'Loading...',
+  'leaderboard.failed': 'Failed to load the leaderboard',
+  'leaderboard.referrals': '{count} referrals',
+  'leaderboard.empty': 'No verified referrals yet. Be the first on the board!',
+  'leaderboard.yourRank': 'Your rank',
+  'leaderboard.unranked': 'Unranked',
+
+  // /login and /me
+  'auth.login.submit': 'Email me a sign-in link',
+  'auth.login.sending': 'Sending...',
+  'auth.magicLink.title': 'Sign in',
+  'auth.magicLink.body': 'Continue to see your referrals, rewards and place in line.',
+  'auth.magicLink.continue': 'Continue',
+  'auth.magicLink.pending': 'Signing in...',
+  'auth.signOut': 'Sign out',
+  'auth.signingOut': 'Signing out...',
+
+  // /privacy
+  'privacy.request.submit': 'Email me a link',
+  'privacy.request.sending': 'Sending...',
+  'privacy.export.title': 'Download your data',
+  'privacy.export.body': 'Get a JSON file with everything we hold about you, including your referrals.',
+  'privacy.export.action': 'Download my data',
+  'privacy.unsubscribe.title': 'Unsubscribe',
+  'privacy.unsubscribe.body': "Stop receiving emails from Cherry. You'll keep your spot on the waitlist.",
+  'privacy.unsubscribe.action': 'Unsubscribe',
+  'privacy.delete.title': 'Delete your account',
+  'privacy.delete.body': 'Permanently remove your spot on the waitlist and all data we hold about you. This cannot be undone.',
+  'privacy.delete.action': 'Delete my account',
+  'privacy.delete.confirm': 'Are you sure? This permanently deletes your account.',
+  'privacy.working': 'Working...',
+
+  // Field messages of the signup schemas
+  'validation.email.required': 'Email is required',
+  'validation.email.invalid': 'Please enter a valid email address',
+  'validation.email.tooShort': 'Email must be at least 5 characters',
+  'validation.email.tooLong': 'Email must be less than 100 characters',
+  'validation.name.required': 'Name is required',
+  'validation.name.tooLong': 'Name must be less than 100 characters',
+  'validation.referralCode.mistyped': 'This referral code looks mistyped. Please check it and try again',
+  'validation.referralCode.tooShort': 'Referral code is too short',
+  'validation.referralCode.tooLong': 'Referral code is too long',
+  'validation.experiment.unknown': 'Unknown experiment',
+
+  // Zod's built-in issues (zodErrorMap)
+  'validation.required': 'Required',
+  'validation.invalidType': 'Expected {expected}',
+  'validation.invalid': 'Invalid value',
+  'validation.invalidEmail': 'Invalid email address',
+  'validation.invalidOption': 'Expected one of: {options}',
+  'validation.stringTooShort': 'Must be at least {minimum} characters',
+  'validation.stringTooLong': 'Must be at most {maximum} characters',
+  'validation.numberTooSmall': 'Must be at least {minimum}',
+  'validation.numberTooBig': 'Must be at most {maximum}',
+  'validation.notInteger': 'Must be a whole number',
+
+  // API success messages
+  'api.signup.success': 'Thank you for joining our waitlist! Please check your inbox to confirm your email.',
+  'api.verify.verified': 'Your email has been verified. Welcome aboard!',
+  'api.verify.alreadyVerified': 'Your email is already verified',
+  'api.verify.resent': 'If that address is waiting for verification, a new link is on its way.',
+  'api.referralCode.sent': "If that address is on the waitlist, we've emailed it your referral code.",
+  'api.login.sent': "If that address is on the waitlist, we've emailed it a sign-in link.",
+  'api.session.signedIn': 'Signed in',
+  'api.session.signedOut': 'Signed out',
+  'api.privacy.requested': "If that address is on the waitlist, we've emailed it a link to manage your data.",
+  'api.privacy.unsubscribed': "You've been unsubscribed from Cherry emails",
+  'api.privacy.deleted': 'Your account and data have been deleted',
+
+  // API error messages; the `error` code next to them doesn't change with the locale
+  'errors.server': 'An error occurred while processing your request',
+  'errors.validationFailed': 'Validation failed',
+  'errors.invalidQuery': 'Invalid query parameters',
+  'errors.rateLimited': 'Too many requests. Please try again later.',
+  'errors.signupRateLimited': 'Too many signups from your network. Please try again later.',
+  'errors.referralCodeRateLimited': 'This referral code is receiving too many signups. Please try again later.',
+  'errors.tooFast': 'That was quick! Please take a moment to review the form and submit again.',
+  'errors.disposableEmail': "Disposable email addresses can't join the waitlist. Please use a permanent address.",
+  'errors.invalidReferralCode': 'Invalid referral code',
+  'errors.malformedReferralCode': 'Invalid referral code format',
+  'errors.referralCodeNotFound': 'Referral code not found',
+  'errors.invalidVerificationToken': 'Invalid verification token',
+  'errors.verificationExpired': 'This verification link has expired. Please request a new one.',
+  'errors.invalidLoginLink': 'This sign-in link is invalid, has expired or was already used. Please request a new one.',
+  'errors.unauthenticated': 'Authentication required',
+  'errors.invalidPrivacyLink': 'This link is invalid or has expired',
+  'errors.invalidJson': 'Invalid JSON body',
+  'errors.invitationNotFound': 'Invalid access code',
+  'errors.invitationAlreadyRedeemed': 'This access code has already been used',
+  'errors.invitationExpired': 'This access code has expired'
+} as const;
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, string>;
@@ -0,0 +1,133 @@
+import type { Messages } from './en';
+
+export const es: Messages = {
+  'home.getStarted': 'Empieza editando',
+  'home.saveChanges': 'Guarda y ve tus cambios al instante.',
+  'home.deployNow': 'Desplegar ahora',
+  'home.readDocs': 'Lee la documentación',
+  'home.learn': 'Aprender',
+  'home.examples': 'Ejemplos',
+  'home.goToNextjs': 'Ir a nextjs.org →',
+
+  'hero.control.headline': 'Únete a la lista de espera de Cherry',
+  'hero.control.subheadline': 'Sé el primero en enterarte cuando lancemos. Introduce tus datos para unirte a la lista de espera.',
+  'hero.earlyAccess.headline': 'Consigue acceso anticipado a Cherry',
+  'hero.earlyAccess.subheadline': 'Las plazas de la primera versión son limitadas. Reserva la tuya en segundos.',
+  'form.submit.join': 'Unirme a la lista',
+  'form.submit.reserve': 'Reservar mi plaza',
+
+  'waitlist.title': 'Únete a la lista de espera de {brand}',
+  'waitlist.subtitle': 'Sé de los primeros en probar Cherry, la experiencia espacial de nueva generación.',
+  'stats.peopleWaiting': 'Personas esperando',
+
+  'form.name.label': 'Nombre',
+  'form.name.placeholder': 'Tu nombre',
+  'form.email.label': 'Correo electrónico',
+  'form.email.placeholder': 'tu@ejemplo.com',
+  'form.referralCode.label': 'Código de referido (opcional)',
+  'form.referralCode.placeholder': 'Introduce el código de referido',
+  'form.processing': 'Procesando...',
+  'form.networkError': 'Error de red. Comprueba tu conexión e inténtalo de nuevo.',
+  'form.unexpectedError': 'Algo salió mal. Inténtalo de nuevo.',
+  'form.success.title': '¡Ya estás en la lista!',
+  'form.success.body': 'Gracias por unirte a nuestra lista de espera. Revisa tu bandeja de entrada para confirmar tu correo y recibir tu código de referido.',
+  'form.position.label': 'Tu puesto en la fila',
+  'form.position.of': 'de {total}',
+  'form.recover.action': '¿Olvidaste tu código de referido? Envíamelo',
+  'form.recover.sending': 'Enviando...',
+  'referralStats.title': 'Consulta tus referidos',
+  'referralStats.placeholder': 'Introduce tu código de referido',
+  'referralStats.submit': 'Consultar',
+  'referralStats.loading': 'Cargando...',
+  'referralStats.failed': 'No se pudieron obtener las estadísticas de referidos',
+  'referralStats.totalReferrals': 'Referidos en total',
+  'referralStats.movedUp': 'Has subido {places} puestos gracias a tus referidos',
+  'referralStats.signInPrompt': '¿Quieres ver quién se unió con tu código y qué recompensas has desbloqueado?',
+  'referralStats.signIn': 'Inicia sesión con tu correo',
+  'leaderboard.title': 'Mejores referentes',
+  'leaderboard.window.all': 'Siempre',
+  'leaderboard.window.30d': '30 días',
+  'leaderboard.window.7d': '7 días',
+  'leaderboard.loading': 'Cargando...',
+  'leaderboard.failed': 'No se pudo cargar la clasificación',
+  'leaderboard.referrals': '{count} referidos',
+  'leaderboard.empty': 'Todavía no hay referidos verificados. ¡Sé el primero en la clasificación!',
+  'leaderboard.yourRank': 'Tu puesto',
+  'leaderboard.unranked': 'Sin clasificar',
+  'auth.login.submit': 'Envíame un enlace de inicio de sesión',
+  'auth.login.sending': 'Enviando...',
+  'auth.magicLink.title': 'Iniciar sesión',
+  'auth.magicLink.body': 'Continúa para ver tus referidos, tus recompensas y tu puesto en la lista.',
+  'auth.magicLink.continue': 'Continuar',
+  'auth.magicLink.pending': 'Iniciando sesión...',
+  'auth.signOut': 'Cerrar sesión',
+  'auth.signingOut': 'Cerrando sesión...',
+  'privacy.request.submit': 'Envíame un enlace',
+  'privacy.request.sending': 'Enviando...',
+  'privacy.export.title': 'Descarga tus datos',
+  'privacy.export.body': 'Obtén un archivo JSON con todo lo que guardamos sobre ti, incluidos tus referidos.',
+  'privacy.export.action': 'Descargar mis datos',
+  'privacy.unsubscribe.title': 'Darse de baja',
+  'privacy.unsubscribe.body': 'Deja de recibir correos de Cherry. Conservarás tu puesto en la lista de espera.',
+  'privacy.unsubscribe.action': 'Darme de baja',
+  'privacy.delete.title': 'Elimina tu cuenta',
+  'privacy.delete.body': 'Elimina para siempre tu puesto en la lista de espera y todos los datos que guardamos sobre ti. No se puede deshacer.',
+  'privacy.delete.action': 'Eliminar mi cuenta',
+  'privacy.delete.confirm': '¿Seguro? Esto elimina tu cuenta para siempre.',
+  'privacy.working': 'Procesando...',
+
+  'validation.email.required': 'El correo electrónico es obligatorio',
+  'validation.email.invalid': 'Introduce un correo electrónico válido',
+  'validation.email.tooShort': 'El correo electrónico debe tener al menos 5 caracteres',
+  'validation.email.tooLong': 'El correo electrónico debe tener menos de 100 caracteres',
+  'validation.name.required': 'El nombre es obligatorio',
+  'validation.name.tooLong': 'El nombre debe tener menos de 100 caracteres',
+  'validation.referralCode.mistyped': 'Parece que este código de referido tiene un error. Revísalo e inténtalo de nuevo',
+  'validation.referralCode.tooShort': 'El código de referido es demasiado corto',
+  'validation.referralCode.tooLong': 'El código de referido es demasiado largo',
+  'validation.experiment.unknown': 'Experimento desconocido',
+
+  'validation.required': 'Obligatorio',
+  'validation.invalidType': 'Se esperaba {expected}',
+  'validation.invalid': 'Valor no válido',
+  'validation.invalidEmail': 'Correo electrónico no válido',
+  'validation.invalidOption': 'Se esperaba uno de: {options}',
+  'validation.stringTooShort': 'Debe tener al menos {minimum} caracteres',
+  'validation.stringTooLong': 'Debe tener como máximo {maximum} caracteres',
+  'validation.numberTooSmall': 'Debe ser al menos {minimum}',
+  'validation.numberTooBig': 'Debe ser como máximo {maximum}',
+  'validation.notInteger': 'Debe ser un número entero',
+
+  'api.signup.success': '¡Gracias por unirte a nuestra lista de espera! Revisa tu bandeja de entrada para confirmar tu correo.',
+  'api.verify.verified': 'Tu correo ha sido verificado. ¡Bienvenido a bordo!',
+  'api.verify.alreadyVerified': 'Tu correo ya está verificado',
+  'api.verify.resent': 'Si esa dirección está pendiente de verificación, te hemos enviado un enlace nuevo.',
+  'api.referralCode.sent': 'Si esa dirección está en la lista de espera, le hemos enviado su código de referido.',
+  'api.login.sent': 'Si esa dirección está en la lista de espera, le hemos enviado un enlace para iniciar sesión.',
+  'api.session.signedIn': 'Sesión iniciada',
+  'api.session.signedOut': 'Sesión cerrada',
+  'api.privacy.requested': 'Si esa dirección está en la lista de espera, le hemos enviado un enlace para gestionar sus datos.',
+  'api.privacy.unsubscribed': 'Has dejado de recibir correos de Cherry',
+  'api.privacy.deleted': 'Tu cuenta y tus datos han sido eliminados',
+
+  'errors.server': 'Se produjo un error al procesar tu solicitud',
+  'errors.validationFailed': 'La validación ha fallado',
+  'errors.invalidQuery': 'Parámetros de consulta no válidos',
+  'errors.rateLimited': 'Demasiadas solicitudes. Inténtalo de nuevo más tarde.',
+  'errors.signupRateLimited': 'Demasiados registros desde tu red. Inténtalo de nuevo más tarde.',
+  'errors.referralCodeRateLimited': 'Este código de referido está recibiendo demasiados registros. Inténtalo de nuevo más tarde.',
+  'errors.tooFast': '¡Qué rapidez! Tómate un momento para revisar el formulario y envíalo de nuevo.',
+  'errors.disposableEmail': 'Las direcciones de correo desechables no pueden unirse a la lista de espera. Usa una dirección permanente.',
+  'errors.invalidReferralCode': 'Código de referido no válido',
+  'errors.malformedReferralCode': 'Formato de código de referido no válido',
+  'errors.referralCodeNotFound': 'Código de referido no encontrado',
+  'errors.invalidVerificationToken': 'Token de verificación no válido',
+  'errors.verificationExpired': 'Este enlace de verificación ha caducado. Solicita uno nuevo.',
+  'errors.invalidLoginLink': 'Este enlace de inicio de sesión no es válido, ha caducado o ya se ha usado. Solicita uno nuevo.',
+  'errors.unauthenticated': 'Debes iniciar sesión',
+  'errors.invalidPrivacyLink': 'Este enlace no es válido o ha caducado',
+  'errors.invalidJson': 'El cuerpo JSON no es válido',
+  'errors.invitationNotFound': 'Código de acceso no válido',
+  'errors.invitationAlreadyRedeemed': 'Este código de acceso ya se ha usado',
+  'errors.invitationExpired': 'Este código de acceso ha caducado'
+};
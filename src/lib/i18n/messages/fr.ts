@@ -0,0 +1,133 @@
+import type { Messages } from './en';
+
+export const fr: Messages = {
+  'home.getStarted': 'Commencez en modifiant',
+  'home.saveChanges': 'Enregistrez et voyez vos modifications instantanément.',
+  'home.deployNow': 'Déployer maintenant',
+  'home.readDocs': 'Lire la documentation',
+  'home.learn': 'Apprendre',
+  'home.examples': 'Exemples',
+  'home.goToNextjs': 'Aller sur nextjs.org →',
+
+  'hero.control.headline': "Rejoignez la liste d'attente de Cherry",
+  'hero.control.subheadline': "Soyez le premier informé de notre lancement. Saisissez vos coordonnées ci-dessous pour rejoindre la liste d'attente.",
+  'hero.earlyAccess.headline': 'Obtenez un accès anticipé à Cherry',
+  'hero.earlyAccess.subheadline': 'Les places de la première version sont limitées. Réservez la vôtre en quelques secondes.',
+  'form.submit.join': "Rejoindre la liste d'attente",
+  'form.submit.reserve': 'Réserver ma place',
+
+  'waitlist.title': "Rejoignez la liste d'attente de {brand}",
+  'waitlist.subtitle': 'Soyez parmi les premiers à découvrir Cherry, l’expérience spatiale de nouvelle génération.',
+  'stats.peopleWaiting': 'Personnes en attente',
+
+  'form.name.label': 'Nom',
+  'form.name.placeholder': 'Votre nom',
+  'form.email.label': 'Adresse e-mail',
+  'form.email.placeholder': 'vous@exemple.com',
+  'form.referralCode.label': 'Code de parrainage (facultatif)',
+  'form.referralCode.placeholder': 'Saisissez un code de parrainage',
+  'form.processing': 'Traitement...',
+  'form.networkError': 'Erreur réseau. Vérifiez votre connexion et réessayez.',
+  'form.unexpectedError': "Une erreur s'est produite. Veuillez réessayer.",
+  'form.success.title': 'Vous êtes sur la liste !',
+  'form.success.body': "Merci d'avoir rejoint notre liste d'attente. Consultez votre boîte de réception pour confirmer votre adresse e-mail et recevoir votre code de parrainage.",
+  'form.position.label': "Votre place dans la file",
+  'form.position.of': 'sur {total}',
+  'form.recover.action': 'Code de parrainage oublié ? Envoyez-le-moi',
+  'form.recover.sending': 'Envoi...',
+  'referralStats.title': 'Consultez vos parrainages',
+  'referralStats.placeholder': 'Saisissez votre code de parrainage',
+  'referralStats.submit': 'Consulter',
+  'referralStats.loading': 'Chargement...',
+  'referralStats.failed': 'Impossible de récupérer les statistiques de parrainage',
+  'referralStats.totalReferrals': 'Parrainages au total',
+  'referralStats.movedUp': 'Vous avez gagné {places} places grâce à vos parrainages',
+  'referralStats.signInPrompt': 'Envie de voir qui a rejoint la liste avec votre code et les récompenses débloquées ?',
+  'referralStats.signIn': 'Connectez-vous avec votre e-mail',
+  'leaderboard.title': 'Meilleurs parrains',
+  'leaderboard.window.all': 'Depuis le début',
+  'leaderboard.window.30d': '30 jours',
+  'leaderboard.window.7d': '7 jours',
+  'leaderboard.loading': 'Chargement...',
+  'leaderboard.failed': 'Impossible de charger le classement',
+  'leaderboard.referrals': '{count} parrainages',
+  'leaderboard.empty': 'Aucun parrainage vérifié pour le moment. Soyez le premier au classement !',
+  'leaderboard.yourRank': 'Votre rang',
+  'leaderboard.unranked': 'Non classé',
+  'auth.login.submit': "M'envoyer un lien de connexion",
+  'auth.login.sending': 'Envoi...',
+  'auth.magicLink.title': 'Connexion',
+  'auth.magicLink.body': 'Continuez pour voir vos parrainages, vos récompenses et votre place dans la file.',
+  'auth.magicLink.continue': 'Continuer',
+  'auth.magicLink.pending': 'Connexion...',
+  'auth.signOut': 'Se déconnecter',
+  'auth.signingOut': 'Déconnexion...',
+  'privacy.request.submit': "M'envoyer un lien",
+  'privacy.request.sending': 'Envoi...',
+  'privacy.export.title': 'Téléchargez vos données',
+  'privacy.export.body': 'Obtenez un fichier JSON avec tout ce que nous conservons sur vous, y compris vos parrainages.',
+  'privacy.export.action': 'Télécharger mes données',
+  'privacy.unsubscribe.title': 'Se désabonner',
+  'privacy.unsubscribe.body': "Ne recevez plus d'e-mails de Cherry. Vous gardez votre place sur la liste d'attente.",
+  'privacy.unsubscribe.action': 'Me désabonner',
+  'privacy.delete.title': 'Supprimez votre compte',
+  'privacy.delete.body': "Supprimez définitivement votre place sur la liste d'attente et toutes les données que nous conservons sur vous. Cette action est irréversible.",
+  'privacy.delete.action': 'Supprimer mon compte',
+  'privacy.delete.confirm': 'Êtes-vous sûr ? Votre compte sera supprimé définitivement.',
+  'privacy.working': 'Traitement...',
+
+  'validation.email.required': "L'adresse e-mail est obligatoire",
+  'validation.email.invalid': 'Veuillez saisir une adresse e-mail valide',
+  'validation.email.tooShort': "L'adresse e-mail doit contenir au moins 5 caractères",
+  'validation.email.tooLong': "L'adresse e-mail doit contenir moins de 100 caractères",
+  'validation.name.required': 'Le nom est obligatoire',
+  'validation.name.tooLong': 'Le nom doit contenir moins de 100 caractères',
+  'validation.referralCode.mistyped': 'Ce code de parrainage semble mal saisi. Vérifiez-le et réessayez',
+  'validation.referralCode.tooShort': 'Le code de parrainage est trop court',
+  'validation.referralCode.tooLong': 'Le code de parrainage est trop long',
+  'validation.experiment.unknown': 'Expérience inconnue',
+
+  'validation.required': 'Obligatoire',
+  'validation.invalidType': '{expected} attendu',
+  'validation.invalid': 'Valeur non valide',
+  'validation.invalidEmail': 'Adresse e-mail non valide',
+  'validation.invalidOption': "Valeur attendue parmi : {options}",
+  'validation.stringTooShort': 'Doit contenir au moins {minimum} caractères',
+  'validation.stringTooLong': 'Doit contenir au plus {maximum} caractères',
+  'validation.numberTooSmall': 'Doit être supérieur ou égal à {minimum}',
+  'validation.numberTooBig': 'Doit être inférieur ou égal à {maximum}',
+  'validation.notInteger': 'Doit être un nombre entier',
+
+  'api.signup.success': "Merci d'avoir rejoint notre liste d'attente ! Consultez votre boîte de réception pour confirmer votre adresse e-mail.",
+  'api.verify.verified': 'Votre adresse e-mail a été vérifiée. Bienvenue à bord !',
+  'api.verify.alreadyVerified': 'Votre adresse e-mail est déjà vérifiée',
+  'api.verify.resent': "Si cette adresse attend une vérification, un nouveau lien est en route.",
+  'api.referralCode.sent': "Si cette adresse est sur la liste d'attente, nous lui avons envoyé son code de parrainage.",
+  'api.login.sent': "Si cette adresse est sur la liste d'attente, nous lui avons envoyé un lien de connexion.",
+  'api.session.signedIn': 'Connecté',
+  'api.session.signedOut': 'Déconnecté',
+  'api.privacy.requested': "Si cette adresse est sur la liste d'attente, nous lui avons envoyé un lien pour gérer ses données.",
+  'api.privacy.unsubscribed': 'Vous ne recevrez plus les e-mails de Cherry',
+  'api.privacy.deleted': 'Votre compte et vos données ont été supprimés',
+
+  'errors.server': "Une erreur s'est produite lors du traitement de votre demande",
+  'errors.validationFailed': 'La validation a échoué',
+  'errors.invalidQuery': 'Paramètres de requête non valides',
+  'errors.rateLimited': 'Trop de requêtes. Veuillez réessayer plus tard.',
+  'errors.signupRateLimited': 'Trop d’inscriptions depuis votre réseau. Veuillez réessayer plus tard.',
+  'errors.referralCodeRateLimited': 'Ce code de parrainage reçoit trop d’inscriptions. Veuillez réessayer plus tard.',
+  'errors.tooFast': 'Quelle rapidité ! Prenez un instant pour relire le formulaire puis envoyez-le à nouveau.',
+  'errors.disposableEmail': "Les adresses e-mail jetables ne peuvent pas rejoindre la liste d'attente. Veuillez utiliser une adresse permanente.",
+  'errors.invalidReferralCode': 'Code de parrainage non valide',
+  'errors.malformedReferralCode': 'Format du code de parrainage non valide',
+  'errors.referralCodeNotFound': 'Code de parrainage introuvable',
+  'errors.invalidVerificationToken': 'Jeton de vérification non valide',
+  'errors.verificationExpired': 'Ce lien de vérification a expiré. Veuillez en demander un nouveau.',
+  'errors.invalidLoginLink': 'Ce lien de connexion est non valide, a expiré ou a déjà été utilisé. Veuillez en demander un nouveau.',
+  'errors.unauthenticated': 'Authentification requise',
+  'errors.invalidPrivacyLink': 'Ce lien est non valide ou a expiré',
+  'errors.invalidJson': 'Corps JSON non valide',
+  'errors.invitationNotFound': "Code d'accès non valide",
+  'errors.invitationAlreadyRedeemed': "Ce code d'accès a déjà été utilisé",
+  'errors.invitationExpired': "Ce code d'accès a expiré"
+};
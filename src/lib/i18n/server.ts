@@ -0,0 +1,58 @@
+import { cookies, headers } from 'next/headers';
+import {
+  LOCALE_COOKIE,
+  LOCALE_HEADER,
+  createTranslator,
+  isLocale,
+  resolveLocale,
+  type Locale,
+  type Translator
+} from '@/lib/i18n';
+
+// Locale of the page being rendered, as resolved by src/middleware.ts
+export async function getLocale(): Promise<Locale> {
+  const headerStore = await headers();
+  const locale = headerStore.get(LOCALE_HEADER);
+
+  if (isLocale(locale)) {
+    return locale;
+  }
+
+  // Routes the middleware doesn't run on
+  const cookieStore = await cookies();
+  return resolveLocale({
+    cookie: cookieStore.get(LOCALE_COOKIE)?.value,
+    acceptLanguage: headerStore.get('accept-language')
+  });
+}
+
+export async function getTranslations(): Promise<{ locale: Locale; t: Translator }> {
+  const locale = await getLocale();
+  return { locale, t: createTranslator(locale) };
+}
+
+// Locale of an API request: the visitor's chosen language (the cookie set by
+// a locale-prefixed page) or else their browser's Accept-Language
+export function getRequestLocale(request: Request): Locale {
+  return resolveLocale({
+    cookie: readCookie(request.headers.get('cookie'), LOCALE_COOKIE),
+    acceptLanguage: request.headers.get('accept-language')
+  });
+}
+
+function readCookie(header: string | null, name: string): string | null {
+  for (const part of header?.split(';') ?? []) {
+    const [key, ...value] = part.trim().split('=');
+
+    if (key === name) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+
+  return null;
+}
+
+export function getRequestTranslator(request: Request): { locale: Locale; t: Translator } {
+  const locale = getRequestLocale(request);
+  return { locale, t: createTranslator(locale) };
+}
@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import { translate, translateMessage, type Locale } from '@/lib/i18n';
+
+// Localized messages for zod's built-in issues. Messages a schema sets itself
+// are catalog keys (see msg()) and are translated by localizeZodError() or by
+// whatever renders them.
+export function zodErrorMap(locale: Locale): z.ZodErrorMap {
+  return (issue, ctx) => {
+    switch (issue.code) {
+      case z.ZodIssueCode.invalid_type:
+        if (issue.received === z.ZodParsedType.undefined || issue.received === z.ZodParsedType.null) {
+          return { message: translate(locale, 'validation.required') };
+        }
+        if (issue.expected === z.ZodParsedType.integer) {
+          return { message: translate(locale, 'validation.notInteger') };
+        }
+        return { message: translate(locale, 'validation.invalidType', { expected: issue.expected }) };
+      case z.ZodIssueCode.invalid_string:
+        return {
+          message: translate(locale, issue.validation === 'email' ? 'validation.invalidEmail' : 'validation.invalid')
+        };
+      case z.ZodIssueCode.invalid_enum_value:
+        return { message: translate(locale, 'validation.invalidOption', { options: issue.options.join(', ') }) };
+      case z.ZodIssueCode.too_small:
+        if (issue.type === 'string') {
+          return issue.minimum === 1
+            ? { message: translate(locale, 'validation.required') }
+            : { message: translate(locale, 'validation.stringTooShort', { minimum: Number(issue.minimum) }) };
+        }
+        if (issue.type === 'number') {
+          return { message: translate(locale, 'validation.numberTooSmall', { minimum: Number(issue.minimum) }) };
+        }
+        break;
+      case z.ZodIssueCode.too_big:
+        if (issue.type === 'string') {
+          return { message: translate(locale, 'validation.stringTooLong', { maximum: Number(issue.maximum) }) };
+        }
+        if (issue.type === 'number') {
+          return { message: translate(locale, 'validation.numberTooBig', { maximum: Number(issue.maximum) }) };
+        }
+        break;
+      case z.ZodIssueCode.custom:
+      case z.ZodIssueCode.invalid_union:
+      case z.ZodIssueCode.invalid_date:
+        return { message: translate(locale, 'validation.invalid') };
+    }
+
+    return { message: ctx.defaultError };
+  };
+}
+
+// Field errors for an API response, in the request's locale
+export function localizeZodError(error: z.ZodError, locale: Locale) {
+  return error.flatten((issue) => translateMessage(locale, issue.message)).fieldErrors;
+}
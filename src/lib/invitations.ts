@@ -0,0 +1,271 @@
+import { randomInt } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getMailer } from '@/lib/mailer';
+import { getSubscriberIdsByPosition } from '@/lib/position';
+import { REFERRAL_CODE_ALPHABET } from '@/lib/referral-code';
+import { hashToken } from '@/lib/verification';
+import type { InvitationBatchData } from '@/lib/validations/admin';
+
+// Launch invitations. Admins issue batches of single-use access codes to the
+// front of the queue; the product calls the redemption route to let people in.
+// `Subscriber.invitationStatus` mirrors the state of their latest invitation
+// so the waitlist can be filtered without joining every invitation.
+
+const ACCESS_CODE_GROUPS = 3;
+const ACCESS_CODE_GROUP_LENGTH = 4;
+
+export type RedemptionResult =
+  | { status: 'accepted'; subscriber: { id: string; email: string; name: string | null } }
+  | { status: 'invalid' | 'expired' | 'already_redeemed' };
+
+// e.g. "7KQ2-M9XD-4RTA"; about 60 bits of entropy
+export function generateAccessCode(): string {
+  const groups = Array.from({ length: ACCESS_CODE_GROUPS }, () =>
+    Array.from(
+      { length: ACCESS_CODE_GROUP_LENGTH },
+      () => REFERRAL_CODE_ALPHABET[randomInt(REFERRAL_CODE_ALPHABET.length)]
+    ).join('')
+  );
+
+  return groups.join('-');
+}
+
+export function normalizeAccessCode(code: string): string {
+  return code.toUpperCase().replace(/[\s-]/g, '');
+}
+
+function hashAccessCode(code: string): string {
+  return hashToken(normalizeAccessCode(code));
+}
+
+// Moves subscribers whose invitations all lapsed unused to "expired"
+export async function expireInvitations(subscriberId?: string): Promise<number> {
+  const { count } = await prisma.subscriber.updateMany({
+    where: {
+      id: subscriberId,
+      invitationStatus: 'invited',
+      invitations: {
+        none: { acceptedAt: null, expiresAt: { gt: new Date() } }
+      }
+    },
+    data: { invitationStatus: 'expired' }
+  });
+
+  return count;
+}
+
+function eligibilityCondition(data: InvitationBatchData): Prisma.Sql {
+  const conditions: Prisma.Sql[] = [
+    data.reinviteExpired
+      ? Prisma.sql`(s."invitationStatus" IS NULL OR s."invitationStatus" = 'expired')`
+      : Prisma.sql`s."invitationStatus" IS NULL`,
+    // Unsubscribed people get no more email, invitations included
+    Prisma.sql`s."unsubscribedAt" IS NULL`
+  ];
+
+  if (data.verifiedOnly) {
+    conditions.push(Prisma.sql`s.verified = true`);
+  }
+
+  if (data.strategy === 'tier' && data.tierId) {
+    conditions.push(Prisma.sql`
+      EXISTS (SELECT 1 FROM "RewardGrant" g WHERE g."subscriberId" = s.id AND g."tierId" = ${data.tierId})
+    `);
+  }
+
+  if (data.strategy === 'segment' && data.segment) {
+    const { referrer, joinedFrom, joinedTo } = data.segment;
+
+    if (referrer === 'none') {
+      conditions.push(Prisma.sql`s."referredBy" IS NULL`);
+    } else if (referrer) {
+      conditions.push(Prisma.sql`
+        EXISTS (
+          SELECT 1 FROM "Subscriber" r
+          WHERE r.id = s."referredBy" AND (r."referralCode" = ${referrer} OR r.email = ${referrer})
+        )
+      `);
+    }
+
+    if (joinedFrom) {
+      conditions.push(Prisma.sql`s."createdAt" >= ${joinedFrom}`);
+    }
+
+    if (joinedTo) {
+      conditions.push(Prisma.sql`s."createdAt" <= ${joinedTo}`);
+    }
+  }
+
+  return Prisma.join(conditions, ' AND ');
+}
+
+type InvitedRow = {
+  id: string;
+  email: string;
+  name: string | null;
+};
+
+async function sendInvitationEmail(subscriber: InvitedRow, code: string, expiresAt: Date) {
+  const greeting = subscriber.name ? `Hi ${subscriber.name},` : 'Hi there,';
+  const productUrl = process.env.PRODUCT_URL;
+
+  await getMailer().send({
+    to: subscriber.email,
+    subject: "You're in! Your Cherry access code",
+    text: [
+      greeting,
+      '',
+      "Your wait is over. Here's your personal access code:",
+      '',
+      code,
+      '',
+      ...(productUrl ? [`Redeem it at ${productUrl}`, ''] : []),
+      `The code can be used once and expires on ${expiresAt.toUTCString()}.`
+    ].join('\n')
+  });
+}
+
+// Picks up to `count` eligible subscribers in queue order, invites them and
+// emails each one a code. Subscribers are claimed with a single conditional
+// UPDATE, so two batches running at once can't invite the same person twice.
+export async function issueInvitationBatch(data: InvitationBatchData) {
+  await expireInvitations();
+
+  const eligible = eligibilityCondition(data);
+  const candidateIds = await getSubscriberIdsByPosition(eligible, data.count);
+  const expiresAt = new Date(Date.now() + data.expiresInDays * 24 * 60 * 60 * 1000);
+
+  const { batch, codes } = await prisma.$transaction(async (tx) => {
+    const invited = candidateIds.length > 0
+      ? await tx.$queryRaw<InvitedRow[]>`
+          UPDATE "Subscriber" s
+          SET "invitationStatus" = 'invited', "updatedAt" = NOW()
+          WHERE s.id IN (${Prisma.join(candidateIds)}) AND ${eligible}
+          RETURNING s.id, s.email, s.name
+        `
+      : [];
+
+    // Keep queue order for the emails; RETURNING doesn't preserve it
+    const order = new Map(candidateIds.map((id, index) => [id, index]));
+    invited.sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0));
+
+    const batch = await tx.invitationBatch.create({
+      data: {
+        strategy: data.strategy,
+        criteria: {
+          tierId: data.tierId ?? null,
+          referrer: data.segment?.referrer ?? null,
+          joinedFrom: data.segment?.joinedFrom?.toISOString() ?? null,
+          joinedTo: data.segment?.joinedTo?.toISOString() ?? null,
+          verifiedOnly: data.verifiedOnly,
+          reinviteExpired: data.reinviteExpired
+        },
+        size: invited.length,
+        expiresAt
+      }
+    });
+
+    const codes = invited.map((subscriber) => ({ subscriber, code: generateAccessCode() }));
+
+    await tx.invitation.createMany({
+      data: codes.map(({ subscriber, code }) => ({
+        codeHash: hashAccessCode(code),
+        subscriberId: subscriber.id,
+        batchId: batch.id,
+        expiresAt
+      }))
+    });
+
+    return { batch, codes };
+  });
+
+  let emailed = 0;
+
+  for (const { subscriber, code } of codes) {
+    try {
+      await sendInvitationEmail(subscriber, code, expiresAt);
+      emailed += 1;
+    } catch (error) {
+      console.error(`Failed to send invitation email to subscriber ${subscriber.id}:`, error);
+    }
+  }
+
+  return { batch, invited: codes.length, emailed };
+}
+
+// Consumes a code. A code can only be accepted once, even under concurrent calls.
+export async function redeemInvitation(code: string): Promise<RedemptionResult> {
+  const invitation = await prisma.invitation.findUnique({
+    where: { codeHash: hashAccessCode(code) },
+    select: { id: true, subscriberId: true, expiresAt: true, acceptedAt: true }
+  });
+
+  if (!invitation) {
+    return { status: 'invalid' };
+  }
+
+  if (invitation.acceptedAt) {
+    return { status: 'already_redeemed' };
+  }
+
+  if (invitation.expiresAt < new Date()) {
+    await expireInvitations(invitation.subscriberId);
+    return { status: 'expired' };
+  }
+
+  return prisma.$transaction(async (tx): Promise<RedemptionResult> => {
+    const { count } = await tx.invitation.updateMany({
+      where: { id: invitation.id, acceptedAt: null },
+      data: { acceptedAt: new Date() }
+    });
+
+    if (count === 0) {
+      return { status: 'already_redeemed' };
+    }
+
+    const subscriber = await tx.subscriber.update({
+      where: { id: invitation.subscriberId },
+      data: { invitationStatus: 'accepted' },
+      select: { id: true, email: true, name: true }
+    });
+
+    return { status: 'accepted', subscriber };
+  });
+}
+
+export async function getInvitationOverview() {
+  await expireInvitations();
+
+  const [statusCounts, batches] = await Promise.all([
+    prisma.subscriber.groupBy({
+      by: ['invitationStatus'],
+      _count: { _all: true }
+    }),
+    prisma.invitationBatch.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: 20,
+      include: {
+        _count: {
+          select: {
+            invitations: { where: { acceptedAt: { not: null } } }
+          }
+        }
+      }
+    })
+  ]);
+
+  const counts = { waiting: 0, invited: 0, accepted: 0, expired: 0 };
+
+  for (const row of statusCounts) {
+    counts[row.invitationStatus ?? 'waiting'] += row._count._all;
+  }
+
+  return {
+    counts,
+    batches: batches.map(({ _count, ...batch }) => ({
+      ...batch,
+      accepted: _count.invitations
+    }))
+  };
+}
@@ -0,0 +1,95 @@
+import { prisma } from '@/lib/prisma';
+import { maskEmail } from '@/lib/mask';
+import { LEADERBOARD_WINDOWS } from '@/lib/api/contract';
+
+export type LeaderboardWindow = (typeof LEADERBOARD_WINDOWS)[number];
+
+export type LeaderboardEntry = {
+  rank: number;
+  name: string;
+  referrals: number;
+};
+
+export type Leaderboard = {
+  entries: LeaderboardEntry[];
+  // Present when a referral code was supplied and belongs to a subscriber
+  you: { rank: number | null; referrals: number } | null;
+};
+
+const WINDOW_DAYS: Record<LeaderboardWindow, number | null> = {
+  all: null,
+  '30d': 30,
+  '7d': 7
+};
+
+function windowStart(window: LeaderboardWindow): Date {
+  const days = WINDOW_DAYS[window];
+  return days === null ? new Date(0) : new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+}
+
+type LeaderboardRow = {
+  email: string;
+  referralCode: string | null;
+  referrals: bigint;
+  rank: bigint;
+};
+
+// Ranks referrers by verified, unflagged referrals that signed up inside the
+// window. Ties go to whoever joined the waitlist first.
+export async function getLeaderboard(
+  window: LeaderboardWindow,
+  limit: number,
+  referralCode?: string
+): Promise<Leaderboard> {
+  const rows = await prisma.$queryRaw<LeaderboardRow[]>`
+    WITH counts AS (
+      SELECT "referredBy" AS id, COUNT(*) AS referrals
+      FROM "Subscriber"
+      WHERE "referredBy" IS NOT NULL
+        AND verified = true
+        AND "fraudStatus" IN ('clean', 'approved')
+        AND "createdAt" >= ${windowStart(window)}
+      GROUP BY "referredBy"
+    ),
+    ranked AS (
+      SELECT
+        s.email,
+        s."referralCode",
+        c.referrals,
+        ROW_NUMBER() OVER (ORDER BY c.referrals DESC, s."createdAt" ASC, s.id ASC) AS rank
+      FROM counts c
+      JOIN "Subscriber" s ON s.id = c.id
+    )
+    SELECT email, "referralCode", referrals, rank
+    FROM ranked
+    WHERE rank <= ${limit} OR "referralCode" = ${referralCode ?? null}
+    ORDER BY rank
+  `;
+
+  const entries = rows
+    .filter((row) => Number(row.rank) <= limit)
+    .map((row) => ({
+      rank: Number(row.rank),
+      name: maskEmail(row.email),
+      referrals: Number(row.referrals)
+    }));
+
+  let you: Leaderboard['you'] = null;
+
+  if (referralCode) {
+    const own = rows.find((row) => row.referralCode === referralCode);
+
+    if (own) {
+      you = { rank: Number(own.rank), referrals: Number(own.referrals) };
+    } else {
+      // Not ranked yet; only report back if the code exists at all
+      const subscriber = await prisma.subscriber.findUnique({
+        where: { referralCode },
+        select: { id: true }
+      });
+      you = subscriber ? { rank: null, referrals: 0 } : null;
+    }
+  }
+
+  return { entries, you };
+}
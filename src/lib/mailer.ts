@@ -0,0 +1,103 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+// Any object with a `send` method can act as a transport, so a real provider
+// (SES, Postmark, Resend...) can be plugged in with `setMailer()`.
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = 'Cherry <no-reply@cherry.local>';
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+};
+
+// For anything a visitor typed, such as their name, before it goes into the
+// `html` part of a message
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+// Logs every message to stdout. Handy in development when no inbox is needed.
+export function createConsoleMailer(): Mailer {
+  return {
+    async send(message) {
+      console.log(
+        `[mail] from=${process.env.MAIL_FROM || DEFAULT_FROM} to=${message.to} subject="${message.subject}"\n${message.text}`
+      );
+    }
+  };
+}
+
+// Writes every message as a JSON file so tests and local runs can inspect
+// what would have been sent without network access.
+export function createFileMailer(directory: string): Mailer {
+  return {
+    async send(message) {
+      await fs.mkdir(directory, { recursive: true });
+
+      const fileName = `${Date.now()}-${message.to.replace(/[^a-z0-9]/gi, '_')}.json`;
+      const payload = {
+        from: process.env.MAIL_FROM || DEFAULT_FROM,
+        sentAt: new Date().toISOString(),
+        ...message
+      };
+
+      await fs.writeFile(path.join(directory, fileName), JSON.stringify(payload, null, 2));
+    }
+  };
+}
+
+export type MemoryMailer = Mailer & {
+  // Every message sent so far, oldest first
+  messages: MailMessage[];
+};
+
+// Keeps messages in memory. Install it with `setMailer()` in tests to assert
+// on emails, such as magic links, without touching the disk.
+export function createMemoryMailer(): MemoryMailer {
+  const messages: MailMessage[] = [];
+
+  return {
+    messages,
+    async send(message) {
+      messages.push({ ...message });
+    }
+  };
+}
+
+function createMailerFromEnv(): Mailer {
+  switch (process.env.MAIL_TRANSPORT) {
+    case 'file':
+      return createFileMailer(process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), '.mail-outbox'));
+    case 'console':
+    default:
+      return createConsoleMailer();
+  }
+}
+
+const globalForMailer = global as unknown as { mailer?: Mailer };
+
+export function getMailer(): Mailer {
+  if (!globalForMailer.mailer) {
+    globalForMailer.mailer = createMailerFromEnv();
+  }
+
+  return globalForMailer.mailer;
+}
+
+export function setMailer(mailer: Mailer) {
+  globalForMailer.mailer = mailer;
+}
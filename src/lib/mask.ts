@@ -0,0 +1,5 @@
+// Masks the local part of an email for public display, keeping the first two
+// characters: "jane.doe@example.com" -> "ja******@example.com"
+export function maskEmail(email: string): string {
+  return email.replace(/(.{2})(.*)(?=@)/, (_: string, start: string, rest: string) => start + '*'.repeat(rest.length));
+}
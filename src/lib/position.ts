@@ -0,0 +1,126 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+
+// Queue position algorithm
+//
+// Every subscriber starts at their signup order (1 = first to join). Each
+// verified referral moves them forward by `boostPerReferral` places, but never
+// past `floor`. Referrals flagged as fraudulent don't count (see
+// src/lib/referral-fraud.ts). Subscribers are then ranked by that score, with
+// signup order breaking ties, which keeps the result fully deterministic.
+
+export type PositionConfig = {
+  boostPerReferral: number;
+  floor: number;
+};
+
+export type QueuePosition = {
+  position: number;
+  total: number;
+  signupOrder: number;
+  verifiedReferrals: number;
+};
+
+export function getPositionConfig(): PositionConfig {
+  const boostPerReferral = Number(process.env.POSITION_BOOST_PER_REFERRAL);
+  const floor = Number(process.env.POSITION_FLOOR);
+
+  return {
+    boostPerReferral: Number.isFinite(boostPerReferral) && boostPerReferral >= 0 ? boostPerReferral : 5,
+    floor: Number.isInteger(floor) && floor >= 1 ? floor : 1
+  };
+}
+
+type PositionRow = {
+  position: bigint;
+  total: bigint;
+  signupOrder: bigint;
+  verifiedReferrals: bigint;
+};
+
+// Ranks every subscriber; callers select from the `ranked` CTE
+function rankedSubscribers(config: PositionConfig): Prisma.Sql {
+  return Prisma.sql`
+    WITH referral_counts AS (
+      SELECT "referredBy" AS id, COUNT(*) AS verified_referrals
+      FROM "Subscriber"
+      WHERE "referredBy" IS NOT NULL AND verified = true AND "fraudStatus" IN ('clean', 'approved')
+      GROUP BY "referredBy"
+    ),
+    base AS (
+      SELECT
+        s.id,
+        s."referralCode",
+        ROW_NUMBER() OVER (ORDER BY s."createdAt", s.id) AS signup_order,
+        COALESCE(rc.verified_referrals, 0) AS verified_referrals
+      FROM "Subscriber" s
+      LEFT JOIN referral_counts rc ON rc.id = s.id
+    ),
+    ranked AS (
+      SELECT
+        id,
+        "referralCode",
+        signup_order,
+        verified_referrals,
+        ROW_NUMBER() OVER (
+          ORDER BY GREATEST(signup_order - ${config.boostPerReferral}::numeric * verified_referrals, ${config.floor}::numeric), signup_order
+        ) AS position,
+        COUNT(*) OVER () AS total
+      FROM base
+    )
+  `;
+}
+
+async function findPosition(where: Prisma.Sql, config: PositionConfig): Promise<QueuePosition | null> {
+  const rows = await prisma.$queryRaw<PositionRow[]>`
+    ${rankedSubscribers(config)}
+    SELECT
+      position,
+      total,
+      signup_order AS "signupOrder",
+      verified_referrals AS "verifiedReferrals"
+    FROM ranked
+    WHERE ${where}
+  `;
+
+  const row = rows[0];
+
+  if (!row) {
+    return null;
+  }
+
+  return {
+    position: Number(row.position),
+    total: Number(row.total),
+    signupOrder: Number(row.signupOrder),
+    verifiedReferrals: Number(row.verifiedReferrals)
+  };
+}
+
+export async function getQueuePositionById(subscriberId: string, config = getPositionConfig()) {
+  return findPosition(Prisma.sql`id = ${subscriberId}`, config);
+}
+
+export async function getQueuePositionByCode(referralCode: string, config = getPositionConfig()) {
+  return findPosition(Prisma.sql`"referralCode" = ${referralCode}`, config);
+}
+
+// Ids of the subscribers matching `where` (a condition on Subscriber `s`),
+// front of the queue first
+export async function getSubscriberIdsByPosition(
+  where: Prisma.Sql,
+  limit: number,
+  config = getPositionConfig()
+): Promise<string[]> {
+  const rows = await prisma.$queryRaw<{ id: string }[]>`
+    ${rankedSubscribers(config)}
+    SELECT s.id
+    FROM ranked r
+    JOIN "Subscriber" s ON s.id = r.id
+    WHERE ${where}
+    ORDER BY r.position
+    LIMIT ${limit}
+  `;
+
+  return rows.map((row) => row.id);
+}
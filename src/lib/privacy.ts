@@ -0,0 +1,238 @@
+import { createHmac } from 'crypto';
+import { prisma } from '@/lib/prisma';
+import { canonicalizeEmail } from '@/lib/email';
+import { getMailer } from '@/lib/mailer';
+import { maskEmail } from '@/lib/mask';
+import { evaluateReferrerMilestones } from '@/lib/rewards';
+import { createSignedToken, getAppSecret, verifySignedToken } from '@/lib/signed-token';
+import { recordWaitlistChange } from '@/lib/waitlist-count';
+import { deleteSubscriberWebhookDeliveries } from '@/lib/webhooks';
+
+// GDPR self-service: every action is authorised by a signed, purpose-bound
+// link sent to the subscriber's own inbox.
+
+export const PRIVACY_PURPOSES = ['unsubscribe', 'export', 'delete'] as const;
+
+export type PrivacyPurpose = (typeof PRIVACY_PURPOSES)[number];
+
+const TOKEN_TTL_SECONDS: Record<PrivacyPurpose, number> = {
+  // Unsubscribe links sit in old emails, so they stay valid for a year
+  unsubscribe: 365 * 24 * 60 * 60,
+  export: 24 * 60 * 60,
+  delete: 24 * 60 * 60
+};
+
+type PrivacyTokenPayload = {
+  sub: string;
+  purpose: PrivacyPurpose;
+};
+
+export function createPrivacyToken(subscriberId: string, purpose: PrivacyPurpose): string {
+  return createSignedToken<PrivacyTokenPayload>(
+    { sub: subscriberId, purpose },
+    getAppSecret(),
+    TOKEN_TTL_SECONDS[purpose]
+  );
+}
+
+// Returns the subscriber id when the token is valid for this purpose
+export function verifyPrivacyToken(token: string, purpose: PrivacyPurpose): string | null {
+  const payload = verifySignedToken<PrivacyTokenPayload>(token, getAppSecret());
+  return payload && payload.purpose === purpose ? payload.sub : null;
+}
+
+// Reads a token without knowing its purpose in advance, for the /privacy page
+export function readPrivacyToken(token: string): { subscriberId: string; purpose: PrivacyPurpose } | null {
+  const payload = verifySignedToken<PrivacyTokenPayload>(token, getAppSecret());
+  return payload && PRIVACY_PURPOSES.includes(payload.purpose)
+    ? { subscriberId: payload.sub, purpose: payload.purpose }
+    : null;
+}
+
+export function buildPrivacyLink(appUrl: string, subscriberId: string, purpose: PrivacyPurpose): string {
+  return `${appUrl}/privacy?token=${encodeURIComponent(createPrivacyToken(subscriberId, purpose))}`;
+}
+
+// Returns whether an email went out. Mail errors are only logged, so known
+// and unknown addresses get the same answer.
+export async function sendPrivacyLinksEmail(email: string, appUrl: string): Promise<boolean> {
+  const subscriber = await prisma.subscriber.findUnique({
+    where: { canonicalEmail: canonicalizeEmail(email) },
+    select: { id: true, email: true }
+  });
+
+  if (!subscriber) {
+    return false;
+  }
+
+  const links = {
+    export: buildPrivacyLink(appUrl, subscriber.id, 'export'),
+    unsubscribe: buildPrivacyLink(appUrl, subscriber.id, 'unsubscribe'),
+    delete: buildPrivacyLink(appUrl, subscriber.id, 'delete')
+  };
+
+  try {
+    await getMailer().send({
+      to: subscriber.email,
+      subject: 'Manage your Cherry waitlist data',
+      text: [
+        'You asked to manage the data we hold about you. Use the links below:',
+        '',
+        `Download your data: ${links.export}`,
+        `Unsubscribe from emails: ${links.unsubscribe}`,
+        `Delete your account: ${links.delete}`,
+        '',
+        'The download and delete links expire in 24 hours. If you did not request this, you can ignore this email.'
+      ].join('\n'),
+      html: `<p>You asked to manage the data we hold about you. Use the links below:</p><ul><li><a href="${links.export}">Download your data</a></li><li><a href="${links.unsubscribe}">Unsubscribe from emails</a></li><li><a href="${links.delete}">Delete your account</a></li></ul><p>The download and delete links expire in 24 hours. If you did not request this, you can ignore this email.</p>`
+    });
+  } catch (error) {
+    console.error('Error sending privacy links email:', error);
+    return false;
+  }
+
+  return true;
+}
+
+export async function unsubscribeSubscriber(subscriberId: string): Promise<boolean> {
+  const { count } = await prisma.subscriber.updateMany({
+    where: { id: subscriberId, unsubscribedAt: null },
+    data: { unsubscribedAt: new Date() }
+  });
+
+  // Already unsubscribed counts as success, a missing subscriber doesn't
+  return count > 0 || (await prisma.subscriber.count({ where: { id: subscriberId } })) > 0;
+}
+
+export async function exportSubscriberData(subscriberId: string) {
+  const subscriber = await prisma.subscriber.findUnique({
+    where: { id: subscriberId },
+    include: {
+      referrer: {
+        select: { referralCode: true }
+      },
+      referrals: {
+        select: { email: true, createdAt: true, verified: true },
+        orderBy: { createdAt: 'asc' }
+      },
+      rewardGrants: {
+        select: { grantedAt: true, tier: { select: { name: true } } }
+      }
+    }
+  });
+
+  if (!subscriber) {
+    return null;
+  }
+
+  // Everything the subscriber gave us or did, but not the fraud scoring
+  // (score, reasons, status, signup fingerprint hashes): it would tell an
+  // abuser which signals flagged them. New columns must be added here too.
+  return {
+    exportedAt: new Date().toISOString(),
+    subscriber: {
+      id: subscriber.id,
+      email: subscriber.email,
+      name: subscriber.name,
+      createdAt: subscriber.createdAt,
+      updatedAt: subscriber.updatedAt,
+      verified: subscriber.verified,
+      verifiedAt: subscriber.verifiedAt,
+      unsubscribedAt: subscriber.unsubscribedAt,
+      lastLoginAt: subscriber.lastLoginAt,
+      locale: subscriber.locale,
+      invitationStatus: subscriber.invitationStatus,
+      referralCode: subscriber.referralCode,
+      referredByCode: subscriber.referrer?.referralCode ?? null,
+      utmSource: subscriber.utmSource,
+      utmMedium: subscriber.utmMedium,
+      utmCampaign: subscriber.utmCampaign,
+      utmContent: subscriber.utmContent,
+      utmTerm: subscriber.utmTerm,
+      referrerUrl: subscriber.referrerUrl,
+      landingPath: subscriber.landingPath
+    },
+    referrals: subscriber.referrals.map((referral) => ({
+      email: maskEmail(referral.email),
+      createdAt: referral.createdAt,
+      verified: referral.verified
+    })),
+    rewards: subscriber.rewardGrants.map((grant) => ({
+      name: grant.tier.name,
+      grantedAt: grant.grantedAt
+    }))
+  };
+}
+
+// Hashes the canonical form, so "f.o.o+x@gmail.com" matches a deleted foo@gmail.com
+export function hashEmailForTombstone(email: string): string {
+  return createHmac('sha256', getAppSecret()).update(canonicalizeEmail(email)).digest('hex');
+}
+
+export async function isEmailTombstoned(email: string): Promise<boolean> {
+  const tombstone = await prisma.emailTombstone.findUnique({
+    where: { emailHash: hashEmailForTombstone(email) }
+  });
+
+  return tombstone !== null;
+}
+
+// Clears the tombstone when someone deliberately signs up again by themselves
+export async function clearEmailTombstone(email: string) {
+  await prisma.emailTombstone.deleteMany({
+    where: { emailHash: hashEmailForTombstone(email) }
+  });
+}
+
+// "null" detaches the deleted subscriber's referrals; "reparent" hands them to
+// the deleted subscriber's own referrer so multi-level chains stay connected.
+function getReferralStrategy(): 'null' | 'reparent' {
+  return process.env.DELETION_REFERRAL_STRATEGY === 'reparent' ? 'reparent' : 'null';
+}
+
+// Hard-deletes the subscriber, fixes up their referrals and leaves a tombstone.
+// Tokens and reward grants are removed by cascade, queued and logged webhook
+// payloads about them explicitly.
+export async function deleteSubscriberAccount(subscriberId: string): Promise<boolean> {
+  const strategy = getReferralStrategy();
+
+  const deleted = await prisma.$transaction(async (tx) => {
+    const subscriber = await tx.subscriber.findUnique({
+      where: { id: subscriberId },
+      select: { id: true, email: true, referredBy: true, verified: true }
+    });
+
+    if (!subscriber) {
+      return null;
+    }
+
+    await tx.subscriber.updateMany({
+      where: { referredBy: subscriber.id },
+      data: { referredBy: strategy === 'reparent' ? subscriber.referredBy : null }
+    });
+
+    await tx.subscriber.delete({ where: { id: subscriber.id } });
+    await deleteSubscriberWebhookDeliveries(subscriber.id, tx);
+
+    await tx.emailTombstone.upsert({
+      where: { emailHash: hashEmailForTombstone(subscriber.email) },
+      update: { deletedAt: new Date() },
+      create: { emailHash: hashEmailForTombstone(subscriber.email) }
+    });
+
+    return subscriber;
+  });
+
+  if (!deleted) {
+    return false;
+  }
+
+  recordWaitlistChange({ total: -1, verified: deleted.verified ? -1 : 0 });
+
+  // Re-parented referrals may push the new parent over a reward threshold
+  if (strategy === 'reparent') {
+    await evaluateReferrerMilestones(deleted.referredBy);
+  }
+
+  return true;
+}
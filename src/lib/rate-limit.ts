@@ -0,0 +1,155 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+
+// Fixed-window rate limiting with swappable storage. The in-memory store is
+// enough for a single instance; set RATE_LIMIT_STORE=postgres so every
+// instance of a multi-instance deploy shares the same counters.
+
+export type RateLimitHit = {
+  count: number;
+  resetAt: Date;
+};
+
+export interface RateLimitStore {
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+}
+
+export type RateLimitResult = {
+  success: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+  retryAfterSeconds: number;
+};
+
+type RateLimitOptions = {
+  // Namespaces keys so different limiters never share counters
+  name: string;
+  limit: number;
+  windowMs: number;
+  store?: RateLimitStore;
+};
+
+export function createMemoryStore(): RateLimitStore {
+  const buckets = new Map<string, RateLimitHit>();
+
+  return {
+    async hit(key, windowMs) {
+      const now = Date.now();
+      const bucket = buckets.get(key);
+
+      if (!bucket || bucket.resetAt.getTime() <= now) {
+        // Drop expired buckets while we're here so the map can't grow forever
+        for (const [existingKey, existing] of buckets) {
+          if (existing.resetAt.getTime() <= now) buckets.delete(existingKey);
+        }
+
+        const fresh = { count: 1, resetAt: new Date(now + windowMs) };
+        buckets.set(key, fresh);
+        return fresh;
+      }
+
+      bucket.count += 1;
+      return bucket;
+    }
+  };
+}
+
+export function createPostgresStore(): RateLimitStore {
+  return {
+    async hit(key, windowMs) {
+      // Single atomic upsert: start a new window if the old one has expired,
+      // otherwise increment the counter.
+      const rows = await prisma.$queryRaw<{ count: number; resetAt: Date }[]>`
+        INSERT INTO "RateLimitBucket" ("key", "count", "resetAt")
+        VALUES (${key}, 1, NOW() + ${windowMs} * INTERVAL '1 millisecond')
+        ON CONFLICT ("key") DO UPDATE SET
+          "count" = CASE WHEN "RateLimitBucket"."resetAt" <= NOW() THEN 1 ELSE "RateLimitBucket"."count" + 1 END,
+          "resetAt" = CASE WHEN "RateLimitBucket"."resetAt" <= NOW() THEN EXCLUDED."resetAt" ELSE "RateLimitBucket"."resetAt" END
+        RETURNING "count", "resetAt"
+      `;
+
+      // Occasionally sweep expired buckets
+      if (Math.random() < 0.01) {
+        prisma.rateLimitBucket
+          .deleteMany({ where: { resetAt: { lt: new Date() } } })
+          .catch((error: unknown) => console.error('Error sweeping rate limit buckets:', error));
+      }
+
+      return rows[0];
+    }
+  };
+}
+
+const globalForRateLimit = global as unknown as { rateLimitStore?: RateLimitStore };
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!globalForRateLimit.rateLimitStore) {
+    globalForRateLimit.rateLimitStore =
+      process.env.RATE_LIMIT_STORE === 'postgres' ? createPostgresStore() : createMemoryStore();
+  }
+
+  return globalForRateLimit.rateLimitStore;
+}
+
+export function rateLimit({ name, limit, windowMs, store }: RateLimitOptions) {
+  return {
+    async check(identifier: string): Promise<RateLimitResult> {
+      const { count, resetAt } = await (store ?? getRateLimitStore()).hit(`${name}:${identifier}`, windowMs);
+      const retryAfterSeconds = Math.max(1, Math.ceil((resetAt.getTime() - Date.now()) / 1000));
+
+      return {
+        success: count <= limit,
+        limit,
+        remaining: Math.max(0, limit - count),
+        resetAt,
+        retryAfterSeconds
+      };
+    }
+  };
+}
+
+// Each proxy appends the address it received the request from to
+// X-Forwarded-For, and anything to the left of our own proxies was written by
+// the client. TRUSTED_PROXY_HOPS is how many proxies sit in front of the app
+// (1 for a single load balancer or Vercel), so the client address is that many
+// entries from the right.
+function getTrustedProxyHops(): number {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS);
+  return Number.isInteger(hops) && hops >= 1 ? hops : 1;
+}
+
+export function getClientIp(request: Request): string {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+
+  if (forwardedFor) {
+    const entries = forwardedFor.split(',').map((entry) => entry.trim()).filter(Boolean);
+    const entry = entries[Math.max(0, entries.length - getTrustedProxyHops())];
+
+    if (entry) {
+      return entry;
+    }
+  }
+
+  return request.headers.get('x-real-ip') || 'unknown';
+}
+
+export function rateLimitResponse(result: RateLimitResult, message = "Too many requests. Please try again later.") {
+  return NextResponse.json(
+    {
+      success: false,
+      message,
+      error: 'rate_limited',
+      retryAfter: result.retryAfterSeconds
+    },
+    {
+      status: 429,
+      headers: {
+        'Retry-After': String(result.retryAfterSeconds),
+        'X-RateLimit-Limit': String(result.limit),
+        'X-RateLimit-Remaining': String(result.remaining),
+        'X-RateLimit-Reset': String(Math.ceil(result.resetAt.getTime() / 1000))
+      }
+    }
+  );
+}
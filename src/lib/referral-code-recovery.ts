@@ -0,0 +1,61 @@
+import { getContainer } from '@/lib/container';
+import { canonicalizeEmail } from '@/lib/email';
+import { escapeHtml, getMailer } from '@/lib/mailer';
+import { rateLimit } from '@/lib/rate-limit';
+
+// "Forgot my referral code": emails subscribers their existing code. Callers
+// answer the same whether or not anything was sent, so the flow can't be
+// used to find out who is on the waitlist.
+
+// Emails per address, so nobody can flood someone's inbox from many IPs
+const emailLimiter = rateLimit({
+  name: 'referral-code-recovery-email',
+  limit: 3,
+  windowMs: 60 * 60 * 1000
+});
+
+// Returns whether an email went out. The per-address limit applies before the
+// lookup and mail errors are only logged, so known and unknown addresses take
+// the same path up to the send and never fail differently.
+export async function sendReferralCodeEmail(email: string, appUrl: string): Promise<boolean> {
+  const canonicalEmail = canonicalizeEmail(email);
+  const limit = await emailLimiter.check(canonicalEmail);
+
+  if (!limit.success) {
+    return false;
+  }
+
+  const subscriber = await getContainer().subscribers.findByCanonicalEmail(canonicalEmail);
+
+  if (!subscriber?.referralCode) {
+    return false;
+  }
+
+  const greeting = subscriber.name ? `Hi ${subscriber.name},` : 'Hi there,';
+  const dashboardUrl = `${appUrl}/login`;
+
+  try {
+    await getMailer().send({
+      to: subscriber.email,
+      subject: 'Your Cherry referral code',
+      text: [
+        greeting,
+        '',
+        "You're already on the Cherry waitlist. Here's your referral code:",
+        '',
+        subscriber.referralCode,
+        '',
+        'Share it with friends to move up the line for each verified referral.',
+        `See your referrals and place in line at ${dashboardUrl}`,
+        '',
+        'If you did not request this, you can ignore this email.'
+      ].join('\n'),
+      html: `<p>${escapeHtml(greeting)}</p><p>You're already on the Cherry waitlist. Here's your referral code:</p><p style="font-family:monospace;font-size:20px">${subscriber.referralCode}</p><p>Share it with friends to move up the line for each verified referral. <a href="${dashboardUrl}">See your referrals and place in line</a>.</p><p>If you did not request this, you can ignore this email.</p>`
+    });
+  } catch (error) {
+    console.error('Error sending referral code email:', error);
+    return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,104 @@
+// Referral code generation and validation.
+//
+// Codes use a 32-character alphabet without the easily confused 0/O and 1/I,
+// drawn from a cryptographic RNG. An optional trailing Luhn mod N check
+// character lets the forms reject most typos before they reach the server.
+// This module has no server dependencies so it can run in the browser too.
+
+export const REFERRAL_CODE_ALPHABET = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
+
+export type ReferralCodeOptions = {
+  length: number;
+  checksum: boolean;
+};
+
+const MIN_LENGTH = 6;
+const MAX_LENGTH = 16;
+
+// NEXT_PUBLIC_ so the browser bundle validates codes with the same settings
+export function getReferralCodeOptions(): ReferralCodeOptions {
+  const length = Number(process.env.NEXT_PUBLIC_REFERRAL_CODE_LENGTH);
+
+  return {
+    length: Number.isInteger(length) && length >= MIN_LENGTH && length <= MAX_LENGTH ? length : 8,
+    checksum: process.env.NEXT_PUBLIC_REFERRAL_CODE_CHECKSUM !== 'false'
+  };
+}
+
+// Luhn mod N over the referral code alphabet
+function checkCharacter(payload: string): string {
+  const n = REFERRAL_CODE_ALPHABET.length;
+  let factor = 2;
+  let sum = 0;
+
+  for (let i = payload.length - 1; i >= 0; i--) {
+    let addend = factor * REFERRAL_CODE_ALPHABET.indexOf(payload[i]);
+    factor = factor === 2 ? 1 : 2;
+    addend = Math.floor(addend / n) + (addend % n);
+    sum += addend;
+  }
+
+  return REFERRAL_CODE_ALPHABET[(n - (sum % n)) % n];
+}
+
+export function generateReferralCode(options = getReferralCodeOptions()): string {
+  const bytes = new Uint8Array(options.length);
+  crypto.getRandomValues(bytes);
+
+  // 256 is a multiple of 32, so masking keeps the distribution uniform
+  let code = '';
+  for (const byte of bytes) {
+    code += REFERRAL_CODE_ALPHABET[byte & 31];
+  }
+
+  return options.checksum ? code + checkCharacter(code) : code;
+}
+
+// Uppercases and strips the spaces and dashes people add when copying codes
+export function normalizeReferralCode(code: string): string {
+  return code.trim().toUpperCase().replace(/[\s-]/g, '');
+}
+
+// True when the code has the shape of a generated code but its check
+// character doesn't match. Codes from before the checksum was introduced
+// don't have that shape and are left to the server to look up.
+export function isMistypedReferralCode(code: string, options = getReferralCodeOptions()): boolean {
+  if (!options.checksum) {
+    return false;
+  }
+
+  const normalized = normalizeReferralCode(code);
+  const inAlphabet = [...normalized].every((char) => REFERRAL_CODE_ALPHABET.includes(char));
+
+  if (normalized.length !== options.length + 1 || !inAlphabet) {
+    return false;
+  }
+
+  return checkCharacter(normalized.slice(0, -1)) !== normalized.slice(-1);
+}
+
+function isReferralCodeCollision(error: unknown): boolean {
+  if (typeof error !== 'object' || error === null) {
+    return false;
+  }
+
+  const { code, meta } = error as { code?: string; meta?: { target?: unknown } };
+  return code === 'P2002' && String(meta?.target ?? '').includes('referralCode');
+}
+
+// Runs `create` with a fresh code, retrying when it hits the unique
+// constraint on Subscriber.referralCode. Other errors are rethrown as is.
+export async function withUniqueReferralCode<T>(
+  create: (referralCode: string) => Promise<T>,
+  maxAttempts = 5
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await create(generateReferralCode());
+    } catch (error) {
+      if (!isReferralCodeCollision(error) || attempt >= maxAttempts) {
+        throw error;
+      }
+    }
+  }
+}
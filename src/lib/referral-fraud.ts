@@ -0,0 +1,160 @@
+import { createHmac } from 'crypto';
+import type { FraudStatus } from '@prisma/client';
+import { isDisposableEmail } from '@/lib/email';
+import { getClientIp } from '@/lib/rate-limit';
+import { getAppSecret } from '@/lib/signed-token';
+import type { SubscriberRecord, SubscriberRepository } from '@/lib/repositories/subscriber-repository';
+
+// Referral fraud scoring
+//
+// Every referred signup is scored against its referrer when it is created.
+// Each signal below adds points; at `threshold` or above the referral is
+// flagged, which keeps it out of referral counts, queue positions, the
+// leaderboard, the referral tree and rewards until an admin approves it from
+// /admin/referrals/review.
+
+export const FRAUD_REASONS = [
+  // Same IP address and browser as the referrer: almost always a self-referral
+  'shared_fingerprint',
+  // Same IP address only, e.g. a household or an office
+  'shared_ip',
+  // Unusually many signups with the referrer's code in a short time
+  'burst',
+  // Disposable address on either side. The signup route already turns them
+  // away, so in practice this catches referrers who joined before their
+  // domain was listed.
+  'disposable_email',
+  // Most of the referrer's earlier referrals never verified their address
+  'unverified_pattern'
+] as const;
+
+export type FraudReason = (typeof FRAUD_REASONS)[number];
+
+const SIGNAL_POINTS: Record<FraudReason, number> = {
+  shared_fingerprint: 60,
+  shared_ip: 25,
+  burst: 30,
+  disposable_email: 50,
+  unverified_pattern: 30
+};
+
+// Statuses whose referrals earn their referrer credit
+export const CREDITED_FRAUD_STATUSES: FraudStatus[] = ['clean', 'approved'];
+
+export type FraudConfig = {
+  threshold: number;
+  burstWindowMs: number;
+  burstLimit: number;
+  // Referrals younger than this still have time to verify
+  unverifiedAfterMs: number;
+  unverifiedMinReferrals: number;
+  unverifiedRatio: number;
+};
+
+// Hashed, so stored fingerprints can be compared but not read back
+export type SignupFingerprint = {
+  signupIpHash: string | null;
+  signupUserAgentHash: string | null;
+};
+
+export type FraudAssessment = {
+  fraudScore: number;
+  fraudReasons: FraudReason[];
+  fraudStatus: FraudStatus;
+};
+
+function positiveNumber(value: string | undefined, fallback: number) {
+  const number = Number(value);
+  return Number.isFinite(number) && number > 0 ? number : fallback;
+}
+
+export function getFraudConfig(): FraudConfig {
+  return {
+    threshold: positiveNumber(process.env.REFERRAL_FRAUD_THRESHOLD, 50),
+    burstWindowMs: 10 * 60 * 1000,
+    burstLimit: positiveNumber(process.env.REFERRAL_FRAUD_BURST_LIMIT, 5),
+    unverifiedAfterMs: 24 * 60 * 60 * 1000,
+    unverifiedMinReferrals: 3,
+    unverifiedRatio: 0.8
+  };
+}
+
+export function isCreditedReferral(subscriber: { fraudStatus: FraudStatus }): boolean {
+  return CREDITED_FRAUD_STATUSES.includes(subscriber.fraudStatus);
+}
+
+function hashSignal(value: string): string {
+  return createHmac('sha256', getAppSecret()).update(value).digest('hex');
+}
+
+export function getSignupFingerprint(request: Request): SignupFingerprint {
+  const ip = getClientIp(request);
+  const userAgent = request.headers.get('user-agent');
+
+  return {
+    signupIpHash: ip === 'unknown' ? null : hashSignal(ip),
+    signupUserAgentHash: userAgent ? hashSignal(userAgent) : null
+  };
+}
+
+// Scores a signup that used `referrer`'s code, before it is stored
+export async function assessReferral(
+  subscribers: SubscriberRepository,
+  referrer: SubscriberRecord,
+  referral: SignupFingerprint & { email: string },
+  config: FraudConfig = getFraudConfig(),
+  now = new Date()
+): Promise<FraudAssessment> {
+  const reasons: FraudReason[] = [];
+  const sameIp = referral.signupIpHash !== null && referral.signupIpHash === referrer.signupIpHash;
+
+  if (sameIp && referral.signupUserAgentHash !== null && referral.signupUserAgentHash === referrer.signupUserAgentHash) {
+    reasons.push('shared_fingerprint');
+  } else if (sameIp) {
+    reasons.push('shared_ip');
+  }
+
+  // Flagged referrals count here: farming a code is what gets them flagged
+  const [recentReferrals, settledReferrals, settledVerified] = await Promise.all([
+    subscribers.countReferrals(referrer.id, {
+      createdAfter: new Date(now.getTime() - config.burstWindowMs),
+      includeFlagged: true
+    }),
+    subscribers.countReferrals(referrer.id, {
+      createdBefore: new Date(now.getTime() - config.unverifiedAfterMs),
+      includeFlagged: true
+    }),
+    subscribers.countReferrals(referrer.id, {
+      createdBefore: new Date(now.getTime() - config.unverifiedAfterMs),
+      verified: true,
+      includeFlagged: true
+    })
+  ]);
+
+  // This signup is the (recentReferrals + 1)th in the window
+  if (recentReferrals >= config.burstLimit) {
+    reasons.push('burst');
+  }
+
+  if (isDisposableEmail(referral.email) || isDisposableEmail(referrer.email)) {
+    reasons.push('disposable_email');
+  }
+
+  if (
+    settledReferrals >= config.unverifiedMinReferrals &&
+    (settledReferrals - settledVerified) / settledReferrals >= config.unverifiedRatio
+  ) {
+    reasons.push('unverified_pattern');
+  }
+
+  const fraudScore = Math.min(
+    reasons.reduce((score, reason) => score + SIGNAL_POINTS[reason], 0),
+    100
+  );
+
+  return {
+    fraudScore,
+    fraudReasons: reasons,
+    fraudStatus: fraudScore >= config.threshold ? 'flagged' : 'clean'
+  };
+}
@@ -0,0 +1,159 @@
+import { prisma } from '@/lib/prisma';
+import { maskEmail } from '@/lib/mask';
+
+// Multi-level referral analytics. Both queries walk the `referredBy`
+// self-relation with a recursive CTE, so a whole tree costs one round trip.
+// Referrals flagged as fraudulent are pruned along with everyone below them.
+
+export const MAX_REFERRAL_TREE_DEPTH = Number(process.env.REFERRAL_TREE_MAX_DEPTH) || 5;
+
+export type ReferralTreeNode = {
+  id: string;
+  email: string;
+  createdAt: Date;
+  verified: boolean;
+  depth: number;
+  referrals: ReferralTreeNode[];
+};
+
+export type ReferralTreeLevel = {
+  depth: number;
+  total: number;
+  verified: number;
+};
+
+export type ReferralTree = {
+  nodes: ReferralTreeNode[];
+  levels: ReferralTreeLevel[];
+  total: number;
+};
+
+type TreeRow = {
+  id: string;
+  email: string;
+  createdAt: Date;
+  verified: boolean;
+  referredBy: string;
+  depth: number;
+};
+
+// Returns everyone downstream of `rootId`, up to `maxDepth` levels, nested by
+// referrer. Emails are masked unless `mask` is false (admin views).
+export async function getReferralTree(rootId: string, maxDepth: number, mask = true): Promise<ReferralTree> {
+  const rows = await prisma.$queryRaw<TreeRow[]>`
+    WITH RECURSIVE tree AS (
+      SELECT id, email, "createdAt", verified, "referredBy", 1 AS depth
+      FROM "Subscriber"
+      WHERE "referredBy" = ${rootId} AND "fraudStatus" IN ('clean', 'approved')
+      UNION ALL
+      SELECT s.id, s.email, s."createdAt", s.verified, s."referredBy", t.depth + 1
+      FROM "Subscriber" s
+      JOIN tree t ON s."referredBy" = t.id
+      WHERE t.depth < ${maxDepth} AND s."fraudStatus" IN ('clean', 'approved')
+    )
+    SELECT id, email, "createdAt", verified, "referredBy", depth::int AS depth
+    FROM tree
+    ORDER BY depth, "createdAt"
+  `;
+
+  const byId = new Map<string, ReferralTreeNode>();
+  const nodes: ReferralTreeNode[] = [];
+  const levels = new Map<number, ReferralTreeLevel>();
+
+  // Rows arrive ordered by depth, so every parent is seen before its children
+  for (const row of rows) {
+    const node: ReferralTreeNode = {
+      id: row.id,
+      email: mask ? maskEmail(row.email) : row.email,
+      createdAt: row.createdAt,
+      verified: row.verified,
+      depth: row.depth,
+      referrals: []
+    };
+
+    byId.set(row.id, node);
+
+    if (row.depth === 1) {
+      nodes.push(node);
+    } else {
+      byId.get(row.referredBy)?.referrals.push(node);
+    }
+
+    const level = levels.get(row.depth) ?? { depth: row.depth, total: 0, verified: 0 };
+    level.total += 1;
+    if (row.verified) level.verified += 1;
+    levels.set(row.depth, level);
+  }
+
+  return {
+    nodes,
+    levels: [...levels.values()],
+    total: rows.length
+  };
+}
+
+export type ViralRoot = {
+  id: string;
+  email: string;
+  referralCode: string | null;
+  createdAt: Date;
+  direct: number;
+  indirect: number;
+  total: number;
+  maxDepth: number;
+};
+
+type ViralRootRow = Omit<ViralRoot, 'direct' | 'indirect' | 'total' | 'maxDepth'> & {
+  direct: bigint;
+  indirect: bigint;
+  total: bigint;
+  maxDepth: number;
+};
+
+// Subscribers who joined without a referrer, ranked by how many indirect
+// (second level and deeper) signups their chains produced.
+export async function getViralRoots(limit: number, maxDepth: number): Promise<ViralRoot[]> {
+  const rows = await prisma.$queryRaw<ViralRootRow[]>`
+    WITH RECURSIVE descendants AS (
+      SELECT s.id, r.id AS root_id, 1 AS depth
+      FROM "Subscriber" s
+      JOIN "Subscriber" r ON r.id = s."referredBy"
+      WHERE r."referredBy" IS NULL AND s."fraudStatus" IN ('clean', 'approved')
+      UNION ALL
+      SELECT s.id, d.root_id, d.depth + 1
+      FROM "Subscriber" s
+      JOIN descendants d ON s."referredBy" = d.id
+      WHERE d.depth < ${maxDepth} AND s."fraudStatus" IN ('clean', 'approved')
+    ),
+    totals AS (
+      SELECT
+        root_id,
+        COUNT(*) FILTER (WHERE depth = 1) AS direct,
+        COUNT(*) FILTER (WHERE depth > 1) AS indirect,
+        COUNT(*) AS total,
+        MAX(depth)::int AS max_depth
+      FROM descendants
+      GROUP BY root_id
+    )
+    SELECT
+      s.id,
+      s.email,
+      s."referralCode",
+      s."createdAt",
+      t.direct,
+      t.indirect,
+      t.total,
+      t.max_depth AS "maxDepth"
+    FROM totals t
+    JOIN "Subscriber" s ON s.id = t.root_id
+    ORDER BY t.indirect DESC, t.total DESC, s."createdAt" ASC
+    LIMIT ${limit}
+  `;
+
+  return rows.map((row) => ({
+    ...row,
+    direct: Number(row.direct),
+    indirect: Number(row.indirect),
+    total: Number(row.total)
+  }));
+}
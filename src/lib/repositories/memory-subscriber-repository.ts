@@ -0,0 +1,193 @@
+import { randomUUID } from 'crypto';
+import { getPositionConfig, type PositionConfig } from '@/lib/position';
+import { isCreditedReferral } from '@/lib/referral-fraud';
+import type {
+  NewSubscriber,
+  ReferralFilter,
+  SubscriberFilter,
+  SubscriberRecord,
+  SubscriberRepository
+} from '@/lib/repositories/subscriber-repository';
+
+// Mirrors the unique constraints of the Subscriber table, shaped like
+// Prisma's P2002 error
+export class UniqueConstraintError extends Error {
+  readonly code = 'P2002';
+  readonly meta: { target: string[] };
+
+  constructor(field: string) {
+    super(`Unique constraint failed on the fields: (\`${field}\`)`);
+    this.name = 'UniqueConstraintError';
+    this.meta = { target: [field] };
+  }
+}
+
+export type MemorySubscriberRepository = SubscriberRepository & {
+  // Every stored subscriber in insertion order, for assertions in tests
+  all(): SubscriberRecord[];
+  // Stores a subscriber as is, e.g. to seed a verified referrer
+  insert(record: Partial<SubscriberRecord> & Pick<SubscriberRecord, 'email'>): SubscriberRecord;
+  update(id: string, changes: Partial<Omit<SubscriberRecord, 'id'>>): SubscriberRecord;
+};
+
+function matches(record: SubscriberRecord, filter: SubscriberFilter) {
+  return filter.verified === undefined || record.verified === filter.verified;
+}
+
+function matchesReferral(record: SubscriberRecord, referrerId: string, filter: ReferralFilter) {
+  return (
+    record.referredBy === referrerId &&
+    matches(record, filter) &&
+    (!filter.createdAfter || record.createdAt >= filter.createdAfter) &&
+    (!filter.createdBefore || record.createdAt < filter.createdBefore) &&
+    (filter.includeFlagged || isCreditedReferral(record))
+  );
+}
+
+export function createMemorySubscriberRepository(
+  positionConfig: PositionConfig = getPositionConfig()
+): MemorySubscriberRepository {
+  const records = new Map<string, SubscriberRecord>();
+  const lastLogins = new Map<string, Date>();
+
+  const findBy = <K extends keyof SubscriberRecord>(field: K, value: SubscriberRecord[K]) =>
+    [...records.values()].find((record) => record[field] === value) ?? null;
+
+  const store = (record: SubscriberRecord) => {
+    for (const field of ['email', 'canonicalEmail', 'referralCode'] as const) {
+      const existing = record[field] === null ? null : findBy(field, record[field]);
+
+      if (existing && existing.id !== record.id) {
+        throw new UniqueConstraintError(field);
+      }
+    }
+
+    records.set(record.id, record);
+    return { ...record };
+  };
+
+  return {
+    async findById(id) {
+      const record = records.get(id);
+      return record ? { ...record } : null;
+    },
+
+    async findByCanonicalEmail(canonicalEmail) {
+      const record = findBy('canonicalEmail', canonicalEmail);
+      return record && { ...record };
+    },
+
+    async findByReferralCode(referralCode) {
+      const record = findBy('referralCode', referralCode);
+      return record && { ...record };
+    },
+
+    async create(data: NewSubscriber) {
+      return store({
+        id: randomUUID(),
+        email: data.email,
+        canonicalEmail: data.canonicalEmail,
+        name: data.name ?? null,
+        referralCode: data.referralCode,
+        referredBy: data.referredBy ?? null,
+        verified: false,
+        locale: data.locale ?? null,
+        signupIpHash: data.signupIpHash ?? null,
+        signupUserAgentHash: data.signupUserAgentHash ?? null,
+        fraudStatus: data.fraudStatus ?? 'clean',
+        createdAt: new Date()
+      });
+    },
+
+    async count(filter = {}) {
+      return [...records.values()].filter((record) => matches(record, filter)).length;
+    },
+
+    async listReferrals(referrerId, filter = {}) {
+      return [...records.values()]
+        .filter((record) => matchesReferral(record, referrerId, filter))
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+        .map((record) => ({ ...record }));
+    },
+
+    async countReferrals(referrerId, filter = {}) {
+      return [...records.values()].filter((record) => matchesReferral(record, referrerId, filter)).length;
+    },
+
+    // Same ranking as the SQL in src/lib/position.ts
+    async getQueuePosition(lookup) {
+      const bySignup = [...records.values()].sort(
+        (a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id.localeCompare(b.id)
+      );
+
+      const ranked = bySignup
+        .map((record, index) => {
+          const verifiedReferrals = bySignup.filter(
+            (referral) => referral.referredBy === record.id && referral.verified && isCreditedReferral(referral)
+          ).length;
+          const signupOrder = index + 1;
+          const score = Math.max(signupOrder - positionConfig.boostPerReferral * verifiedReferrals, positionConfig.floor);
+
+          return { record, signupOrder, verifiedReferrals, score };
+        })
+        .sort((a, b) => a.score - b.score || a.signupOrder - b.signupOrder);
+
+      const index = ranked.findIndex(({ record }) =>
+        'id' in lookup ? record.id === lookup.id : record.referralCode === lookup.referralCode
+      );
+
+      if (index === -1) {
+        return null;
+      }
+
+      return {
+        position: index + 1,
+        total: ranked.length,
+        signupOrder: ranked[index].signupOrder,
+        verifiedReferrals: ranked[index].verifiedReferrals
+      };
+    },
+
+    async recordLogin(id, issuedAt) {
+      const lastLogin = lastLogins.get(id);
+
+      if (!records.has(id) || (lastLogin && lastLogin >= issuedAt)) {
+        return false;
+      }
+
+      lastLogins.set(id, new Date());
+      return true;
+    },
+
+    all() {
+      return [...records.values()].map((record) => ({ ...record }));
+    },
+
+    insert(record) {
+      return store({
+        id: randomUUID(),
+        canonicalEmail: record.email,
+        name: null,
+        referralCode: null,
+        referredBy: null,
+        verified: false,
+        locale: null,
+        signupIpHash: null,
+        signupUserAgentHash: null,
+        fraudStatus: 'clean',
+        createdAt: new Date(),
+        ...record
+      });
+    },
+
+    update(id, changes) {
+      const record = records.get(id);
+
+      if (!record) {
+        throw new Error(`No subscriber with id ${id}`);
+      }
+
+      return store({ ...record, ...changes });
+    }
+  };
+}
@@ -0,0 +1,85 @@
+import { prisma } from '@/lib/prisma';
+import type { Prisma } from '@prisma/client';
+import { getQueuePositionByCode, getQueuePositionById } from '@/lib/position';
+import { CREDITED_FRAUD_STATUSES } from '@/lib/referral-fraud';
+import type {
+  ReferralFilter,
+  SubscriberRecord,
+  SubscriberRepository
+} from '@/lib/repositories/subscriber-repository';
+
+const recordSelect = {
+  id: true,
+  email: true,
+  canonicalEmail: true,
+  name: true,
+  referralCode: true,
+  referredBy: true,
+  verified: true,
+  locale: true,
+  signupIpHash: true,
+  signupUserAgentHash: true,
+  fraudStatus: true,
+  createdAt: true
+} as const;
+
+function referralWhere(referrerId: string, filter: ReferralFilter): Prisma.SubscriberWhereInput {
+  return {
+    referredBy: referrerId,
+    verified: filter.verified,
+    createdAt: { gte: filter.createdAfter, lt: filter.createdBefore },
+    fraudStatus: filter.includeFlagged ? undefined : { in: CREDITED_FRAUD_STATUSES }
+  };
+}
+
+export function createPrismaSubscriberRepository(): SubscriberRepository {
+  return {
+    async findById(id): Promise<SubscriberRecord | null> {
+      return prisma.subscriber.findUnique({ where: { id }, select: recordSelect });
+    },
+
+    async findByCanonicalEmail(canonicalEmail) {
+      return prisma.subscriber.findUnique({ where: { canonicalEmail }, select: recordSelect });
+    },
+
+    async findByReferralCode(referralCode) {
+      return prisma.subscriber.findUnique({ where: { referralCode }, select: recordSelect });
+    },
+
+    async create(data) {
+      return prisma.subscriber.create({ data, select: recordSelect });
+    },
+
+    async count(filter = {}) {
+      return prisma.subscriber.count({ where: { verified: filter.verified } });
+    },
+
+    async listReferrals(referrerId, filter = {}) {
+      return prisma.subscriber.findMany({
+        where: referralWhere(referrerId, filter),
+        orderBy: { createdAt: 'asc' },
+        select: recordSelect
+      });
+    },
+
+    async countReferrals(referrerId, filter = {}) {
+      return prisma.subscriber.count({ where: referralWhere(referrerId, filter) });
+    },
+
+    async getQueuePosition(lookup) {
+      return 'id' in lookup ? getQueuePositionById(lookup.id) : getQueuePositionByCode(lookup.referralCode);
+    },
+
+    async recordLogin(id, issuedAt) {
+      const { count } = await prisma.subscriber.updateMany({
+        where: {
+          id,
+          OR: [{ lastLoginAt: null }, { lastLoginAt: { lt: issuedAt } }]
+        },
+        data: { lastLoginAt: new Date() }
+      });
+
+      return count === 1;
+    }
+  };
+}
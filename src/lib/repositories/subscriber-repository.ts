@@ -0,0 +1,74 @@
+import type { FraudStatus } from '@prisma/client';
+import type { QueuePosition } from '@/lib/position';
+import type { Locale } from '@/lib/i18n';
+import type { Attribution } from '@/lib/validations/waitlist';
+
+// Storage boundary for the public waitlist routes. The Prisma implementation
+// is used in production; the in-memory one lets the route handlers run in
+// tests without Postgres. Routes get the active implementation from
+// getContainer() in src/lib/container.ts.
+
+export type SubscriberRecord = {
+  id: string;
+  email: string;
+  // Null until scripts/backfill-canonical-emails.ts has run on older rows
+  canonicalEmail: string | null;
+  name: string | null;
+  referralCode: string | null;
+  referredBy: string | null;
+  verified: boolean;
+  locale: string | null;
+  signupIpHash: string | null;
+  signupUserAgentHash: string | null;
+  fraudStatus: FraudStatus;
+  createdAt: Date;
+};
+
+export type NewSubscriber = Attribution & {
+  email: string;
+  canonicalEmail: string;
+  name?: string;
+  referralCode: string;
+  referredBy?: string;
+  // Language the subscriber signed up in, for later emails
+  locale?: Locale;
+  signupIpHash?: string | null;
+  signupUserAgentHash?: string | null;
+  // Only referred signups are scored (see src/lib/referral-fraud.ts)
+  fraudScore?: number;
+  fraudReasons?: string[];
+  fraudStatus?: FraudStatus;
+};
+
+export type SubscriberFilter = {
+  // Omit to include both verified and unverified subscribers
+  verified?: boolean;
+};
+
+export type ReferralFilter = SubscriberFilter & {
+  createdAfter?: Date;
+  createdBefore?: Date;
+  // Flagged and rejected referrals earn nothing and are left out unless set
+  includeFlagged?: boolean;
+};
+
+export type SubscriberLookup = { id: string } | { referralCode: string };
+
+export interface SubscriberRepository {
+  findById(id: string): Promise<SubscriberRecord | null>;
+  findByCanonicalEmail(canonicalEmail: string): Promise<SubscriberRecord | null>;
+  findByReferralCode(referralCode: string): Promise<SubscriberRecord | null>;
+  // Rejects with a Prisma-style P2002 error when the email, canonical email or
+  // referral code is taken, so withUniqueReferralCode() and
+  // isDuplicateEmailError() behave the same on every implementation
+  create(data: NewSubscriber): Promise<SubscriberRecord>;
+  count(filter?: SubscriberFilter): Promise<number>;
+  // Oldest first
+  listReferrals(referrerId: string, filter?: ReferralFilter): Promise<SubscriberRecord[]>;
+  countReferrals(referrerId: string, filter?: ReferralFilter): Promise<number>;
+  getQueuePosition(lookup: SubscriberLookup): Promise<QueuePosition | null>;
+  // Records a login with a magic link issued at `issuedAt`. Returns false,
+  // without changing anything, when a link issued later was already used, so
+  // every link works once (see src/lib/subscriber-auth.ts).
+  recordLogin(id: string, issuedAt: Date): Promise<boolean>;
+}
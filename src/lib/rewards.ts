@@ -0,0 +1,109 @@
+import { prisma } from '@/lib/prisma';
+import { CREDITED_FRAUD_STATUSES } from '@/lib/referral-fraud';
+
+// Reward tiers live in the RewardTier table so they can be changed without a
+// deploy. Milestones are evaluated whenever one of a subscriber's referrals is
+// created or verified; unlocked tiers are recorded as RewardGrant rows and are
+// never revoked.
+
+export type UnlockedReward = {
+  name: string;
+  description: string | null;
+  threshold: number;
+  grantedAt: Date;
+};
+
+export type NextReward = {
+  name: string;
+  description: string | null;
+  threshold: number;
+  remaining: number;
+};
+
+export type RewardProgress = {
+  verifiedReferrals: number;
+  unlocked: UnlockedReward[];
+  next: NextReward | null;
+};
+
+async function countVerifiedReferrals(subscriberId: string): Promise<number> {
+  return prisma.subscriber.count({
+    where: { referredBy: subscriberId, verified: true, fraudStatus: { in: CREDITED_FRAUD_STATUSES } }
+  });
+}
+
+// Grants every active tier the subscriber now qualifies for and returns the
+// names of newly unlocked tiers. Safe to call repeatedly or concurrently.
+export async function evaluateMilestones(subscriberId: string): Promise<string[]> {
+  const verifiedReferrals = await countVerifiedReferrals(subscriberId);
+
+  const eligibleTiers = await prisma.rewardTier.findMany({
+    where: {
+      active: true,
+      threshold: { lte: verifiedReferrals },
+      grants: { none: { subscriberId } }
+    },
+    orderBy: { threshold: 'asc' }
+  });
+
+  if (eligibleTiers.length === 0) {
+    return [];
+  }
+
+  await prisma.rewardGrant.createMany({
+    data: eligibleTiers.map((tier) => ({ subscriberId, tierId: tier.id })),
+    skipDuplicates: true
+  });
+
+  return eligibleTiers.map((tier) => tier.name);
+}
+
+// Fire-and-forget wrapper for the signup and verification paths, where a
+// failed evaluation must not fail the request. The next trigger catches up.
+export async function evaluateReferrerMilestones(referrerId: string | null | undefined) {
+  if (!referrerId) {
+    return;
+  }
+
+  try {
+    await evaluateMilestones(referrerId);
+  } catch (error) {
+    console.error('Error evaluating reward milestones:', error);
+  }
+}
+
+export async function getRewardProgress(subscriberId: string): Promise<RewardProgress> {
+  const [verifiedReferrals, grants, nextTier] = await Promise.all([
+    countVerifiedReferrals(subscriberId),
+    prisma.rewardGrant.findMany({
+      where: { subscriberId },
+      include: { tier: true },
+      orderBy: { tier: { threshold: 'asc' } }
+    }),
+    prisma.rewardTier.findFirst({
+      where: {
+        active: true,
+        grants: { none: { subscriberId } }
+      },
+      orderBy: { threshold: 'asc' }
+    })
+  ]);
+
+  return {
+    verifiedReferrals,
+    unlocked: grants.map((grant) => ({
+      name: grant.tier.name,
+      description: grant.tier.description,
+      threshold: grant.tier.threshold,
+      grantedAt: grant.grantedAt
+    })),
+    next: nextTier
+      ? {
+          name: nextTier.name,
+          description: nextTier.description,
+          threshold: nextTier.threshold,
+          remaining: Math.max(0, nextTier.threshold - verifiedReferrals)
+        }
+      : null
+  };
+}
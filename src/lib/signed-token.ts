@@ -0,0 +1,61 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// Compact HMAC-SHA256 signed tokens: base64url(JSON payload) + "." + signature.
+// Used for session cookies and emailed links that must not be forgeable.
+
+type SignedPayload = Record<string, unknown> & { exp: number };
+
+// Secret for subscriber-facing tokens such as emailed links
+export function getAppSecret(): string {
+  const secret = process.env.APP_SECRET;
+
+  if (!secret || secret.length < 32) {
+    throw new Error('APP_SECRET must be set to at least 32 characters');
+  }
+
+  return secret;
+}
+
+function sign(data: string, secret: string): string {
+  return createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+export function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+export function createSignedToken<T extends Record<string, unknown>>(
+  payload: T,
+  secret: string,
+  ttlSeconds: number
+): string {
+  const body: SignedPayload = { ...payload, exp: Math.floor(Date.now() / 1000) + ttlSeconds };
+  const data = Buffer.from(JSON.stringify(body)).toString('base64url');
+  return `${data}.${sign(data, secret)}`;
+}
+
+// Returns the payload when the signature matches and the token hasn't expired
+export function verifySignedToken<T extends Record<string, unknown>>(
+  token: string,
+  secret: string
+): (T & { exp: number }) | null {
+  const [data, signature] = token.split('.');
+
+  if (!data || !signature || !safeEqual(signature, sign(data, secret))) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(data, 'base64url').toString()) as T & { exp: number };
+
+    if (typeof payload.exp !== 'number' || payload.exp < Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+
+    return payload;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,123 @@
+import { cookies } from 'next/headers';
+import { getContainer } from '@/lib/container';
+import { canonicalizeEmail } from '@/lib/email';
+import { getMailer } from '@/lib/mailer';
+import { createSignedToken, getAppSecret, verifySignedToken } from '@/lib/signed-token';
+
+// Passwordless subscriber login. A magic link carries a signed, short-lived
+// token; using it records the login on the subscriber, which invalidates that
+// link and every link issued before it. The session itself is a signed cookie.
+
+export const SUBSCRIBER_SESSION_COOKIE = 'cherry_session';
+
+const SESSION_TTL_SECONDS = 30 * 24 * 60 * 60;
+const LOGIN_LINK_TTL_SECONDS = 15 * 60;
+
+type LoginTokenPayload = {
+  sub: string;
+  purpose: 'login';
+  // Milliseconds, so a link requested right after a login still works
+  iat: number;
+};
+
+// Login links and privacy links are signed with the same secret, so every
+// token names its purpose and a session only accepts its own
+type SessionPayload = {
+  sub: string;
+  purpose: 'session';
+};
+
+export type SubscriberSession = {
+  subscriberId: string;
+};
+
+export function createLoginToken(subscriberId: string): string {
+  return createSignedToken<LoginTokenPayload>(
+    { sub: subscriberId, purpose: 'login', iat: Date.now() },
+    getAppSecret(),
+    LOGIN_LINK_TTL_SECONDS
+  );
+}
+
+export function buildLoginLink(appUrl: string, subscriberId: string): string {
+  return `${appUrl}/login?token=${encodeURIComponent(createLoginToken(subscriberId))}`;
+}
+
+// Emails a magic link when the address is on the waitlist. Returns whether an
+// email went out; mail errors are only logged, so known and unknown addresses
+// get the same answer.
+export async function sendLoginLinkEmail(email: string, appUrl: string): Promise<boolean> {
+  const subscriber = await getContainer().subscribers.findByCanonicalEmail(canonicalizeEmail(email));
+
+  if (!subscriber) {
+    return false;
+  }
+
+  const link = buildLoginLink(appUrl, subscriber.id);
+
+  try {
+    await getMailer().send({
+      to: subscriber.email,
+      subject: 'Your Cherry sign-in link',
+      text: [
+        'Use the link below to see your referrals and your place in line:',
+        '',
+        link,
+        '',
+        'The link expires in 15 minutes and works once. If you did not request it, you can ignore this email.'
+      ].join('\n'),
+      html: `<p>Use the link below to see your referrals and your place in line:</p><p><a href="${link}">Sign in to Cherry</a></p><p>The link expires in 15 minutes and works once. If you did not request it, you can ignore this email.</p>`
+    });
+  } catch (error) {
+    console.error('Error sending login link email:', error);
+    return false;
+  }
+
+  return true;
+}
+
+// Returns the subscriber id when the token is valid and hasn't been used
+export async function consumeLoginToken(token: string): Promise<string | null> {
+  const payload = verifySignedToken<LoginTokenPayload>(token, getAppSecret());
+
+  if (!payload || payload.purpose !== 'login' || typeof payload.iat !== 'number') {
+    return null;
+  }
+
+  const recorded = await getContainer().subscribers.recordLogin(payload.sub, new Date(payload.iat));
+  return recorded ? payload.sub : null;
+}
+
+export async function startSubscriberSession(subscriberId: string) {
+  const token = createSignedToken<SessionPayload>(
+    { sub: subscriberId, purpose: 'session' },
+    getAppSecret(),
+    SESSION_TTL_SECONDS
+  );
+  const cookieStore = await cookies();
+
+  cookieStore.set(SUBSCRIBER_SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_TTL_SECONDS
+  });
+}
+
+export async function endSubscriberSession() {
+  const cookieStore = await cookies();
+  cookieStore.delete(SUBSCRIBER_SESSION_COOKIE);
+}
+
+export async function getSubscriberSession(): Promise<SubscriberSession | null> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(SUBSCRIBER_SESSION_COOKIE)?.value;
+
+  if (!token) {
+    return null;
+  }
+
+  const payload = verifySignedToken<SessionPayload>(token, getAppSecret());
+  return payload && payload.purpose === 'session' ? { subscriberId: payload.sub } : null;
+}
@@ -0,0 +1,38 @@
+import { getContainer } from '@/lib/container';
+import { maskEmail } from '@/lib/mask';
+import { getRewardProgress } from '@/lib/rewards';
+import type { EndpointResponse, api } from '@/lib/api/contract';
+
+export type SubscriberDashboard = EndpointResponse<typeof api.me>['dashboard'];
+
+// Everything the signed-in subscriber sees on /me. Referrals include pending
+// ones, marked as such, but not ones flagged as fraud; their emails stay
+// masked.
+export async function getSubscriberDashboard(subscriberId: string): Promise<SubscriberDashboard | null> {
+  const { subscribers } = getContainer();
+  const subscriber = await subscribers.findById(subscriberId);
+
+  if (!subscriber) {
+    return null;
+  }
+
+  const [referrals, position, rewards] = await Promise.all([
+    subscribers.listReferrals(subscriber.id),
+    subscribers.getQueuePosition({ id: subscriber.id }),
+    getRewardProgress(subscriber.id)
+  ]);
+
+  return {
+    email: subscriber.email,
+    name: subscriber.name,
+    referralCode: subscriber.referralCode,
+    verified: subscriber.verified,
+    position,
+    referrals: referrals.map((referral) => ({
+      email: maskEmail(referral.email),
+      verified: referral.verified,
+      date: referral.createdAt
+    })),
+    rewards
+  };
+}
@@ -0,0 +1,426 @@
+import { randomUUID } from 'crypto';
+import { prisma } from '@/lib/prisma';
+import { canonicalizeEmail, isDisposableEmail, normalizeEmail } from '@/lib/email';
+import { generateReferralCode, normalizeReferralCode } from '@/lib/referral-code';
+import { localizeZodError } from '@/lib/i18n/zod';
+import { SubscriberImportRowSchema, type SubscriberImportRow } from '@/lib/validations/waitlist';
+
+// Bulk import of a list exported from another waitlist tool, driven by
+// scripts/import-subscribers.ts. Every row is validated and resolved up front
+// (emails, referral codes, referrers), then rows are inserted in batches with
+// referrers always ahead of the people they referred. Nothing is emailed and
+// no webhooks fire.
+
+export type ImportFormat = 'csv' | 'json';
+
+export type ImportOptions = {
+  dryRun: boolean;
+  batchSize: number;
+  allowDisposable: boolean;
+};
+
+export type ImportRowResult = {
+  // 1-based position among the data rows, header excluded
+  row: number;
+  email: string | null;
+  status: 'imported' | 'valid' | 'error';
+  referralCode: string | null;
+  errors: string[];
+  warnings: string[];
+};
+
+export type ImportReport = {
+  dryRun: boolean;
+  total: number;
+  imported: number;
+  failed: number;
+  rows: ImportRowResult[];
+};
+
+type Candidate = {
+  result: ImportRowResult;
+  data: SubscriberImportRow;
+  id: string;
+  canonicalEmail: string;
+  referralCode: string;
+  referrer: Candidate | null;
+  existingReferrerId: string | null;
+  depth: number;
+};
+
+// Column names used by common waitlist tools, compared without case,
+// spaces, dashes or underscores
+const FIELD_ALIASES: Record<string, keyof SubscriberImportRow> = {
+  email: 'email',
+  emailaddress: 'email',
+  name: 'name',
+  fullname: 'name',
+  referralcode: 'referralCode',
+  code: 'referralCode',
+  referredby: 'referredBy',
+  referrer: 'referredBy',
+  referrercode: 'referredBy',
+  referreremail: 'referredBy',
+  createdat: 'createdAt',
+  signedupat: 'createdAt',
+  signupdate: 'createdAt',
+  joinedat: 'createdAt',
+  verified: 'verified',
+  confirmed: 'verified'
+};
+
+// Postgres caps the number of bind parameters, so lookups go in chunks
+const LOOKUP_CHUNK_SIZE = 1000;
+
+// RFC 4180: quoted fields may contain commas, newlines and doubled quotes.
+// Blank lines are dropped.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((values) => values.some((value) => value.trim() !== ''));
+}
+
+// Turns a CSV file (with a header row) or a JSON array of objects into raw
+// records. Throws when the file can't be read as either.
+export function readImportRecords(text: string, format: ImportFormat): Record<string, unknown>[] {
+  const content = text.replace(/^\uFEFF/, '');
+
+  if (format === 'json') {
+    const parsed: unknown = JSON.parse(content);
+    const records = Array.isArray(parsed) ? parsed : (parsed as { subscribers?: unknown })?.subscribers;
+
+    if (!Array.isArray(records)) {
+      throw new Error('Expected a JSON array of subscribers or { "subscribers": [...] }');
+    }
+
+    return records;
+  }
+
+  const [header, ...rows] = parseCsv(content);
+
+  if (!header) {
+    return [];
+  }
+
+  return rows.map((values) => Object.fromEntries(header.map((column, index) => [column, values[index] ?? ''])));
+}
+
+function mapFields(record: unknown): Record<string, unknown> {
+  const mapped: Record<string, unknown> = {};
+
+  if (typeof record !== 'object' || record === null) {
+    return mapped;
+  }
+
+  for (const [key, value] of Object.entries(record)) {
+    const field = FIELD_ALIASES[key.toLowerCase().replace(/[\s_-]/g, '')];
+    const cleaned = typeof value === 'string' ? value.trim() : value;
+
+    if (field && cleaned !== '' && cleaned !== null && cleaned !== undefined) {
+      mapped[field] = cleaned;
+    }
+  }
+
+  return mapped;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+
+  return chunks;
+}
+
+// Maps each value that's already taken to the subscriber holding it
+async function findExisting(field: 'canonicalEmail' | 'referralCode', values: string[]) {
+  const found = new Map<string, string>();
+
+  for (const batch of chunk([...new Set(values)], LOOKUP_CHUNK_SIZE)) {
+    const rows = await prisma.subscriber.findMany({
+      where: { [field]: { in: batch } },
+      select: { id: true, canonicalEmail: true, referralCode: true }
+    });
+
+    for (const row of rows) {
+      const value = row[field];
+      if (value) found.set(value, row.id);
+    }
+  }
+
+  return found;
+}
+
+function fail(candidate: Candidate | ImportRowResult, message: string) {
+  const result = 'result' in candidate ? candidate.result : candidate;
+  result.status = 'error';
+  result.errors.push(message);
+}
+
+export async function importSubscribers(records: unknown[], options: ImportOptions): Promise<ImportReport> {
+  const results: ImportRowResult[] = [];
+  const candidates: Candidate[] = [];
+  const byCanonicalEmail = new Map<string, Candidate>();
+
+  // 1. Validate every row and drop duplicates within the file
+  records.forEach((record, index) => {
+    const fields = mapFields(record);
+    const result: ImportRowResult = {
+      row: index + 1,
+      email: typeof fields.email === 'string' ? fields.email : null,
+      status: 'valid',
+      referralCode: null,
+      errors: [],
+      warnings: []
+    };
+    results.push(result);
+
+    const parsed = SubscriberImportRowSchema.safeParse(fields);
+
+    if (!parsed.success) {
+      for (const [field, messages] of Object.entries(localizeZodError(parsed.error, 'en'))) {
+        fail(result, `${field}: ${messages?.join(', ')}`);
+      }
+      return;
+    }
+
+    const email = normalizeEmail(parsed.data.email);
+    const canonicalEmail = canonicalizeEmail(email);
+    result.email = email;
+
+    if (!options.allowDisposable && isDisposableEmail(email)) {
+      fail(result, 'Disposable email domain');
+      return;
+    }
+
+    const duplicate = byCanonicalEmail.get(canonicalEmail);
+
+    if (duplicate) {
+      fail(result, `Duplicate of row ${duplicate.result.row}`);
+      return;
+    }
+
+    const candidate: Candidate = {
+      result,
+      data: { ...parsed.data, email },
+      id: randomUUID(),
+      canonicalEmail,
+      referralCode: '',
+      referrer: null,
+      existingReferrerId: null,
+      depth: 0
+    };
+
+    byCanonicalEmail.set(canonicalEmail, candidate);
+    candidates.push(candidate);
+  });
+
+  // 2. Skip people who are already on the waitlist
+  const existingEmails = await findExisting('canonicalEmail', candidates.map((candidate) => candidate.canonicalEmail));
+
+  for (const candidate of candidates) {
+    if (existingEmails.has(candidate.canonicalEmail)) {
+      fail(candidate, 'Already on the waitlist');
+      byCanonicalEmail.delete(candidate.canonicalEmail);
+    }
+  }
+
+  let pending = candidates.filter((candidate) => candidate.result.status !== 'error');
+
+  // 3. Keep old referral codes where they're free, generate the rest. Old
+  // codes stay addressable for referrer mapping even when they're replaced.
+  const byOldCode = new Map<string, Candidate>();
+
+  for (const candidate of pending) {
+    const oldCode = candidate.data.referralCode;
+
+    if (oldCode && byOldCode.has(oldCode)) {
+      candidate.result.warnings.push(`Referral code ${oldCode} is also used by row ${byOldCode.get(oldCode)?.result.row}; a new code was generated`);
+    } else if (oldCode) {
+      byOldCode.set(oldCode, candidate);
+      candidate.referralCode = oldCode;
+    }
+
+    candidate.referralCode ||= generateReferralCode();
+  }
+
+  const takenCodes = await findExisting('referralCode', pending.map((candidate) => candidate.referralCode));
+
+  for (const candidate of pending) {
+    if (takenCodes.has(candidate.referralCode)) {
+      if (candidate.referralCode === candidate.data.referralCode) {
+        candidate.result.warnings.push(`Referral code ${candidate.referralCode} is already taken; a new code was generated`);
+      }
+      candidate.referralCode = generateReferralCode();
+    }
+
+    candidate.result.referralCode = candidate.referralCode;
+  }
+
+  // 4. Resolve referrers by old code or email, in the file first, then among
+  // existing subscribers
+  const referrerKey = (value: string) =>
+    value.includes('@') ? { email: canonicalizeEmail(value) } : { code: normalizeReferralCode(value) };
+
+  const unresolvedEmails: string[] = [];
+  const unresolvedCodes: string[] = [];
+
+  for (const candidate of pending) {
+    if (!candidate.data.referredBy) continue;
+
+    const key = referrerKey(candidate.data.referredBy);
+    candidate.referrer = (key.email ? byCanonicalEmail.get(key.email) : byOldCode.get(key.code ?? '')) ?? null;
+
+    if (!candidate.referrer) {
+      if (key.email) unresolvedEmails.push(key.email);
+      else if (key.code) unresolvedCodes.push(key.code);
+    }
+  }
+
+  const [existingReferrersByEmail, existingReferrersByCode] = await Promise.all([
+    findExisting('canonicalEmail', unresolvedEmails),
+    findExisting('referralCode', unresolvedCodes)
+  ]);
+
+  for (const candidate of pending) {
+    const referredBy = candidate.data.referredBy;
+    if (!referredBy) continue;
+
+    if (candidate.referrer === candidate) {
+      candidate.referrer = null;
+      candidate.result.warnings.push('Row refers to itself; imported without a referrer');
+      continue;
+    }
+
+    if (!candidate.referrer) {
+      const key = referrerKey(referredBy);
+      candidate.existingReferrerId = (key.email
+        ? existingReferrersByEmail.get(key.email)
+        : existingReferrersByCode.get(key.code ?? '')) ?? null;
+
+      if (!candidate.existingReferrerId) {
+        candidate.result.warnings.push(`Referrer ${referredBy} not found; imported without a referrer`);
+      }
+    }
+  }
+
+  // 5. Order rows so referrers are inserted before their referrals, breaking
+  // referral cycles
+  const visiting = new Set<Candidate>();
+  const resolved = new Set<Candidate>();
+
+  const depthOf = (candidate: Candidate): number => {
+    if (resolved.has(candidate)) return candidate.depth;
+
+    visiting.add(candidate);
+
+    if (candidate.referrer && visiting.has(candidate.referrer)) {
+      candidate.result.warnings.push(`Referral cycle with row ${candidate.referrer.result.row}; imported without a referrer`);
+      candidate.referrer = null;
+    }
+
+    candidate.depth = candidate.referrer ? depthOf(candidate.referrer) + 1 : 0;
+    visiting.delete(candidate);
+    resolved.add(candidate);
+
+    return candidate.depth;
+  };
+
+  pending.forEach(depthOf);
+  pending = pending.sort((a, b) =>
+    a.depth - b.depth || (a.data.createdAt?.getTime() ?? 0) - (b.data.createdAt?.getTime() ?? 0)
+  );
+
+  // 6. Insert in batches. Each batch is a single INSERT, so it lands
+  // completely or not at all.
+  const now = new Date();
+
+  for (const batch of chunk(pending, options.batchSize)) {
+    const data = batch.map((candidate) => {
+      if (candidate.referrer?.result.status === 'error') {
+        candidate.result.warnings.push(`Referrer row ${candidate.referrer.result.row} failed; imported without a referrer`);
+        candidate.referrer = null;
+      }
+
+      const createdAt = candidate.data.createdAt ?? now;
+
+      return {
+        id: candidate.id,
+        email: candidate.data.email,
+        canonicalEmail: candidate.canonicalEmail,
+        name: candidate.data.name,
+        referralCode: candidate.referralCode,
+        referredBy: candidate.referrer?.id ?? candidate.existingReferrerId,
+        verified: candidate.data.verified,
+        verifiedAt: candidate.data.verified ? createdAt : null,
+        createdAt
+      };
+    });
+
+    if (options.dryRun) {
+      continue;
+    }
+
+    try {
+      await prisma.subscriber.createMany({ data });
+
+      for (const candidate of batch) {
+        candidate.result.status = 'imported';
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message.split('\n').pop() : String(error);
+
+      for (const candidate of batch) {
+        fail(candidate, `Batch insert failed: ${message}`);
+      }
+    }
+  }
+
+  const failed = results.filter((result) => result.status === 'error').length;
+
+  return {
+    dryRun: options.dryRun,
+    total: results.length,
+    imported: results.length - failed,
+    failed,
+    rows: results
+  };
+}
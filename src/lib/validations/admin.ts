@@ -0,0 +1,175 @@
+import { z } from 'zod';
+
+// Query strings and GET forms send empty strings for blank fields
+const emptyToUndefined = (value: unknown) => (value === '' || value === null ? undefined : value);
+
+// Exclusive end of a date range. A date without a time (e.g. 2026-10-01)
+// includes that whole day, so it becomes the start of the next day.
+const rangeEnd = z.preprocess((value) => {
+  const end = emptyToUndefined(value);
+  return typeof end === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(end)
+    ? new Date(Date.parse(end) + 24 * 60 * 60 * 1000)
+    : end;
+}, z.coerce.date().optional());
+
+export const AdminLoginSchema = z.object({
+  username: z
+    .string({ required_error: 'Username is required' })
+    .min(1, 'Username is required'),
+  password: z
+    .string({ required_error: 'Password is required' })
+    .min(1, 'Password is required'),
+});
+
+export const SubscriberListQuerySchema = z.object({
+  page: z.preprocess(emptyToUndefined, z.coerce.number().int().min(1).default(1)),
+  pageSize: z.preprocess(emptyToUndefined, z.coerce.number().int().min(1).max(100).default(25)),
+  search: z.preprocess(emptyToUndefined, z.string().trim().max(100).optional()),
+  verified: z.preprocess(
+    emptyToUndefined,
+    z.enum(['true', 'false']).transform((value) => value === 'true').optional()
+  ),
+  // Referral code or email of the referrer, or "none" for organic signups
+  referrer: z.preprocess(emptyToUndefined, z.string().trim().max(100).optional()),
+});
+
+export const SubscriberExportQuerySchema = z
+  .object({
+    format: z.preprocess(emptyToUndefined, z.enum(['csv', 'ndjson']).default('csv')),
+    from: z.preprocess(emptyToUndefined, z.coerce.date().optional()),
+    to: rangeEnd,
+    verified: z.preprocess(
+      emptyToUndefined,
+      z.enum(['true', 'false']).transform((value) => value === 'true').optional()
+    ),
+  })
+  .refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: '"from" must be before "to"',
+    path: ['from'],
+  });
+
+export const SubscriberUpdateSchema = z
+  .object({
+    name: z.string().max(100, 'Name must be less than 100 characters').nullable().optional(),
+    verified: z.boolean().optional(),
+  })
+  .refine((data) => data.name !== undefined || data.verified !== undefined, {
+    message: 'Nothing to update',
+  });
+
+// Referral fraud review queue; "clean" referrals are never queued
+export const ReferralReviewQuerySchema = z.object({
+  page: z.preprocess(emptyToUndefined, z.coerce.number().int().min(1).default(1)),
+  pageSize: z.preprocess(emptyToUndefined, z.coerce.number().int().min(1).max(100).default(25)),
+  status: z.preprocess(emptyToUndefined, z.enum(['flagged', 'approved', 'rejected']).default('flagged')),
+});
+
+export const ReferralReviewSchema = z.object({
+  decision: z.enum(['approve', 'reject'], {
+    errorMap: () => ({ message: 'Decision must be "approve" or "reject"' }),
+  }),
+});
+
+export const RewardTierSchema = z.object({
+  name: z
+    .string({ required_error: 'Name is required' })
+    .min(1, 'Name is required')
+    .max(100, 'Name must be less than 100 characters'),
+  description: z.string().max(500, 'Description must be less than 500 characters').nullable().optional(),
+  threshold: z
+    .number({ required_error: 'Threshold is required' })
+    .int('Threshold must be a whole number')
+    .min(1, 'Threshold must be at least 1'),
+  active: z.boolean().optional(),
+});
+
+export const RewardTierUpdateSchema = RewardTierSchema.partial();
+
+export const InvitationBatchSchema = z
+  .object({
+    count: z
+      .number({ required_error: 'Count is required' })
+      .int('Count must be a whole number')
+      .min(1, 'Invite at least one subscriber')
+      .max(1000, 'Invite at most 1000 subscribers per batch'),
+    // Candidates are always taken in queue order; tier and segment narrow them down
+    strategy: z.enum(['position', 'tier', 'segment']).default('position'),
+    tierId: z.string().uuid('Invalid reward tier').optional(),
+    segment: z
+      .object({
+        // Referral code or email of the referrer, or "none" for organic signups
+        referrer: z.string().trim().max(100).optional(),
+        joinedFrom: z.coerce.date().optional(),
+        joinedTo: z.coerce.date().optional(),
+      })
+      .optional(),
+    expiresInDays: z.number().int().min(1).max(90).default(14),
+    verifiedOnly: z.boolean().default(true),
+    reinviteExpired: z.boolean().default(false),
+  })
+  .refine((data) => data.strategy !== 'tier' || data.tierId, {
+    message: 'Choose a reward tier',
+    path: ['tierId'],
+  })
+  .refine((data) => data.strategy !== 'segment' || data.segment, {
+    message: 'Describe the segment to invite',
+    path: ['segment'],
+  });
+
+export const AnalyticsQuerySchema = z.object({
+  days: z.preprocess(emptyToUndefined, z.coerce.number().int().min(1).max(365).default(30)),
+});
+
+export const CampaignQuerySchema = z
+  .object({
+    from: z.preprocess(emptyToUndefined, z.coerce.date().optional()),
+    to: z.preprocess(emptyToUndefined, z.coerce.date().optional()),
+    limit: z.preprocess(emptyToUndefined, z.coerce.number().int().min(1).max(500).default(100)),
+  })
+  .refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: '"from" must be before "to"',
+    path: ['from'],
+  });
+
+export const WEBHOOK_EVENTS = ['subscriber.created', 'subscriber.verified', 'referral.credited'] as const;
+
+export const WebhookEndpointSchema = z.object({
+  url: z
+    .string({ required_error: 'URL is required' })
+    .url('Please enter a valid URL')
+    // Payloads carry subscriber emails, so plain http is only allowed while developing
+    .refine(
+      (url) => (process.env.NODE_ENV === 'development' ? /^https?:\/\//.test(url) : url.startsWith('https://')),
+      process.env.NODE_ENV === 'development' ? 'URL must start with http:// or https://' : 'URL must start with https://'
+    ),
+  description: z.string().max(200, 'Description must be less than 200 characters').nullable().optional(),
+  events: z
+    .array(z.enum(WEBHOOK_EVENTS), { required_error: 'Choose at least one event' })
+    .min(1, 'Choose at least one event'),
+  active: z.boolean().optional(),
+});
+
+export const WebhookEndpointUpdateSchema = WebhookEndpointSchema.partial();
+
+export const WebhookDeliveryQuerySchema = z.object({
+  page: z.preprocess(emptyToUndefined, z.coerce.number().int().min(1).default(1)),
+  pageSize: z.preprocess(emptyToUndefined, z.coerce.number().int().min(1).max(100).default(25)),
+  status: z.preprocess(emptyToUndefined, z.enum(['pending', 'succeeded', 'failed']).optional()),
+  endpointId: z.preprocess(emptyToUndefined, z.string().uuid().optional()),
+});
+
+export type AdminLoginData = z.infer<typeof AdminLoginSchema>;
+export type SubscriberListQuery = z.infer<typeof SubscriberListQuerySchema>;
+export type SubscriberExportQuery = z.infer<typeof SubscriberExportQuerySchema>;
+export type SubscriberUpdateData = z.infer<typeof SubscriberUpdateSchema>;
+export type ReferralReviewQuery = z.infer<typeof ReferralReviewQuerySchema>;
+export type ReferralReviewData = z.infer<typeof ReferralReviewSchema>;
+export type RewardTierData = z.infer<typeof RewardTierSchema>;
+export type RewardTierUpdateData = z.infer<typeof RewardTierUpdateSchema>;
+export type InvitationBatchData = z.infer<typeof InvitationBatchSchema>;
+export type AnalyticsQuery = z.infer<typeof AnalyticsQuerySchema>;
+export type CampaignQuery = z.infer<typeof CampaignQuerySchema>;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+export type WebhookEndpointData = z.infer<typeof WebhookEndpointSchema>;
+export type WebhookEndpointUpdateData = z.infer<typeof WebhookEndpointUpdateSchema>;
+export type WebhookDeliveryQuery = z.infer<typeof WebhookDeliveryQuerySchema>;
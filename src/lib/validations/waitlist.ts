@@ -1,19 +1,77 @@
 import { z } from 'zod';
+import { msg } from '@/lib/i18n';
+import { isMistypedReferralCode, normalizeReferralCode } from '@/lib/referral-code';
 
+// Fields of the signup form. POST /api/waitlist accepts the same fields plus
+// bot signals and tracking data (see SignupRequestSchema in src/lib/api/contract.ts).
+// Messages are catalog keys, translated where they're shown.
 export const WaitlistSchema = z.object({
   email: z
-    .string({ required_error: 'Email is required' })
-    .email('Please enter a valid email address')
-    .min(5, 'Email must be at least 5 characters')
-    .max(100, 'Email must be less than 100 characters'),
+    .string({ required_error: msg('validation.email.required') })
+    .trim()
+    .toLowerCase()
+    .email(msg('validation.email.invalid'))
+    .min(5, msg('validation.email.tooShort'))
+    .max(100, msg('validation.email.tooLong')),
   name: z
-    .string({ required_error: 'Name is required' })
-    .min(1, 'Name is required')
-    .max(100, 'Name must be less than 100 characters')
-    .optional(),
+    .string()
+    .trim()
+    .max(100, msg('validation.name.tooLong'))
+    .optional()
+    .transform((name) => name || undefined),
+  referralCode: z
+    .string()
+    .transform(normalizeReferralCode)
+    .refine((code) => !isMistypedReferralCode(code), msg('validation.referralCode.mistyped'))
+    .optional()
+    .transform((code) => code || undefined),
+});
+
+// Form variants that ask for a name make it required
+export const WaitlistWithNameSchema = WaitlistSchema.extend({
+  name: z
+    .string({ required_error: msg('validation.name.required') })
+    .trim()
+    .min(1, msg('validation.name.required'))
+    .max(100, msg('validation.name.tooLong')),
+});
+
+// First-touch marketing attribution, captured client-side by src/lib/attribution.ts
+export const AttributionSchema = z.object({
+  utmSource: z.string().trim().max(200).optional(),
+  utmMedium: z.string().trim().max(200).optional(),
+  utmCampaign: z.string().trim().max(200).optional(),
+  utmContent: z.string().trim().max(200).optional(),
+  utmTerm: z.string().trim().max(200).optional(),
+  referrerUrl: z.string().trim().max(2000).optional(),
+  landingPath: z.string().trim().max(500).optional(),
+});
+
+// One row of a bulk import (scripts/import-subscribers.ts). `referralCode` is
+// the subscriber's code in the previous tool and is kept when it's free;
+// `referredBy` is the referrer's old code or email.
+export const SubscriberImportRowSchema = WaitlistSchema.omit({ referralCode: true }).extend({
   referralCode: z
     .string()
+    .transform(normalizeReferralCode)
+    .pipe(z.string().min(1, 'Referral code is empty').max(32, 'Referral code must be at most 32 characters'))
     .optional(),
+  referredBy: z.string().trim().min(1).max(100).optional(),
+  createdAt: z.coerce.date().optional(),
+  verified: z
+    .union([
+      z.boolean(),
+      z
+        .string()
+        .trim()
+        .toLowerCase()
+        .pipe(z.enum(['true', 'false', 'yes', 'no', '1', '0'], { message: 'Verified must be true or false' }))
+        .transform((value) => ['true', 'yes', '1'].includes(value))
+    ])
+    .default(false),
 });
 
-export type WaitlistFormData = z.infer<typeof WaitlistSchema>; 
\ No newline at end of file
+export type WaitlistFormInput = z.input<typeof WaitlistSchema>;
+export type WaitlistFormData = z.output<typeof WaitlistSchema>;
+export type Attribution = z.infer<typeof AttributionSchema>;
+export type SubscriberImportRow = z.infer<typeof SubscriberImportRowSchema>; 
\ No newline at end of file
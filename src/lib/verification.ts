@@ -0,0 +1,153 @@
+import { createHash, randomBytes } from 'crypto';
+import { prisma } from '@/lib/prisma';
+import { canonicalizeEmail } from '@/lib/email';
+import { escapeHtml, getMailer } from '@/lib/mailer';
+import { evaluateReferrerMilestones } from '@/lib/rewards';
+import { recordServerEvent } from '@/lib/analytics';
+import { emitVerificationWebhooks } from '@/lib/webhooks';
+import { recordWaitlistChange } from '@/lib/waitlist-count';
+
+export const VERIFICATION_TOKEN_TTL_HOURS = Number(process.env.VERIFICATION_TOKEN_TTL_HOURS) || 24;
+
+// Minimum delay between two verification emails for the same subscriber
+const RESEND_COOLDOWN_MS = 60 * 1000;
+
+type VerifiableSubscriber = {
+  id: string;
+  email: string;
+  name: string | null;
+  referralCode: string | null;
+};
+
+export type VerificationResult =
+  | { status: 'verified' | 'already_verified'; subscriberId: string }
+  | { status: 'invalid' | 'expired' };
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// Replaces any outstanding tokens for the subscriber and returns the raw token.
+// Only the hash is persisted, so the raw value exists solely in the email.
+export async function issueVerificationToken(subscriberId: string): Promise<string> {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + VERIFICATION_TOKEN_TTL_HOURS * 60 * 60 * 1000);
+
+  await prisma.$transaction([
+    prisma.verificationToken.deleteMany({ where: { subscriberId } }),
+    prisma.verificationToken.create({
+      data: {
+        tokenHash: hashToken(token),
+        subscriberId,
+        expiresAt
+      }
+    })
+  ]);
+
+  return token;
+}
+
+export async function sendVerificationEmail(subscriber: VerifiableSubscriber, appUrl: string) {
+  const token = await issueVerificationToken(subscriber.id);
+  const link = `${appUrl}/waitlist/verify?token=${encodeURIComponent(token)}`;
+  const greeting = subscriber.name ? `Hi ${subscriber.name},` : 'Hi there,';
+
+  await getMailer().send({
+    to: subscriber.email,
+    subject: 'Confirm your spot on the Cherry waitlist',
+    text: [
+      greeting,
+      '',
+      'Please confirm your email address to secure your spot on the waitlist:',
+      link,
+      '',
+      `This link expires in ${VERIFICATION_TOKEN_TTL_HOURS} hours.`,
+      ...(subscriber.referralCode
+        ? ['', `Your referral code is ${subscriber.referralCode}. Share it to move up the line for each verified referral.`]
+        : [])
+    ].join('\n'),
+    html: `<p>${escapeHtml(greeting)}</p><p>Please confirm your email address to secure your spot on the waitlist:</p><p><a href="${link}">Confirm my email</a></p><p>This link expires in ${VERIFICATION_TOKEN_TTL_HOURS} hours.</p>${
+      subscriber.referralCode
+        ? `<p>Your referral code is <strong>${subscriber.referralCode}</strong>. Share it to move up the line for each verified referral.</p>`
+        : ''
+    }`
+  });
+}
+
+// Sends a fresh verification email unless the subscriber is already verified
+// or was emailed within the cooldown window. Returns whether an email went out.
+export async function resendVerificationEmail(email: string, appUrl: string): Promise<boolean> {
+  const subscriber = await prisma.subscriber.findUnique({
+    where: { canonicalEmail: canonicalizeEmail(email) },
+    include: {
+      verificationTokens: {
+        orderBy: { createdAt: 'desc' },
+        take: 1
+      }
+    }
+  });
+
+  if (!subscriber || subscriber.verified) {
+    return false;
+  }
+
+  const lastToken = subscriber.verificationTokens[0];
+  if (lastToken && Date.now() - lastToken.createdAt.getTime() < RESEND_COOLDOWN_MS) {
+    return false;
+  }
+
+  await sendVerificationEmail(subscriber, appUrl);
+  return true;
+}
+
+export async function verifyToken(token: string): Promise<VerificationResult> {
+  const record = await prisma.verificationToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { subscriber: true }
+  });
+
+  if (!record) {
+    return { status: 'invalid' };
+  }
+
+  if (record.expiresAt.getTime() < Date.now()) {
+    await prisma.verificationToken.delete({ where: { id: record.id } });
+    return { status: 'expired' };
+  }
+
+  if (record.subscriber.verified) {
+    await prisma.verificationToken.deleteMany({ where: { subscriberId: record.subscriberId } });
+    return { status: 'already_verified', subscriberId: record.subscriberId };
+  }
+
+  // Mark verified and burn every token for this subscriber in one go. The
+  // update only matches while the subscriber is unverified, so when the link
+  // is opened twice at once (mail scanners, double clicks) just one request
+  // gets to run the side effects below.
+  const subscriber = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.subscriber.updateMany({
+      where: { id: record.subscriberId, verified: false },
+      data: {
+        verified: true,
+        verifiedAt: new Date()
+      }
+    });
+
+    await tx.verificationToken.deleteMany({ where: { subscriberId: record.subscriberId } });
+
+    return count === 1 ? tx.subscriber.findUniqueOrThrow({ where: { id: record.subscriberId } }) : null;
+  });
+
+  if (!subscriber) {
+    return { status: 'already_verified', subscriberId: record.subscriberId };
+  }
+
+  recordWaitlistChange({ verified: 1 });
+  await recordServerEvent('verify', record.subscriberId);
+  await emitVerificationWebhooks(subscriber);
+
+  // The referrer now has one more verified referral
+  await evaluateReferrerMilestones(record.subscriber.referredBy);
+
+  return { status: 'verified', subscriberId: record.subscriberId };
+}
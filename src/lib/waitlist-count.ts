@@ -0,0 +1,126 @@
+import { getContainer } from '@/lib/container';
+
+// Cached waitlist counts for the public counter. Writes in this process adjust
+// the cache as they happen and notify listeners (the SSE stream); reads
+// reconcile with the database once the cache is older than the interval,
+// which also picks up changes made by other instances and by scripts.
+
+export type WaitlistCounts = {
+  total: number;
+  verified: number;
+};
+
+type CountListener = (counts: WaitlistCounts) => void;
+
+type CountState = {
+  counts: WaitlistCounts | null;
+  reconciledAt: number;
+  reconciling: Promise<WaitlistCounts> | null;
+  listeners: Set<CountListener>;
+};
+
+export const COUNT_RECONCILE_INTERVAL_MS = Number(process.env.WAITLIST_COUNT_RECONCILE_MS) || 60 * 1000;
+
+const globalForCount = global as unknown as { waitlistCount?: CountState };
+
+function getState(): CountState {
+  if (!globalForCount.waitlistCount) {
+    globalForCount.waitlistCount = { counts: null, reconciledAt: 0, reconciling: null, listeners: new Set() };
+  }
+
+  return globalForCount.waitlistCount;
+}
+
+function notify(state: CountState) {
+  if (!state.counts) {
+    return;
+  }
+
+  for (const listener of state.listeners) {
+    try {
+      listener({ ...state.counts });
+    } catch (error) {
+      console.error('Error in waitlist count listener:', error);
+    }
+  }
+}
+
+// Counts from the database; concurrent callers share one query
+export function reconcileWaitlistCounts(): Promise<WaitlistCounts> {
+  const state = getState();
+
+  if (!state.reconciling) {
+    const { subscribers } = getContainer();
+
+    state.reconciling = Promise.all([subscribers.count(), subscribers.count({ verified: true })])
+      .then(([total, verified]) => {
+        const previous = state.counts;
+        state.counts = { total, verified };
+        state.reconciledAt = Date.now();
+
+        if (previous?.total !== total || previous?.verified !== verified) {
+          notify(state);
+        }
+
+        return { total, verified };
+      })
+      .finally(() => {
+        state.reconciling = null;
+      });
+  }
+
+  return state.reconciling;
+}
+
+// Served from the cache; a stale cache is returned as is while it refreshes
+// in the background, so only the very first read waits for the database
+export async function getWaitlistCounts(): Promise<WaitlistCounts> {
+  const state = getState();
+
+  if (!state.counts) {
+    return reconcileWaitlistCounts();
+  }
+
+  if (Date.now() - state.reconciledAt >= COUNT_RECONCILE_INTERVAL_MS) {
+    reconcileWaitlistCounts().catch((error) => console.error('Error reconciling waitlist count:', error));
+  }
+
+  return { ...state.counts };
+}
+
+// Applies a change made in this process, e.g. `{ total: 1 }` for a signup or
+// `{ total: -1, verified: -1 }` for a deleted verified subscriber
+export function recordWaitlistChange(delta: Partial<WaitlistCounts>) {
+  const state = getState();
+
+  // Nothing cached yet: the first read counts from scratch anyway
+  if (!state.counts) {
+    return;
+  }
+
+  state.counts = {
+    total: Math.max(0, state.counts.total + (delta.total ?? 0)),
+    verified: Math.max(0, state.counts.verified + (delta.verified ?? 0))
+  };
+
+  notify(state);
+}
+
+// Calls `listener` with the new counts after every change. Returns the
+// unsubscribe function.
+export function subscribeToWaitlistCounts(listener: CountListener): () => void {
+  const { listeners } = getState();
+
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Drops the cached counts, e.g. between tests
+export function resetWaitlistCounts() {
+  const state = getState();
+
+  state.counts = null;
+  state.reconciledAt = 0;
+}
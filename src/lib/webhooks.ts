@@ -0,0 +1,312 @@
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { after } from 'next/server';
+import { Prisma, type FraudStatus } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { isCreditedReferral } from '@/lib/referral-fraud';
+import type { WebhookDeliveryQuery, WebhookEvent } from '@/lib/validations/admin';
+
+// Outbound webhooks. Emitting an event writes one WebhookDelivery row per
+// subscribed endpoint (the outbox) and schedules a dispatch after the current
+// response. Failed deliveries are retried with exponential backoff by later
+// dispatches, including the cron-driven /api/webhooks/dispatch route.
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Cherry-Signature';
+
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+// A claimed delivery is invisible to other dispatchers for this long, so a
+// crashed dispatch is retried instead of lost
+const CLAIM_LEASE_MS = 2 * 60 * 1000;
+
+type WebhookSubscriber = {
+  id: string;
+  email: string;
+  name: string | null;
+  referralCode: string | null;
+  referredBy: string | null;
+  verified: boolean;
+  createdAt: Date;
+};
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('base64url')}`;
+}
+
+// Stripe-style signature over "<timestamp>.<body>". Receivers should reject
+// timestamps more than a few minutes old to prevent replays.
+export function signWebhookPayload(body: string, secret: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+export function subscriberPayload(subscriber: WebhookSubscriber) {
+  return {
+    id: subscriber.id,
+    email: subscriber.email,
+    name: subscriber.name,
+    referralCode: subscriber.referralCode,
+    referredBy: subscriber.referredBy,
+    verified: subscriber.verified,
+    createdAt: subscriber.createdAt.toISOString()
+  };
+}
+
+// Exponential backoff with full jitter: up to 30s, 1m, 2m, ... capped at 6h
+export function retryDelayMs(attempts: number): number {
+  const ceiling = Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+function scheduleDispatch() {
+  try {
+    after(() => dispatchWebhooks().catch((error) => console.error('Error dispatching webhooks:', error)));
+  } catch {
+    // Outside a request (scripts): the next dispatch picks the rows up
+  }
+}
+
+// Queues the event for every active endpoint subscribed to it. Never throws:
+// webhooks must not break a signup or a verification.
+export async function emitWebhookEvent(event: WebhookEvent, data: Prisma.InputJsonObject) {
+  try {
+    const endpoints = await prisma.webhookEndpoint.findMany({
+      where: { active: true, events: { has: event } },
+      select: { id: true }
+    });
+
+    if (endpoints.length === 0) {
+      return;
+    }
+
+    const payload = {
+      id: randomUUID(),
+      event,
+      createdAt: new Date().toISOString(),
+      data
+    };
+
+    await prisma.webhookDelivery.createMany({
+      data: endpoints.map((endpoint) => ({
+        endpointId: endpoint.id,
+        event,
+        payload
+      }))
+    });
+
+    scheduleDispatch();
+  } catch (error) {
+    console.error(`Error queueing ${event} webhook:`, error);
+  }
+}
+
+// Deliveries about a subscriber carry their email, so they are deleted along
+// with the subscriber, delivered or not
+export async function deleteSubscriberWebhookDeliveries(
+  subscriberId: string,
+  client: Prisma.TransactionClient = prisma
+) {
+  await client.webhookDelivery.deleteMany({
+    where: {
+      OR: [
+        { payload: { path: ['data', 'subscriber', 'id'], equals: subscriberId } },
+        { payload: { path: ['data', 'referral', 'id'], equals: subscriberId } }
+      ]
+    }
+  });
+}
+
+// Emits referral.credited when a verified referral counts towards its
+// referrer: on verification, or when an admin approves a flagged referral
+export async function emitReferralCreditedWebhook(subscriber: WebhookSubscriber & { fraudStatus: FraudStatus }) {
+  if (subscriber.referredBy && subscriber.verified && isCreditedReferral(subscriber)) {
+    await emitWebhookEvent('referral.credited', {
+      referrerId: subscriber.referredBy,
+      referral: subscriberPayload(subscriber)
+    });
+  }
+}
+
+// Emits subscriber.verified, plus referral.credited when the subscriber was
+// referred, since only verified referrals count towards the referrer
+export async function emitVerificationWebhooks(subscriber: WebhookSubscriber & { fraudStatus: FraudStatus }) {
+  await emitWebhookEvent('subscriber.verified', { subscriber: subscriberPayload(subscriber) });
+  await emitReferralCreditedWebhook(subscriber);
+}
+
+type ClaimedDelivery = {
+  id: string;
+  event: string;
+  payload: Prisma.JsonValue;
+  attempts: number;
+  url: string;
+  secret: string;
+};
+
+// Claims due deliveries with SKIP LOCKED so concurrent dispatchers never send
+// the same delivery twice
+async function claimDueDeliveries(limit: number): Promise<ClaimedDelivery[]> {
+  const leaseUntil = new Date(Date.now() + CLAIM_LEASE_MS);
+
+  return prisma.$queryRaw<ClaimedDelivery[]>`
+    WITH due AS (
+      SELECT d.id
+      FROM "WebhookDelivery" d
+      WHERE d.status = 'pending' AND d."nextAttemptAt" <= NOW()
+      ORDER BY d."nextAttemptAt"
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    UPDATE "WebhookDelivery" d
+    SET "nextAttemptAt" = ${leaseUntil}
+    FROM due, "WebhookEndpoint" e
+    WHERE d.id = due.id AND e.id = d."endpointId"
+    RETURNING d.id, d.event, d.payload, d.attempts, e.url, e.secret
+  `;
+}
+
+async function attemptDelivery(delivery: ClaimedDelivery) {
+  const body = JSON.stringify(delivery.payload);
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    const response = await fetch(delivery.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Cherry-Webhooks/1.0',
+        'X-Cherry-Event': delivery.event,
+        'X-Cherry-Delivery': delivery.id,
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(body, delivery.secret)
+      },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      redirect: 'manual'
+    });
+
+    responseStatus = response.status;
+
+    if (!response.ok) {
+      error = `HTTP ${response.status}: ${(await response.text()).slice(0, 500)}`;
+    }
+  } catch (fetchError) {
+    error = fetchError instanceof Error ? fetchError.message : String(fetchError);
+  }
+
+  const now = new Date();
+
+  if (!error) {
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: { status: 'succeeded', attempts, responseStatus, lastError: null, lastAttemptAt: now, deliveredAt: now }
+    });
+    return true;
+  }
+
+  await prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      status: attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+      attempts,
+      responseStatus,
+      lastError: error,
+      lastAttemptAt: now,
+      nextAttemptAt: new Date(now.getTime() + retryDelayMs(attempts))
+    }
+  });
+  return false;
+}
+
+// Sends every due delivery, a batch at a time. Returns how many succeeded and
+// failed in this run.
+export async function dispatchWebhooks(batchSize = 25) {
+  const result = { succeeded: 0, failed: 0 };
+
+  while (true) {
+    const deliveries = await claimDueDeliveries(batchSize);
+
+    const outcomes = await Promise.all(deliveries.map(attemptDelivery));
+
+    for (const succeeded of outcomes) {
+      if (succeeded) result.succeeded += 1;
+      else result.failed += 1;
+    }
+
+    if (deliveries.length < batchSize) {
+      return result;
+    }
+  }
+}
+
+// Queues a fresh copy of a delivery; the original stays in the log as it was
+export async function replayDelivery(deliveryId: string) {
+  const original = await prisma.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    select: { endpointId: true, event: true, payload: true }
+  });
+
+  if (!original) {
+    return null;
+  }
+
+  const delivery = await prisma.webhookDelivery.create({
+    data: {
+      endpointId: original.endpointId,
+      event: original.event,
+      payload: original.payload ?? Prisma.JsonNull
+    }
+  });
+
+  scheduleDispatch();
+
+  return delivery;
+}
+
+export async function listWebhookEndpoints() {
+  return prisma.webhookEndpoint.findMany({
+    orderBy: { createdAt: 'asc' },
+    include: {
+      _count: {
+        select: {
+          deliveries: { where: { status: 'failed' } }
+        }
+      }
+    }
+  });
+}
+
+export async function listWebhookDeliveries(query: WebhookDeliveryQuery) {
+  const where: Prisma.WebhookDeliveryWhereInput = {
+    status: query.status,
+    endpointId: query.endpointId
+  };
+
+  const [deliveries, total] = await prisma.$transaction([
+    prisma.webhookDelivery.findMany({
+      where,
+      include: {
+        endpoint: {
+          select: { url: true }
+        }
+      },
+      orderBy: { createdAt: 'desc' },
+      skip: (query.page - 1) * query.pageSize,
+      take: query.pageSize
+    }),
+    prisma.webhookDelivery.count({ where })
+  ]);
+
+  return {
+    deliveries,
+    pagination: {
+      page: query.page,
+      pageSize: query.pageSize,
+      total,
+      totalPages: Math.max(1, Math.ceil(total / query.pageSize))
+    }
+  };
+}
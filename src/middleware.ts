@@ -0,0 +1,84 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import {
+  EXPERIMENT_COOKIE,
+  EXPERIMENT_COOKIE_MAX_AGE,
+  VISITOR_COOKIE,
+  assignExperiments,
+  parseAssignments,
+  serializeAssignments
+} from '@/lib/experiments';
+import {
+  LOCALE_COOKIE,
+  LOCALE_COOKIE_MAX_AGE,
+  LOCALE_HEADER,
+  resolveLocale,
+  splitLocalePrefix
+} from '@/lib/i18n/config';
+
+// Runs before every page:
+// - Locale: "/es/waitlist" renders /waitlist in Spanish and remembers the
+//   choice in a cookie; without a prefix the cookie or Accept-Language
+//   decides. Pages read the result from the LOCALE_HEADER request header.
+// - Sticky A/B assignment on the landing page, so the server components see
+//   the visitor's variants on the very first request.
+export function middleware(request: NextRequest) {
+  const { locale: prefix, pathname } = splitLocalePrefix(request.nextUrl.pathname);
+  const savedLocale = request.cookies.get(LOCALE_COOKIE)?.value;
+  const locale = resolveLocale({
+    prefix,
+    cookie: savedLocale,
+    acceptLanguage: request.headers.get('accept-language')
+  });
+
+  request.headers.set(LOCALE_HEADER, locale);
+
+  const cookieOptions = {
+    httpOnly: true,
+    sameSite: 'lax' as const,
+    secure: process.env.NODE_ENV === 'production',
+    path: '/'
+  };
+  const newCookies: [string, string, number][] = [];
+
+  if (prefix && prefix !== savedLocale) {
+    newCookies.push([LOCALE_COOKIE, prefix, LOCALE_COOKIE_MAX_AGE]);
+  }
+
+  if (pathname === '/') {
+    const visitorId = request.cookies.get(VISITOR_COOKIE)?.value ?? crypto.randomUUID();
+    const current = request.cookies.get(EXPERIMENT_COOKIE)?.value;
+    const assignments = serializeAssignments(assignExperiments(parseAssignments(current)));
+
+    if (!request.cookies.has(VISITOR_COOKIE) || assignments !== current) {
+      // Forward the new cookies to this render as well as to the browser
+      request.cookies.set(VISITOR_COOKIE, visitorId);
+      request.cookies.set(EXPERIMENT_COOKIE, assignments);
+      newCookies.push(
+        [VISITOR_COOKIE, visitorId, EXPERIMENT_COOKIE_MAX_AGE],
+        [EXPERIMENT_COOKIE, assignments, EXPERIMENT_COOKIE_MAX_AGE]
+      );
+    }
+  }
+
+  const init = { request: { headers: request.headers } };
+  let response: NextResponse;
+
+  if (prefix) {
+    const url = request.nextUrl.clone();
+    url.pathname = pathname;
+    response = NextResponse.rewrite(url, init);
+  } else {
+    response = NextResponse.next(init);
+  }
+
+  for (const [name, value, maxAge] of newCookies) {
+    response.cookies.set(name, value, { ...cookieOptions, maxAge });
+  }
+
+  return response;
+}
+
+export const config = {
+  // Pages only: not API routes, Next.js internals or files such as /grid.svg
+  matcher: ['/((?!api|_next|.*\\..*).*)']
+};
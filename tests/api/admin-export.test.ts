@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET as exportSubscribers } from '@/app/api/admin/subscribers/export/route';
+
+// The export reads Prisma directly, so findMany is answered from `rows`,
+// honouring the createdAt range and the keyset cursor. The admin check is
+// stubbed to let every request through.
+type Row = { id: string; email: string; createdAt: Date };
+type DateRange = { gte?: Date; lt?: Date; lte?: Date };
+
+const rows = vi.hoisted(() => [] as Row[]);
+
+vi.mock('@/lib/admin-auth', () => ({ requireAdmin: vi.fn(async () => null) }));
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    subscriber: {
+      findMany: async ({ where, cursor, take }: { where: { createdAt?: DateRange }; cursor?: { id: string }; take: number }) => {
+        const { gte, lt, lte } = where.createdAt ?? {};
+        const matching = rows.filter(
+          (row) =>
+            (!gte || row.createdAt >= gte) && (!lt || row.createdAt < lt) && (!lte || row.createdAt <= lte)
+        );
+        const start = cursor ? matching.findIndex((row) => row.id === cursor.id) + 1 : 0;
+
+        return matching.slice(start, start + take).map((row) => ({
+          ...row,
+          name: null,
+          verified: true,
+          referralCode: null,
+          utmSource: null,
+          utmMedium: null,
+          utmCampaign: null,
+          referrer: null,
+          _count: { referrals: 0 }
+        }));
+      }
+    }
+  }
+}));
+
+async function exportedEmails(query: string) {
+  const response = await exportSubscribers(new NextRequest(`http://localhost/api/admin/subscribers/export?format=ndjson&${query}`));
+  const text = await response.text();
+
+  return text.trim().split('\n').filter(Boolean).map((line) => JSON.parse(line).email);
+}
+
+beforeEach(() => {
+  rows.length = 0;
+  rows.push(
+    { id: '1', email: 'before@example.com', createdAt: new Date('2026-09-30T23:59:59Z') },
+    { id: '2', email: 'morning@example.com', createdAt: new Date('2026-10-01T00:00:00Z') },
+    { id: '3', email: 'evening@example.com', createdAt: new Date('2026-10-01T23:30:00Z') },
+    { id: '4', email: 'after@example.com', createdAt: new Date('2026-10-02T00:00:00Z') }
+  );
+});
+
+describe('GET /api/admin/subscribers/export', () => {
+  it('includes the whole day when "from" and "to" are the same date', async () => {
+    expect(await exportedEmails('from=2026-10-01&to=2026-10-01')).toEqual(['morning@example.com', 'evening@example.com']);
+  });
+
+  it('ends the range right at a "to" that has a time', async () => {
+    expect(await exportedEmails('to=2026-10-01T12:00:00Z')).toEqual(['before@example.com', 'morning@example.com']);
+  });
+});
@@ -0,0 +1,156 @@
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { resetContainer, setContainer } from '@/lib/container';
+import { createMemoryMailer, setMailer, type MemoryMailer } from '@/lib/mailer';
+import {
+  createMemorySubscriberRepository,
+  type MemorySubscriberRepository
+} from '@/lib/repositories/memory-subscriber-repository';
+import { SUBSCRIBER_SESSION_COOKIE } from '@/lib/subscriber-auth';
+import { POST as requestLogin } from '@/app/api/auth/login/route';
+import { DELETE as signOut, POST as signIn } from '@/app/api/auth/session/route';
+import { GET as getMe } from '@/app/api/me/route';
+
+// The cookie store of the current "request", shared by every handler call
+const cookieJar = new Map<string, string>();
+
+vi.mock('next/headers', () => ({
+  cookies: async () => ({
+    get: (name: string) => (cookieJar.has(name) ? { name, value: cookieJar.get(name) } : undefined),
+    set: (name: string, value: string) => cookieJar.set(name, value),
+    delete: (name: string) => cookieJar.delete(name)
+  })
+}));
+vi.mock('@/lib/rewards', () => ({
+  getRewardProgress: vi.fn(async () => ({ verifiedReferrals: 1, unlocked: [], next: null }))
+}));
+
+let subscribers: MemorySubscriberRepository;
+let mailer: MemoryMailer;
+let clientIp = 0;
+
+function postRequest(path: string, body: Record<string, unknown>) {
+  clientIp += 1;
+
+  return new Request(`http://localhost${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Forwarded-For': `10.1.0.${clientIp}` },
+    body: JSON.stringify(body)
+  });
+}
+
+function getRequest(path: string) {
+  return new Request(`http://localhost${path}`);
+}
+
+// Requests a magic link for `email` and returns the token it carries
+async function requestToken(email: string) {
+  await requestLogin(postRequest('/api/auth/login', { email }));
+
+  const link = mailer.messages.at(-1)?.text.match(/\/login\?token=(\S+)/);
+  return link ? decodeURIComponent(link[1]) : null;
+}
+
+beforeEach(() => {
+  vi.stubEnv('APP_SECRET', 'test-secret-that-is-at-least-32-characters');
+  subscribers = createMemorySubscriberRepository();
+  mailer = createMemoryMailer();
+  setContainer({ subscribers });
+  setMailer(mailer);
+  cookieJar.clear();
+
+  const referrer = subscribers.insert({ email: 'jane@example.com', name: 'Jane', referralCode: 'JANE1234' });
+  subscribers.insert({ email: 'friend@example.com', referredBy: referrer.id, verified: true });
+});
+
+afterAll(() => {
+  resetContainer();
+  vi.unstubAllEnvs();
+});
+
+describe('POST /api/auth/login', () => {
+  it('emails a sign-in link to subscribers', async () => {
+    const response = await requestLogin(postRequest('/api/auth/login', { email: 'Jane@Example.com' }));
+
+    expect(response.status).toBe(200);
+    expect(mailer.messages).toHaveLength(1);
+    expect(mailer.messages[0]).toMatchObject({ to: 'jane@example.com', subject: 'Your Cherry sign-in link' });
+    expect(mailer.messages[0].text).toContain('http://localhost/login?token=');
+  });
+
+  it('answers the same for unknown addresses without sending anything', async () => {
+    const known = await (await requestLogin(postRequest('/api/auth/login', { email: 'jane@example.com' }))).json();
+    const unknown = await (await requestLogin(postRequest('/api/auth/login', { email: 'nobody@example.com' }))).json();
+
+    expect(unknown).toEqual(known);
+    expect(mailer.messages).toHaveLength(1);
+  });
+
+  it('answers the same when the email fails to send', async () => {
+    vi.spyOn(mailer, 'send').mockRejectedValueOnce(new Error('SMTP unavailable'));
+    vi.spyOn(console, 'error').mockImplementationOnce(() => {});
+
+    const failed = await requestLogin(postRequest('/api/auth/login', { email: 'jane@example.com' }));
+    const unknown = await requestLogin(postRequest('/api/auth/login', { email: 'nobody@example.com' }));
+
+    expect(failed.status).toBe(200);
+    expect(await failed.json()).toEqual(await unknown.json());
+  });
+});
+
+describe('POST /api/auth/session', () => {
+  it('starts a session that unlocks the dashboard', async () => {
+    const token = await requestToken('jane@example.com');
+    const response = await signIn(postRequest('/api/auth/session', { token: token! }));
+
+    expect(response.status).toBe(200);
+    expect(cookieJar.has(SUBSCRIBER_SESSION_COOKIE)).toBe(true);
+
+    const me = await getMe(getRequest('/api/me'));
+    const body = await me.json();
+
+    expect(me.status).toBe(200);
+    expect(body.dashboard).toMatchObject({
+      email: 'jane@example.com',
+      referralCode: 'JANE1234',
+      referrals: [{ email: 'fr****@example.com', verified: true }]
+    });
+  });
+
+  it('accepts each link only once', async () => {
+    const token = await requestToken('jane@example.com');
+
+    await signIn(postRequest('/api/auth/session', { token: token! }));
+    const reused = await signIn(postRequest('/api/auth/session', { token: token! }));
+
+    expect(reused.status).toBe(401);
+  });
+
+  it('rejects forged tokens', async () => {
+    const response = await signIn(postRequest('/api/auth/session', { token: 'eyJzdWIiOiJ4In0.forged' }));
+
+    expect(response.status).toBe(401);
+    expect(cookieJar.size).toBe(0);
+  });
+});
+
+describe('GET /api/me', () => {
+  it('requires a session', async () => {
+    expect((await getMe(getRequest('/api/me'))).status).toBe(401);
+  });
+
+  it('does not take an emailed login link as a session cookie', async () => {
+    const token = await requestToken('jane@example.com');
+    cookieJar.set(SUBSCRIBER_SESSION_COOKIE, token!);
+
+    expect((await getMe(getRequest('/api/me'))).status).toBe(401);
+  });
+
+  it('requires a session again after signing out', async () => {
+    const token = await requestToken('jane@example.com');
+    await signIn(postRequest('/api/auth/session', { token: token! }));
+
+    await signOut(new Request('http://localhost/api/auth/session', { method: 'DELETE' }));
+
+    expect((await getMe(getRequest('/api/me'))).status).toBe(401);
+  });
+});
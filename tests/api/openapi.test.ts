@@ -0,0 +1,81 @@
+import { readdir, readFile } from 'node:fs/promises';
+import { join, relative, sep } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { api, type Endpoint } from '@/lib/api/contract';
+import { buildOpenApiDocument } from '@/lib/api/openapi';
+
+// Keeps the committed document, the contract and the route handlers in step
+
+const APP_DIR = join(process.cwd(), 'src', 'app');
+const endpoints = Object.values(api) as Endpoint[];
+
+function routeFile(path: string) {
+  return join(APP_DIR, ...path.split('/').filter(Boolean), 'route.ts');
+}
+
+async function findRouteFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(
+    entries.map((entry) => {
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) return findRouteFiles(path);
+      return entry.name === 'route.ts' ? [path] : [];
+    })
+  );
+
+  return files.flat();
+}
+
+// Source of one exported handler, up to the next export
+function handlerSource(source: string, method: string) {
+  const start = source.search(new RegExp(`export (async )?function ${method}\\(`));
+  const end = source.indexOf('\nexport ', start + 1);
+
+  return start === -1 ? '' : source.slice(start, end === -1 ? undefined : end);
+}
+
+// Every status a handler can answer with, read from its source
+function returnedStatuses(source: string) {
+  const statuses = new Set([...source.matchAll(/status: (\d{3})/g)].map((match) => Number(match[1])));
+
+  if (source.includes('validationError(')) statuses.add(400);
+  if (source.includes('rateLimitResponse(')) statuses.add(429);
+
+  return statuses;
+}
+
+describe('OpenAPI document', () => {
+  it('matches the committed specs/openapi.json (run `npm run openapi` to update it)', async () => {
+    const committed = JSON.parse(await readFile(join(process.cwd(), 'specs', 'openapi.json'), 'utf8'));
+
+    expect(committed).toEqual(JSON.parse(JSON.stringify(buildOpenApiDocument())));
+  });
+
+  it('documents every public waitlist route', async () => {
+    const routes = await findRouteFiles(join(APP_DIR, 'api', 'waitlist'));
+    const documented = new Set(endpoints.map((endpoint) => routeFile(endpoint.path)));
+
+    for (const route of routes) {
+      expect(documented, `${relative(process.cwd(), route).split(sep).join('/')} is missing from the contract`).toContain(route);
+    }
+  });
+
+  it.each(endpoints.map((endpoint) => [`${endpoint.method} ${endpoint.path}`, endpoint] as const))(
+    '%s is handled with the documented statuses',
+    async (_, endpoint) => {
+      const source = await readFile(routeFile(endpoint.path), 'utf8');
+      const route = await import(/* @vite-ignore */ routeFile(endpoint.path));
+      const statuses = returnedStatuses(handlerSource(source, endpoint.method));
+
+      expect(route[endpoint.method]).toBeTypeOf('function');
+
+      if (endpoint.status) {
+        expect(statuses).toContain(endpoint.status);
+      }
+
+      expect([...statuses].filter((status) => status >= 400).sort()).toEqual(
+        Object.keys(endpoint.errors).map(Number).sort()
+      );
+    }
+  );
+});
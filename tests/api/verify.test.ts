@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET as verify } from '@/app/api/waitlist/verify/route';
+import { hashToken } from '@/lib/verification';
+import { recordServerEvent } from '@/lib/analytics';
+import { evaluateReferrerMilestones } from '@/lib/rewards';
+import { emitVerificationWebhooks } from '@/lib/webhooks';
+import { recordWaitlistChange } from '@/lib/waitlist-count';
+
+// verifyToken() talks to Prisma directly, so the two tables it touches are
+// kept in memory here. Like Postgres, the fake applies each conditional
+// update in one step. Everything that runs after a verification is stubbed.
+type FakeSubscriber = { id: string; email: string; verified: boolean; verifiedAt: Date | null; referredBy: string | null };
+type FakeToken = { id: string; tokenHash: string; subscriberId: string; expiresAt: Date };
+
+const db = vi.hoisted(() => ({
+  subscribers: new Map<string, FakeSubscriber>(),
+  tokens: new Map<string, FakeToken>()
+}));
+
+vi.mock('@/lib/prisma', () => {
+  const client = {
+    verificationToken: {
+      findUnique: async ({ where }: { where: { tokenHash: string } }) => {
+        const token = [...db.tokens.values()].find((candidate) => candidate.tokenHash === where.tokenHash);
+        return token ? { ...token, subscriber: { ...db.subscribers.get(token.subscriberId)! } } : null;
+      },
+      delete: async ({ where }: { where: { id: string } }) => db.tokens.delete(where.id),
+      deleteMany: async ({ where }: { where: { subscriberId: string } }) => {
+        for (const token of [...db.tokens.values()]) {
+          if (token.subscriberId === where.subscriberId) db.tokens.delete(token.id);
+        }
+      }
+    },
+    subscriber: {
+      updateMany: async ({ where, data }: { where: { id: string; verified: boolean }; data: Partial<FakeSubscriber> }) => {
+        const subscriber = db.subscribers.get(where.id);
+
+        if (!subscriber || subscriber.verified !== where.verified) {
+          return { count: 0 };
+        }
+
+        Object.assign(subscriber, data);
+        return { count: 1 };
+      },
+      findUniqueOrThrow: async ({ where }: { where: { id: string } }) => ({ ...db.subscribers.get(where.id)! })
+    },
+    $transaction: async <T,>(run: (tx: unknown) => Promise<T>) => run(client)
+  };
+
+  return { prisma: client };
+});
+vi.mock('@/lib/analytics', () => ({ recordServerEvent: vi.fn() }));
+vi.mock('@/lib/rewards', () => ({ evaluateReferrerMilestones: vi.fn() }));
+vi.mock('@/lib/webhooks', () => ({ emitVerificationWebhooks: vi.fn() }));
+vi.mock('@/lib/waitlist-count', () => ({ recordWaitlistChange: vi.fn() }));
+
+function verifyRequest(token: string) {
+  return new NextRequest(`http://localhost/api/waitlist/verify?token=${encodeURIComponent(token)}`);
+}
+
+beforeEach(() => {
+  db.subscribers.clear();
+  db.tokens.clear();
+  vi.clearAllMocks();
+
+  db.subscribers.set('sub-1', { id: 'sub-1', email: 'jane@example.com', verified: false, verifiedAt: null, referredBy: 'ref-1' });
+  db.tokens.set('token-1', {
+    id: 'token-1',
+    tokenHash: hashToken('raw-verification-token'),
+    subscriberId: 'sub-1',
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000)
+  });
+});
+
+describe('GET /api/waitlist/verify', () => {
+  it('verifies the subscriber and burns the token', async () => {
+    const response = await verify(verifyRequest('raw-verification-token'));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).message).toBe('Your email has been verified. Welcome aboard!');
+    expect(db.subscribers.get('sub-1')).toMatchObject({ verified: true, verifiedAt: expect.any(Date) });
+    expect(db.tokens.size).toBe(0);
+  });
+
+  it('runs the side effects once when the link is opened twice at the same time', async () => {
+    const responses = await Promise.all([
+      verify(verifyRequest('raw-verification-token')),
+      verify(verifyRequest('raw-verification-token'))
+    ]);
+    const messages = await Promise.all(responses.map(async (response) => (await response.json()).message));
+
+    expect(responses.map((response) => response.status)).toEqual([200, 200]);
+    expect(messages.sort()).toEqual(['Your email has been verified. Welcome aboard!', 'Your email is already verified']);
+    expect(recordWaitlistChange).toHaveBeenCalledTimes(1);
+    expect(recordServerEvent).toHaveBeenCalledTimes(1);
+    expect(emitVerificationWebhooks).toHaveBeenCalledTimes(1);
+    expect(evaluateReferrerMilestones).toHaveBeenCalledTimes(1);
+  });
+});
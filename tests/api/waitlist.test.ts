@@ -0,0 +1,562 @@
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { resetContainer, setContainer } from '@/lib/container';
+import {
+  createMemorySubscriberRepository,
+  type MemorySubscriberRepository
+} from '@/lib/repositories/memory-subscriber-repository';
+import { POST as signup } from '@/app/api/waitlist/route';
+import { GET as getCount } from '@/app/api/waitlist/count/route';
+import { GET as streamCount } from '@/app/api/waitlist/count/stream/route';
+import { GET as getPosition } from '@/app/api/waitlist/position/route';
+import { GET as getReferrals } from '@/app/api/waitlist/referrals/route';
+import { POST as recoverReferralCode } from '@/app/api/waitlist/referral-code/recover/route';
+import { createMemoryMailer, setMailer, type MemoryMailer } from '@/lib/mailer';
+import { sendVerificationEmail } from '@/lib/verification';
+import { isEmailTombstoned } from '@/lib/privacy';
+import { evaluateReferrerMilestones } from '@/lib/rewards';
+import { emitWebhookEvent } from '@/lib/webhooks';
+import { reconcileWaitlistCounts, recordWaitlistChange, resetWaitlistCounts } from '@/lib/waitlist-count';
+
+// Subscribers live in the in-memory repository. Side effects backed by other
+// tables (analytics, experiments, webhooks, rewards, verification emails,
+// deletion tombstones) are stubbed.
+vi.mock('@/lib/analytics', () => ({ recordServerEvent: vi.fn() }));
+vi.mock('@/lib/experiment-tracking', () => ({ recordExperimentConversions: vi.fn() }));
+vi.mock('@/lib/verification', () => ({ sendVerificationEmail: vi.fn() }));
+vi.mock('@/lib/privacy', () => ({
+  isEmailTombstoned: vi.fn(async () => false),
+  clearEmailTombstone: vi.fn()
+}));
+vi.mock('@/lib/rewards', () => ({
+  evaluateReferrerMilestones: vi.fn(),
+  getRewardProgress: vi.fn(async () => ({ verifiedReferrals: 0, unlocked: [], next: null }))
+}));
+vi.mock('@/lib/webhooks', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/webhooks')>()),
+  emitWebhookEvent: vi.fn()
+}));
+
+let subscribers: MemorySubscriberRepository;
+let clientIp = 0;
+
+// A new client IP per request keeps the per-IP limits out of the way
+function signupRequest(body: Record<string, unknown>, path = '/api/waitlist', headers: Record<string, string> = {}) {
+  clientIp += 1;
+
+  return new Request(`http://localhost${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Forwarded-For': `10.0.${Math.floor(clientIp / 256)}.${clientIp % 256}`,
+      ...headers
+    },
+    body: JSON.stringify(body)
+  });
+}
+
+function getRequest(path: string) {
+  return new NextRequest(`http://localhost${path}`);
+}
+
+// Reads the stream up to the next `count` event and returns its data
+async function nextCountEvent(reader: ReadableStreamDefaultReader<Uint8Array>) {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const match = buffer.match(/event: count\ndata: (.*)\n\n/);
+
+    if (match) {
+      return JSON.parse(match[1]);
+    }
+
+    const { value, done } = await reader.read();
+
+    if (done) {
+      throw new Error('Stream ended without a count event');
+    }
+
+    buffer += decoder.decode(value, { stream: true });
+  }
+}
+
+function minutesAgo(minutes: number) {
+  return new Date(Date.now() - minutes * 60 * 1000);
+}
+
+beforeEach(() => {
+  vi.stubEnv('APP_SECRET', 'test-secret-that-is-at-least-32-characters');
+  subscribers = createMemorySubscriberRepository({ boostPerReferral: 5, floor: 1 });
+  setContainer({ subscribers });
+  resetWaitlistCounts();
+  vi.clearAllMocks();
+});
+
+afterAll(() => {
+  resetContainer();
+  vi.unstubAllEnvs();
+});
+
+describe('POST /api/waitlist', () => {
+  it('creates a subscriber with a referral code', async () => {
+    const response = await signup(signupRequest({ email: ' Jane@Example.com ', name: 'Jane' }));
+
+    expect(response.status).toBe(201);
+    expect(await response.json()).toEqual({ success: true, message: expect.any(String) });
+
+    const [stored] = subscribers.all();
+    expect(stored).toMatchObject({ email: 'jane@example.com', name: 'Jane', referralCode: expect.any(String), verified: false });
+    expect(sendVerificationEmail).toHaveBeenCalledWith(expect.objectContaining({ id: stored.id }), 'http://localhost');
+    expect(emitWebhookEvent).toHaveBeenCalledWith('subscriber.created', expect.anything());
+  });
+
+  it('rejects an invalid email with field errors', async () => {
+    const response = await signup(signupRequest({ email: 'not-an-email' }));
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.errors.email).toBeDefined();
+    expect(subscribers.all()).toHaveLength(0);
+  });
+
+  it('answers an address already on the waitlist in another form like a new one and emails its code', async () => {
+    const mailer = createMemoryMailer();
+    setMailer(mailer);
+
+    const first = await (await signup(signupRequest({ email: 'Jane.Doe@gmail.com' }))).json();
+    const response = await signup(signupRequest({ email: 'janedoe+waitlist@googlemail.com' }));
+
+    expect(response.status).toBe(201);
+    expect(await response.json()).toEqual(first);
+    expect(subscribers.all()).toHaveLength(1);
+    expect(mailer.messages).toHaveLength(1);
+    expect(mailer.messages[0]).toMatchObject({ to: 'jane.doe@gmail.com' });
+    expect(mailer.messages[0].text).toContain(subscribers.all()[0].referralCode);
+  });
+
+  it('rejects disposable email domains', async () => {
+    const response = await signup(signupRequest({ email: 'someone@mailinator.com' }));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('disposable_email');
+    expect(subscribers.all()).toHaveLength(0);
+  });
+
+  it('links the new subscriber to their referrer', async () => {
+    const referrer = subscribers.insert({ email: 'referrer@example.com', referralCode: 'REFCODE1', verified: true });
+
+    const response = await signup(signupRequest({ email: 'friend@example.com', referralCode: 'refcode1' }));
+
+    expect(response.status).toBe(201);
+    expect(subscribers.all().find((subscriber) => subscriber.email === 'friend@example.com')?.referredBy).toBe(referrer.id);
+    expect(evaluateReferrerMilestones).toHaveBeenCalledWith(referrer.id);
+  });
+
+  it('rejects an unknown referral code', async () => {
+    const response = await signup(signupRequest({ email: 'friend@example.com', referralCode: 'NOSUCHCODE' }));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).message).toBe('Invalid referral code');
+    expect(subscribers.all()).toHaveLength(0);
+  });
+
+  it('rejects an unknown referral code for an address already on the waitlist too', async () => {
+    subscribers.insert({ email: 'known@example.com', referralCode: 'KNOWN123' });
+
+    const known = await signup(signupRequest({ email: 'known@example.com', referralCode: 'NOSUCHCODE' }));
+    const unknown = await signup(signupRequest({ email: 'friend@example.com', referralCode: 'NOSUCHCODE' }));
+
+    expect(known.status).toBe(400);
+    expect(await known.json()).toEqual(await unknown.json());
+  });
+
+  it('accepts a deleted address signed up with a referral code but drops the referral', async () => {
+    subscribers.insert({ email: 'referrer@example.com', referralCode: 'REFCODE1', verified: true });
+    vi.mocked(isEmailTombstoned).mockResolvedValueOnce(true);
+
+    const response = await signup(signupRequest({ email: 'gone@example.com', referralCode: 'REFCODE1' }));
+
+    expect(response.status).toBe(201);
+    expect(subscribers.all().find((subscriber) => subscriber.email === 'gone@example.com')?.referredBy).toBeNull();
+  });
+
+  it('pretends to accept honeypot submissions without storing them', async () => {
+    const response = await signup(signupRequest({ email: 'bot@example.com', website: 'https://spam.example' }));
+    const human = await signup(signupRequest({ email: 'human@example.com' }));
+
+    expect(response.status).toBe(201);
+    expect(await response.json()).toEqual(await human.json());
+    expect(subscribers.all().map((subscriber) => subscriber.email)).toEqual(['human@example.com']);
+  });
+
+  it('limits signups by the address our proxy saw, not the one the client claims', async () => {
+    const statuses = [];
+
+    for (let i = 0; i < 6; i++) {
+      const response = await signup(
+        signupRequest({ email: `spoofer${i}@example.com` }, '/api/waitlist', {
+          'X-Forwarded-For': `10.9.0.${i}, 192.0.2.50`
+        })
+      );
+      statuses.push(response.status);
+    }
+
+    expect(statuses).toEqual([201, 201, 201, 201, 201, 429]);
+  });
+
+  it('rejects forms submitted too quickly', async () => {
+    const response = await signup(signupRequest({ email: 'fast@example.com', fillTimeMs: 100 }));
+
+    expect(response.status).toBe(400);
+    expect(subscribers.all()).toHaveLength(0);
+  });
+});
+
+describe('localized responses', () => {
+  it('answers in the language of Accept-Language and stores it on the subscriber', async () => {
+    const response = await signup(
+      signupRequest({ email: 'ana@example.com' }, '/api/waitlist', { 'Accept-Language': 'es-ES,es;q=0.9,en;q=0.8' })
+    );
+
+    expect((await response.json()).message).toBe(
+      '¡Gracias por unirte a nuestra lista de espera! Revisa tu bandeja de entrada para confirmar tu correo.'
+    );
+    expect(subscribers.all()[0].locale).toBe('es');
+  });
+
+  it('keeps error codes stable while translating messages and field errors', async () => {
+    const response = await signup(
+      signupRequest({ email: 'not-an-email' }, '/api/waitlist', { 'Accept-Language': 'fr' })
+    );
+    const body = await response.json();
+
+    expect(body).toMatchObject({
+      error: 'validation_failed',
+      message: 'La validation a échoué',
+      errors: { email: ['Veuillez saisir une adresse e-mail valide'] }
+    });
+  });
+
+  it('prefers the locale cookie over Accept-Language', async () => {
+    const response = await signup(
+      signupRequest({ email: 'someone@mailinator.com' }, '/api/waitlist', {
+        'Accept-Language': 'fr',
+        Cookie: 'cherry_locale=es'
+      })
+    );
+
+    expect(await response.json()).toMatchObject({
+      error: 'disposable_email',
+      message: 'Las direcciones de correo desechables no pueden unirse a la lista de espera. Usa una dirección permanente.'
+    });
+  });
+
+  it('falls back to English for unsupported languages', async () => {
+    const response = await signup(signupRequest({ email: 'jo@example.com' }, '/api/waitlist', { 'Accept-Language': 'de-DE' }));
+
+    expect((await response.json()).message).toMatch(/^Thank you for joining/);
+    expect(subscribers.all()[0].locale).toBe('en');
+  });
+});
+
+describe('GET /api/waitlist/count', () => {
+  beforeEach(() => {
+    subscribers.insert({ email: 'a@example.com', verified: true });
+    subscribers.insert({ email: 'b@example.com', verified: true });
+    subscribers.insert({ email: 'c@example.com', verified: false });
+  });
+
+  it('counts verified subscribers by default', async () => {
+    const response = await getCount(getRequest('/api/waitlist/count'));
+
+    expect(await response.json()).toEqual({ success: true, count: 2 });
+  });
+
+  it('counts everyone with includeUnverified=true', async () => {
+    const response = await getCount(getRequest('/api/waitlist/count?includeUnverified=true'));
+
+    expect(await response.json()).toEqual({ success: true, count: 3 });
+  });
+
+  it('serves the cached count until it reconciles with the repository', async () => {
+    await getCount(getRequest('/api/waitlist/count'));
+    subscribers.insert({ email: 'd@example.com', verified: true });
+
+    const cached = await getCount(getRequest('/api/waitlist/count'));
+    expect(await cached.json()).toEqual({ success: true, count: 2 });
+
+    await reconcileWaitlistCounts();
+
+    const reconciled = await getCount(getRequest('/api/waitlist/count'));
+    expect(await reconciled.json()).toEqual({ success: true, count: 3 });
+  });
+
+  it('adds signups to the cached count as they happen', async () => {
+    await getCount(getRequest('/api/waitlist/count?includeUnverified=true'));
+    await signup(signupRequest({ email: 'new@example.com' }));
+
+    const response = await getCount(getRequest('/api/waitlist/count?includeUnverified=true'));
+
+    expect(await response.json()).toEqual({ success: true, count: 4 });
+  });
+});
+
+describe('GET /api/waitlist/count/stream', () => {
+  beforeEach(() => {
+    subscribers.insert({ email: 'a@example.com', verified: true });
+    subscribers.insert({ email: 'b@example.com', verified: false });
+  });
+
+  it('sends the current count and then every change', async () => {
+    const controller = new AbortController();
+    const response = await streamCount(
+      new NextRequest('http://localhost/api/waitlist/count/stream', { signal: controller.signal })
+    );
+    const reader = response.body!.getReader();
+
+    expect(response.headers.get('Content-Type')).toContain('text/event-stream');
+    expect(await nextCountEvent(reader)).toEqual({ success: true, count: 1 });
+
+    recordWaitlistChange({ total: 1, verified: 1 });
+    expect(await nextCountEvent(reader)).toEqual({ success: true, count: 2 });
+
+    controller.abort();
+    expect((await reader.read()).done).toBe(true);
+  });
+
+  it('counts everyone with includeUnverified=true', async () => {
+    const controller = new AbortController();
+    const response = await streamCount(
+      new NextRequest('http://localhost/api/waitlist/count/stream?includeUnverified=true', {
+        signal: controller.signal
+      })
+    );
+    const reader = response.body!.getReader();
+
+    expect(await nextCountEvent(reader)).toEqual({ success: true, count: 2 });
+    controller.abort();
+  });
+});
+
+describe('GET /api/waitlist/referrals', () => {
+  beforeEach(() => {
+    const referrer = subscribers.insert({ email: 'referrer@example.com', referralCode: 'REFCODE1' });
+    subscribers.insert({ email: 'verified@example.com', referredBy: referrer.id, verified: true, createdAt: minutesAgo(2) });
+    subscribers.insert({ email: 'pending@example.com', referredBy: referrer.id, verified: false, createdAt: minutesAgo(1) });
+  });
+
+  it('counts verified referrals without listing them', async () => {
+    const response = await getReferrals(getRequest('/api/waitlist/referrals?code=REFCODE1'));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true, stats: { totalReferrals: 1 } });
+  });
+
+  it('includes pending referrals with includeUnverified=true', async () => {
+    const response = await getReferrals(getRequest('/api/waitlist/referrals?code=REFCODE1&includeUnverified=true'));
+
+    expect((await response.json()).stats.totalReferrals).toBe(2);
+  });
+
+  it('leaves out referrals flagged as fraudulent', async () => {
+    const { id: referrerId } = (await subscribers.findByReferralCode('REFCODE1'))!;
+    subscribers.insert({ email: 'flagged@example.com', referredBy: referrerId, verified: true, fraudStatus: 'flagged' });
+    subscribers.insert({ email: 'rejected@example.com', referredBy: referrerId, verified: true, fraudStatus: 'rejected' });
+    subscribers.insert({ email: 'approved@example.com', referredBy: referrerId, verified: true, fraudStatus: 'approved' });
+
+    const response = await getReferrals(getRequest('/api/waitlist/referrals?code=REFCODE1'));
+
+    expect((await response.json()).stats.totalReferrals).toBe(2);
+  });
+
+  it('returns 404 for an unknown code', async () => {
+    const response = await getReferrals(getRequest('/api/waitlist/referrals?code=NOSUCHCODE'));
+
+    expect(response.status).toBe(404);
+  });
+
+  it('returns 400 for a malformed code', async () => {
+    const response = await getReferrals(getRequest('/api/waitlist/referrals?code=x'));
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe('GET /api/waitlist/position', () => {
+  it('moves subscribers forward for verified referrals', async () => {
+    subscribers.insert({ email: 'first@example.com', referralCode: 'FIRST1', createdAt: minutesAgo(4) });
+    subscribers.insert({ email: 'second@example.com', referralCode: 'SECOND1', createdAt: minutesAgo(3) });
+    const third = subscribers.insert({ email: 'third@example.com', referralCode: 'THIRD1', createdAt: minutesAgo(2) });
+    subscribers.insert({ email: 'friend@example.com', referredBy: third.id, verified: true, createdAt: minutesAgo(1) });
+
+    const response = await getPosition(getRequest('/api/waitlist/position?code=THIRD1'));
+
+    expect(await response.json()).toEqual({
+      success: true,
+      position: { position: 2, total: 4, signupOrder: 3, verifiedReferrals: 1 }
+    });
+  });
+
+  it('ignores flagged referrals', async () => {
+    subscribers.insert({ email: 'first@example.com', referralCode: 'FIRST1', createdAt: minutesAgo(3) });
+    const second = subscribers.insert({ email: 'second@example.com', referralCode: 'SECOND1', createdAt: minutesAgo(2) });
+    subscribers.insert({
+      email: 'friend@example.com',
+      referredBy: second.id,
+      verified: true,
+      fraudStatus: 'flagged',
+      createdAt: minutesAgo(1)
+    });
+
+    const response = await getPosition(getRequest('/api/waitlist/position?code=SECOND1'));
+
+    expect((await response.json()).position).toMatchObject({ position: 2, verifiedReferrals: 0 });
+  });
+
+  it('returns 404 for an unknown code', async () => {
+    const response = await getPosition(getRequest('/api/waitlist/position?code=NOSUCHCODE'));
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('referral fraud scoring', () => {
+  const browser = 'Mozilla/5.0 (X11; Linux x86_64; rv:128.0) Gecko/20100101 Firefox/128.0';
+
+  async function signUpReferrer(headers: Record<string, string>) {
+    await signup(signupRequest({ email: 'referrer@example.com' }, '/api/waitlist', headers));
+    return subscribers.all().find((subscriber) => subscriber.email === 'referrer@example.com')!.referralCode!;
+  }
+
+  it('flags a referral from the referrer\'s own IP and browser and keeps it out of the counts', async () => {
+    const headers = { 'X-Forwarded-For': '198.51.100.1', 'User-Agent': browser };
+    const referralCode = await signUpReferrer(headers);
+    const create = vi.spyOn(subscribers, 'create');
+
+    const response = await signup(signupRequest({ email: 'alt@example.com', referralCode }, '/api/waitlist', headers));
+
+    expect(response.status).toBe(201);
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({ fraudStatus: 'flagged', fraudReasons: ['shared_fingerprint'], fraudScore: 60 })
+    );
+
+    const alt = subscribers.all().find((record) => record.email === 'alt@example.com')!;
+    subscribers.update(alt.id, { verified: true });
+
+    const referrals = await getReferrals(getRequest(`/api/waitlist/referrals?code=${referralCode}`));
+    expect((await referrals.json()).stats.totalReferrals).toBe(0);
+  });
+
+  it('lets a referral from the same network but another browser through', async () => {
+    const referralCode = await signUpReferrer({ 'X-Forwarded-For': '198.51.100.2', 'User-Agent': browser });
+    const create = vi.spyOn(subscribers, 'create');
+
+    await signup(
+      signupRequest({ email: 'flatmate@example.com', referralCode }, '/api/waitlist', {
+        'X-Forwarded-For': '198.51.100.2',
+        'User-Agent': 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X)'
+      })
+    );
+
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({ fraudStatus: 'clean', fraudReasons: ['shared_ip'], fraudScore: 25 })
+    );
+  });
+
+  it('flags a burst of signups on a code whose earlier referrals never verified', async () => {
+    const referrer = subscribers.insert({ email: 'farmer@example.com', referralCode: 'FARMER12' });
+
+    for (let i = 0; i < 3; i++) {
+      subscribers.insert({ email: `old${i}@example.com`, referredBy: referrer.id, createdAt: minutesAgo(3 * 24 * 60) });
+    }
+
+    for (let i = 0; i < 5; i++) {
+      subscribers.insert({ email: `new${i}@example.com`, referredBy: referrer.id, createdAt: minutesAgo(i + 1) });
+    }
+
+    const create = vi.spyOn(subscribers, 'create');
+
+    await signup(signupRequest({ email: 'another@example.com', referralCode: 'FARMER12' }));
+
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({ fraudStatus: 'flagged', fraudReasons: ['burst', 'unverified_pattern'] })
+    );
+  });
+
+  it('does not score signups without a referral code', async () => {
+    const create = vi.spyOn(subscribers, 'create');
+
+    await signup(signupRequest({ email: 'organic@example.com' }));
+
+    expect(create).toHaveBeenCalledWith(expect.not.objectContaining({ fraudStatus: expect.anything() }));
+    expect(subscribers.all()[0]).toMatchObject({ fraudStatus: 'clean', signupIpHash: expect.any(String) });
+  });
+});
+
+describe('POST /api/waitlist/referral-code/recover', () => {
+  let mailer: MemoryMailer;
+
+  function recoverRequest(email: string) {
+    return signupRequest({ email }, '/api/waitlist/referral-code/recover');
+  }
+
+  beforeEach(() => {
+    mailer = createMemoryMailer();
+    setMailer(mailer);
+  });
+
+  it('emails subscribers their existing code', async () => {
+    subscribers.insert({ email: 'jane.doe@gmail.com', canonicalEmail: 'janedoe@gmail.com', referralCode: 'JANE1234' });
+
+    const response = await recoverReferralCode(recoverRequest('Jane.Doe+again@gmail.com'));
+
+    expect(response.status).toBe(200);
+    expect(mailer.messages).toHaveLength(1);
+    expect(mailer.messages[0].to).toBe('jane.doe@gmail.com');
+    expect(mailer.messages[0].text).toContain('JANE1234');
+  });
+
+  it('escapes the name in the HTML part of the email', async () => {
+    subscribers.insert({ email: 'mallory@example.com', name: '<a href="https://evil.test">Click</a>', referralCode: 'MALLORY1' });
+
+    await recoverReferralCode(recoverRequest('mallory@example.com'));
+
+    expect(mailer.messages[0].html).toContain('Hi &lt;a href=&quot;https://evil.test&quot;&gt;Click&lt;/a&gt;,');
+    expect(mailer.messages[0].html).not.toContain('<a href="https://evil.test">');
+  });
+
+  it('answers the same for unknown addresses without sending anything', async () => {
+    subscribers.insert({ email: 'known@example.com', referralCode: 'KNOWN123' });
+
+    const known = await (await recoverReferralCode(recoverRequest('known@example.com'))).json();
+    const unknown = await (await recoverReferralCode(recoverRequest('unknown@example.com'))).json();
+
+    expect(unknown).toEqual(known);
+    expect(mailer.messages).toHaveLength(1);
+  });
+
+  it('answers the same when the email fails to send', async () => {
+    subscribers.insert({ email: 'bounce@example.com', referralCode: 'BOUNCE12' });
+    vi.spyOn(mailer, 'send').mockRejectedValueOnce(new Error('SMTP unavailable'));
+    vi.spyOn(console, 'error').mockImplementationOnce(() => {});
+
+    const failed = await recoverReferralCode(recoverRequest('bounce@example.com'));
+    const unknown = await recoverReferralCode(recoverRequest('nobody@example.com'));
+
+    expect(failed.status).toBe(200);
+    expect(await failed.json()).toEqual(await unknown.json());
+  });
+
+  it('stops emailing an address after a few requests, without saying so', async () => {
+    subscribers.insert({ email: 'often@example.com', referralCode: 'OFTEN123' });
+
+    const responses = [];
+    for (let i = 0; i < 5; i++) {
+      responses.push(await recoverReferralCode(recoverRequest('often@example.com')));
+    }
+
+    expect(responses.map((response) => response.status)).toEqual([200, 200, 200, 200, 200]);
+    expect(mailer.messages).toHaveLength(3);
+  });
+});